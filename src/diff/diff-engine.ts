@@ -1,24 +1,152 @@
 // Diff Engine - Two-level diffing strategy
 
-import { diffWords, type Change } from 'diff';
-import type { DocumentAST, Block, TextFormatting } from '../types/ast.types';
-import type { BlockDiff, DiffChange, DocumentDiff, GroupedChange, PhraseReplacement } from '../types/diff.types';
+import { diffArrays, diffChars, diffWords, type Change } from 'diff';
+import type { DocumentAST, Block, ParagraphFormatting, Story, TableCell, TextFormatting } from '../types/ast.types';
+import {
+  PARAGRAPH_BOUNDARY,
+  type BlockDiff,
+  type CellDiff,
+  type DiffChange,
+  type DiffOptions,
+  type DocumentDiff,
+  type GroupedChange,
+  type PhraseReplacement,
+  type StoryDiff,
+  type TableDiff,
+  type TokenEdit
+} from '../types/diff.types';
 import type { AlignmentDecision } from '../types/debug.types';
 
 // Configuration for grouping consecutive word changes
 const GROUPING_CONFIG = {
-  CHANGE_DENSITY_THRESHOLD: 0.6,  // 60% of words must change to trigger grouping
+  CHANGE_DENSITY_THRESHOLD: 0.6,  // Default share of words that must change to trigger grouping
   MIN_CHANGED_WORDS: 3,           // Minimum changed words to consider grouping
   MAX_UNCHANGED_GAP: 1,           // Max unchanged words before breaking a group
 };
 
+// Configuration for refining single-token edits to character level
+const TOKEN_EDIT_CONFIG = {
+  MAX_TYPO_LENGTH: 12,       // Longer words are replaced whole unless numeric or date-like
+  MIN_TYPO_SIMILARITY: 0.6,  // Share of characters a typo fix must keep
+};
+
+// Numbers and amounts ("$1,250,000", "30", "12.5%", "1st") and dates ("2024-01-15", "15-Jan-2024")
+const NUMERIC_TOKEN = /^[\p{Sc}(+-]*\d[\d.,:/%-]*\)?(st|nd|rd|th)?$/iu;
+const DATE_TOKEN = /^\d{1,4}[/.-](\d{1,2}|[A-Za-z]{3,9})[/.-]\d{1,4}$/;
+
+// Formatting properties compared between runs
+const FORMAT_KEYS: (keyof TextFormatting)[] = ['bold', 'italic', 'underline', 'color', 'font', 'fontSize'];
+
+// Default fuzzy matching threshold for pairing modified blocks
+const SIMILARITY_THRESHOLD = 0.5; // 50% word overlap
+
+const DEFAULT_OPTIONS: DiffOptions = {
+  ignoreCase: false,
+  ignorePunctuation: false,
+  normalizeQuotesAndDashes: false,
+  ignoreFormatting: false,
+  fuzzyThreshold: SIMILARITY_THRESHOLD,
+  groupingDensity: GROUPING_CONFIG.CHANGE_DENSITY_THRESHOLD,
+  compareListLabels: false
+};
+
+// Character classes folded by normalizeQuotesAndDashes
+const SINGLE_QUOTES = /[\u2018\u2019\u201A\u201B\u2032]/g;
+const DOUBLE_QUOTES = /[\u201C\u201D\u201E\u201F\u2033]/g;
+const DASHES = /[\u2010-\u2015\u2212]/g;
+const PUNCTUATION = /\p{P}/gu;
+const PUNCTUATION_ONLY = /^[\s\p{P}]*$/u;
+
+// Clause numbers in text and list labels: "7", "7.2", "3.2(b)(iv)"
+const CLAUSE_NUMBER = /(?<![\w.])\d+(?:\.\d+)*(?:\([a-z0-9]+\))*(?![\w(])/gi;
+
+// A clause number typed at the start of a paragraph, as its own label
+const LEADING_CLAUSE_NUMBER = new RegExp(`^(\\s*)(${CLAUSE_NUMBER.source})`, 'i');
+
+// A clause number that follows a cross-reference word: "Section 7.2", "§ 3"
+const CROSS_REFERENCE = new RegExp(`(\\b(?:sections?|clauses?|articles?)\\s+|§§?\\s*)(${CLAUSE_NUMBER.source})`, 'gi');
+
+// Configuration for detecting relocated blocks
+const MOVE_CONFIG = {
+  SIMILARITY_THRESHOLD: 0.8,  // 80% word overlap between deleted and inserted block
+  MIN_WORDS: 3,               // Ignore very short blocks
+};
+
+// Configuration for detecting split and merged paragraphs
+const SPLIT_MERGE_CONFIG = {
+  SIMILARITY_THRESHOLD: 0.8,  // Joined blocks must overlap 80% with the single block
+  MAX_PARTS: 4,               // Maximum number of blocks one block may split into
+};
+
+/**
+ * A one-to-many (split) or many-to-one (merge) block correspondence found
+ * after alignment. `indexes` are the alignment entries it absorbs.
+ */
+interface SplitMergeGroup {
+  type: 'split' | 'merge';
+  originalBlocks: Block[];
+  currentBlocks: Block[];
+  indexes: number[];
+  similarity: number;
+}
+
+/**
+ * A grid column of a matched table pair; one side is missing for an
+ * inserted or deleted column.
+ */
+interface ColumnMatch {
+  original?: number;
+  current?: number;
+}
+
+// Upper bound on DP table size (orig x current blocks) inside a single gap
+const MAX_ALIGNMENT_CELLS = 250_000;
+
+/**
+ * Block alignment strategy:
+ * - 'sequence': order-preserving patience/LCS alignment (default)
+ * - 'greedy': global hash pass plus best-fuzzy-match-anywhere (legacy)
+ */
+export type AlignmentMode = 'sequence' | 'greedy';
+
+// Hash-based block matching with whitespace normalization
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
+const textPreview = (text: string) => text.substring(0, 100);
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+/**
+ * Split text into the same tokens diffWords uses, so option-aware diffs
+ * line up with the default ones.
+ */
+function tokenizeWords(text: string): string[] {
+  const tokens = text.split(/([^\S\r\n]+|[()[\]{}'"\r\n]|\b)/);
+  const extendedWordChars = /^[A-Za-z\xC0-\u02C6\u02C8-\u02D7\u02DE-\u02FF\u1E00-\u1EFF]+$/;
+
+  // Join boundary splits inside extended Latin words
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (!tokens[i + 1] && tokens[i + 2] &&
+        extendedWordChars.test(tokens[i]) && extendedWordChars.test(tokens[i + 2])) {
+      tokens[i] += tokens[i + 2];
+      tokens.splice(i + 1, 2);
+      i--;
+    }
+  }
+
+  return tokens.filter(token => token.length > 0);
+}
+
 export interface DiffResult {
   diff: DocumentDiff;
   alignmentDecisions: AlignmentDecision[];
+  /** Options the diff was computed with, defaults filled in */
+  options: DiffOptions;
 }
 
 export class DiffEngine {
   private debugMode: boolean = false;
+  private alignmentMode: AlignmentMode = 'sequence';
+  private wordSetCache = new Map<string, Set<string>>();
+  private options: DiffOptions = DEFAULT_OPTIONS;
 
   constructor() {
     // Constructor no longer needs to initialize diff-match-patch
@@ -38,21 +166,132 @@ export class DiffEngine {
     return this.debugMode;
   }
 
-  diffDocuments(originalAST: DocumentAST, currentAST: DocumentAST): DocumentDiff {
-    const result = this.diffDocumentsWithDebug(originalAST, currentAST);
+  /**
+   * Select the block alignment strategy
+   */
+  setAlignmentMode(mode: AlignmentMode): void {
+    this.alignmentMode = mode;
+  }
+
+  getAlignmentMode(): AlignmentMode {
+    return this.alignmentMode;
+  }
+
+  diffDocuments(originalAST: DocumentAST, currentAST: DocumentAST, options: Partial<DiffOptions> = {}): DocumentDiff {
+    const result = this.diffDocumentsWithDebug(originalAST, currentAST, options);
     return result.diff;
   }
 
-  diffDocumentsWithDebug(originalAST: DocumentAST, currentAST: DocumentAST): DiffResult {
-    // Step 1: Align blocks using diff-match-patch
-    const { alignment, decisions } = this.alignBlocks(originalAST.blocks, currentAST.blocks);
+  diffDocumentsWithDebug(
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    options: Partial<DiffOptions> = {}
+  ): DiffResult {
+    // Merge provided options with defaults
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.wordSetCache.clear();
+
+    // Diff the body, then each story on its own. Change ids run on across
+    // stories so they stay unique in the rendered view.
+    const body = this.diffBlocks(originalAST.blocks, currentAST.blocks, 0);
+    const storyDiffs = this.diffStories(originalAST.stories || [], currentAST.stories || [], body.changeCount);
+    const storyChanges = storyDiffs.reduce((count, story) => count + story.changeCount, 0);
+
+    const diff: DocumentDiff = {
+      blockDiffs: body.blockDiffs,
+      totalChanges: body.changeCount + storyChanges,
+      tableDiffs: body.tableDiffs,
+      storyDiffs,
+      // Use current document's section properties for the output
+      sectionProperties: currentAST.sectionProperties
+    };
+
+    return {
+      diff,
+      alignmentDecisions: body.decisions,
+      options: { ...this.options }
+    };
+  }
+
+  /**
+   * Diff two block sequences: alignment, split/merge and move detection,
+   * block diffs and the table stage. Change ids start at firstChangeId.
+   */
+  private diffBlocks(originalBlocks: Block[], currentBlocks: Block[], firstChangeId: number): {
+    blockDiffs: BlockDiff[];
+    decisions: AlignmentDecision[];
+    tableDiffs: TableDiff[];
+    changeCount: number;
+  } {
+    // Step 1: Align blocks into document order
+    const { alignment, decisions } = this.alignBlocks(originalBlocks, currentBlocks);
+
+    // Step 2: Group blocks that were split into several or merged into one
+    const splitMerges = this.detectSplitsAndMerges(alignment, decisions, originalBlocks, currentBlocks);
+
+    // Step 3: Pair deleted and inserted blocks that are really relocations
+    const moves = this.detectMoves(alignment, decisions, originalBlocks, currentBlocks, splitMerges);
+    const moveIds = new Map<number, string>();
 
-    // Step 2: Create block diffs
+    // Step 4: Create block diffs
     const blockDiffs: BlockDiff[] = [];
-    let changeId = 0;
+    let changeId = firstChangeId;
+    const renumbering = this.buildRenumberingMap(alignment);
+
+    alignment.forEach(([origBlock, currBlock], index) => {
+      const group = splitMerges.get(index);
+      const partnerIndex = moves.get(index);
+      if (group) {
+        // Emit one diff for the whole group at its first entry
+        if (group.indexes[0] !== index) return;
+
+        // Paragraph boundaries take part in the word diff as a token of their own
+        const wordDiff = this.diffText(
+          group.originalBlocks.map(b => b.text).join(` ${PARAGRAPH_BOUNDARY} `),
+          group.currentBlocks.map(b => b.text).join(` ${PARAGRAPH_BOUNDARY} `)
+        );
+
+        blockDiffs.push({
+          type: group.type,
+          originalBlock: group.originalBlocks[0],
+          currentBlock: group.currentBlocks[0],
+          originalBlocks: group.originalBlocks,
+          currentBlocks: group.currentBlocks,
+          wordDiff,
+          groupedDiff: this.groupConsecutiveChanges(wordDiff),
+          changeId: `change-${changeId++}`
+        });
+      } else if (partnerIndex !== undefined) {
+        // One half of a moved block - both halves carry the same moveId
+        const [movedOrig, movedCurr] = origBlock
+          ? [origBlock, alignment[partnerIndex][1]!]
+          : [alignment[partnerIndex][0]!, currBlock!];
+        const pairKey = Math.min(index, partnerIndex);
+        if (!moveIds.has(pairKey)) {
+          moveIds.set(pairKey, `move-${moveIds.size}`);
+        }
+
+        const moveDiff: BlockDiff = {
+          type: 'move',
+          originalBlock: movedOrig,
+          currentBlock: movedCurr,
+          move: {
+            moveId: moveIds.get(pairKey)!,
+            role: origBlock ? 'from' : 'to',
+            sourceIndex: originalBlocks.indexOf(movedOrig),
+            destinationIndex: currentBlocks.indexOf(movedCurr)
+          },
+          changeId: `change-${changeId++}`
+        };
+
+        // The destination carries the inner word diff if the moved text was also edited
+        if (!origBlock && movedOrig.text !== movedCurr.text) {
+          moveDiff.wordDiff = this.diffText(movedOrig.text, movedCurr.text);
+          moveDiff.groupedDiff = this.groupConsecutiveChanges(moveDiff.wordDiff);
+        }
 
-    alignment.forEach(([origBlock, currBlock]) => {
-      if (!origBlock && currBlock) {
+        blockDiffs.push(moveDiff);
+      } else if (!origBlock && currBlock) {
         // Inserted block
         blockDiffs.push({
           type: 'insert',
@@ -68,7 +307,14 @@ export class DiffEngine {
         });
       } else if (origBlock && currBlock) {
         // Check if blocks are identical
-        if (origBlock.text === currBlock.text && this.formatingsEqual(origBlock.formatting, currBlock.formatting)) {
+        const paragraphFormatChange = this.options.ignoreFormatting
+          ? null
+          : this.compareParagraphFormatting(origBlock.paragraphFormatting, currBlock.paragraphFormatting);
+        const formattingEqual = this.options.ignoreFormatting ||
+          (this.formatingsEqual(origBlock.formatting, currBlock.formatting) &&
+           this.runFormattingEqual(origBlock, currBlock) && !paragraphFormatChange);
+        const labelChanged = this.options.compareListLabels && origBlock.listLabel !== currBlock.listLabel;
+        if (origBlock.text === currBlock.text && formattingEqual && !labelChanged) {
           // Unchanged
           blockDiffs.push({
             type: 'unchanged',
@@ -77,77 +323,847 @@ export class DiffEngine {
           });
         } else {
           // Modified block - perform word-level diff
-          const wordDiff = diffWords(origBlock.text, currBlock.text);
+          const rawDiff = this.diffText(origBlock.text, currBlock.text);
+          const wordDiff = this.dropIgnoredChanges(rawDiff);
           const groupedDiff = this.groupConsecutiveChanges(wordDiff);
-          const formatDiff = this.diffFormatting(origBlock, currBlock, wordDiff);
+          const formatDiff = this.options.ignoreFormatting
+            ? undefined
+            : this.diffFormatting(origBlock, currBlock, rawDiff);
 
           const hasChanges = wordDiff.some(change => change.added || change.removed) ||
-                           formatDiff.some(fc => fc.type === 'format-change');
+                           !!formatDiff?.some(fc => fc.type === 'format-change') ||
+                           !!paragraphFormatChange || labelChanged;
+          // Number shifts caused by inserted or deleted clauses are not counted
+          const renumbered = hasChanges && formattingEqual && this.isRenumbering(origBlock, currBlock, renumbering);
 
-          blockDiffs.push({
-            type: hasChanges ? 'modify' : 'unchanged',
+          const blockDiff: BlockDiff = {
+            type: renumbered ? 'renumbering' : hasChanges ? 'modify' : 'unchanged',
             originalBlock: origBlock,
             currentBlock: currBlock,
             wordDiff,
             groupedDiff,
             formatDiff,
-            changeId: hasChanges ? `change-${changeId++}` : undefined
-          });
+            changeId: hasChanges && !renumbered ? `change-${changeId++}` : undefined
+          };
+          if (labelChanged) {
+            blockDiff.listLabelChange = { from: origBlock.listLabel, to: currBlock.listLabel };
+          }
+          if (paragraphFormatChange) {
+            blockDiff.paragraphFormatChange = paragraphFormatChange;
+          }
+          blockDiffs.push(blockDiff);
         }
       }
     });
 
-    const diff: DocumentDiff = {
+    // Step 5: Diff modified table rows cell by cell
+    const tableDiffs = this.diffTables(blockDiffs);
+
+    return {
       blockDiffs,
-      totalChanges: changeId,
-      // Use current document's section properties for the output
-      sectionProperties: currentAST.sectionProperties
+      decisions,
+      tableDiffs,
+      changeCount: changeId - firstChangeId
     };
+  }
 
-    return {
-      diff,
-      alignmentDecisions: decisions
+  /**
+   * Map each list label of the original to the label the same aligned block
+   * carries in the current document ("7.2" -> "7.3"). Labels that map to
+   * more than one new label (e.g. several lists restarting at 1) are dropped.
+   */
+  private buildRenumberingMap(alignment: [Block | null, Block | null][]): Map<string, string> {
+    const map = new Map<string, string>();
+    const ambiguous = new Set<string>();
+
+    for (const [origBlock, currBlock] of alignment) {
+      const from = this.getClauseNumber(origBlock?.listLabel);
+      const to = this.getClauseNumber(currBlock?.listLabel);
+      if (!from || !to) continue;
+      if (map.has(from) && map.get(from) !== to) {
+        ambiguous.add(from);
+      }
+      map.set(from, to);
+    }
+
+    ambiguous.forEach(label => map.delete(label));
+    return map;
+  }
+
+  /**
+   * The clause number inside a list label: "7.2." -> "7.2", "(b)" -> null
+   */
+  private getClauseNumber(label: string | undefined): string | null {
+    const match = label?.match(CLAUSE_NUMBER);
+    return match && match.length === 1 ? match[0] : null;
+  }
+
+  /**
+   * Whether a modified block only differs by renumbering: its list label
+   * shifted at the same level, and cross-references in its text
+   * ("Section 7.2") follow their renumbered targets. Only the block's own
+   * typed label and numbers after a cross-reference word are renumbered, so
+   * an edit such as "2 days" to "3 days" stays a change. List labels must
+   * both be clause numbers, shifted by the map and otherwise alike, so a
+   * label changed from "•" to "1." or "1." to "1)" stays a change too.
+   */
+  private isRenumbering(origBlock: Block, currBlock: Block, renumbering: Map<string, string>): boolean {
+    if (origBlock.type === 'table-row' || origBlock.listLevel !== currBlock.listLevel) {
+      return false;
+    }
+    if (origBlock.listLabel || currBlock.listLabel) {
+      const from = this.getClauseNumber(origBlock.listLabel);
+      const to = this.getClauseNumber(currBlock.listLabel);
+      if (!from || !to || renumbering.get(from) !== to || origBlock.listLabel!.replace(from, to) !== currBlock.listLabel) {
+        return false;
+      }
+    }
+    const renumber = (number: string) => renumbering.get(number) ?? number;
+    let renumbered = origBlock.text.replace(CROSS_REFERENCE, (_, word: string, number: string) => word + renumber(number));
+    if (!origBlock.listLabel) {
+      renumbered = renumbered.replace(LEADING_CLAUSE_NUMBER, (_, space: string, number: string) => space + renumber(number));
+    }
+    return renumbered === currBlock.text;
+  }
+
+  /**
+   * Pair stories by key and diff each pair. A story found in one document
+   * only is diffed against an empty story, so all its blocks show as
+   * inserted or deleted.
+   */
+  private diffStories(originalStories: Story[], currentStories: Story[], firstChangeId: number): StoryDiff[] {
+    const keys = [...currentStories.map(story => story.key)];
+    originalStories.forEach(story => {
+      if (!keys.includes(story.key)) keys.push(story.key);
+    });
+
+    let changeId = firstChangeId;
+    return keys.map(key => {
+      const original = originalStories.find(story => story.key === key);
+      const current = currentStories.find(story => story.key === key);
+      const story = (current || original)!;
+      const result = this.diffBlocks(original?.blocks || [], current?.blocks || [], changeId);
+      changeId += result.changeCount;
+
+      return {
+        key,
+        type: story.type,
+        variant: story.variant,
+        section: story.section,
+        originalPart: original?.part,
+        currentPart: current?.part,
+        blockDiffs: result.blockDiffs,
+        tableDiffs: result.tableDiffs,
+        changeCount: result.changeCount
+      };
+    });
+  }
+
+  /**
+   * Table diff stage. Matched rows are grouped by the pair of tables they
+   * belong to; when the grid width changed, the columns of each pair are
+   * aligned over all its rows to find inserted and deleted columns. Every
+   * modified row then gets one CellDiff per aligned column.
+   */
+  private diffTables(blockDiffs: BlockDiff[]): TableDiff[] {
+    const tablePairs = new Map<string, BlockDiff[]>();
+    for (const blockDiff of blockDiffs) {
+      const { originalBlock, currentBlock } = blockDiff;
+      if (blockDiff.type !== 'modify' && blockDiff.type !== 'unchanged') continue;
+      if (!originalBlock?.cells || !currentBlock?.cells) continue;
+
+      const key = `${originalBlock.tableId}|${currentBlock.tableId}`;
+      if (!tablePairs.has(key)) tablePairs.set(key, []);
+      tablePairs.get(key)!.push(blockDiff);
+    }
+
+    const tableDiffs: TableDiff[] = [];
+    tablePairs.forEach(rows => {
+      const columns = this.alignColumns(rows);
+      const insertedColumns = columns.filter(c => c.original === undefined).map(c => c.current!);
+      const deletedColumns = columns.filter(c => c.current === undefined).map(c => c.original!);
+      if (insertedColumns.length > 0 || deletedColumns.length > 0) {
+        tableDiffs.push({
+          originalTableId: rows[0].originalBlock!.tableId!,
+          currentTableId: rows[0].currentBlock!.tableId!,
+          insertedColumns,
+          deletedColumns
+        });
+      }
+
+      rows
+        .filter(row => row.type === 'modify')
+        .forEach(row => {
+          row.cellDiffs = this.diffCells(row.originalBlock!, row.currentBlock!, columns);
+        });
+    });
+
+    return tableDiffs;
+  }
+
+  /**
+   * Align the grid columns of two tables. Tables of equal width are matched
+   * column by column; otherwise each column's text down the matched rows is
+   * compared, so a column only counts as kept when its content carried over.
+   */
+  private alignColumns(rows: BlockDiff[]): ColumnMatch[] {
+    const gridWidth = (block: Block) => block.cells!.reduce((width, cell) => width + cell.gridSpan, 0);
+    const originalWidth = Math.max(...rows.map(row => gridWidth(row.originalBlock!)));
+    const currentWidth = Math.max(...rows.map(row => gridWidth(row.currentBlock!)));
+    const range = (length: number) => Array.from({ length }, (_, i) => i);
+
+    if (originalWidth === currentWidth) {
+      return range(originalWidth).map(i => ({ original: i, current: i }));
+    }
+
+    // Column text down the matched rows, folded like block hashes
+    const columnText = (side: 'originalBlock' | 'currentBlock', column: number) =>
+      normalizeText(this.foldText(rows.map(row => this.getGridCell(row[side]!, column)?.text || '').join(' ')));
+    const originalColumns = range(originalWidth).map(i => columnText('originalBlock', i));
+    const currentColumns = range(currentWidth).map(i => columnText('currentBlock', i));
+
+    const columns: ColumnMatch[] = [];
+    let original = 0;
+    let current = 0;
+    diffArrays(originalColumns, currentColumns, {
+      comparator: (left, right) => this.textSimilarity(left, right) >= this.options.fuzzyThreshold
+    }).forEach(part => {
+      for (let i = 0; i < (part.count ?? part.value.length); i++) {
+        if (part.removed) {
+          columns.push({ original: original++ });
+        } else if (part.added) {
+          columns.push({ current: current++ });
+        } else {
+          columns.push({ original: original++, current: current++ });
+        }
+      }
+    });
+
+    return columns;
+  }
+
+  /**
+   * Diff the cells of a modified row along the aligned columns. Grid
+   * columns covered by a spanning cell on both sides are skipped.
+   */
+  private diffCells(origBlock: Block, currBlock: Block, columns: ColumnMatch[]): CellDiff[] {
+    const cellDiffs: CellDiff[] = [];
+
+    for (const column of columns) {
+      const originalIndex = column.original === undefined ? -1 : this.getGridCellIndex(origBlock, column.original);
+      const currentIndex = column.current === undefined ? -1 : this.getGridCellIndex(currBlock, column.current);
+      const originalCell = origBlock.cells![originalIndex];
+      const currentCell = currBlock.cells![currentIndex];
+
+      if (!originalCell && !currentCell) continue;
+      if (!currentCell) {
+        cellDiffs.push({ type: 'delete', originalCell, originalIndex });
+        continue;
+      }
+      if (!originalCell) {
+        cellDiffs.push({ type: 'insert', currentCell, currentIndex });
+        continue;
+      }
+
+      const origCellBlock = this.getCellBlock(origBlock, originalCell);
+      const currCellBlock = this.getCellBlock(currBlock, currentCell);
+      const formattingEqual = this.options.ignoreFormatting || this.runFormattingEqual(origCellBlock, currCellBlock);
+      if (originalCell.text === currentCell.text && formattingEqual) {
+        cellDiffs.push({ type: 'unchanged', originalCell, currentCell, originalIndex, currentIndex });
+        continue;
+      }
+
+      const rawDiff = this.diffText(originalCell.text, currentCell.text);
+      const wordDiff = this.dropIgnoredChanges(rawDiff);
+      const formatDiff = this.options.ignoreFormatting
+        ? undefined
+        : this.diffFormatting(origCellBlock, currCellBlock, rawDiff);
+      const hasChanges = wordDiff.some(change => change.added || change.removed) ||
+                         !!formatDiff?.some(fc => fc.type === 'format-change');
+
+      cellDiffs.push({
+        type: hasChanges ? 'modify' : 'unchanged',
+        originalCell,
+        currentCell,
+        originalIndex,
+        currentIndex,
+        wordDiff,
+        groupedDiff: this.groupConsecutiveChanges(wordDiff),
+        formatDiff
+      });
+    }
+
+    return cellDiffs;
+  }
+
+  /**
+   * Index in block.cells of the cell starting at a grid column, or -1 when
+   * the column is covered by a spanning cell or lies beyond the row
+   */
+  private getGridCellIndex(block: Block, column: number): number {
+    let start = 0;
+    for (let k = 0; k < (block.cells || []).length; k++) {
+      if (start === column) return k;
+      start += block.cells![k].gridSpan;
+      if (start > column) return -1;
+    }
+    return -1;
+  }
+
+  private getGridCell(block: Block, column: number): TableCell | undefined {
+    return block.cells![this.getGridCellIndex(block, column)];
+  }
+
+  /**
+   * A cell viewed as a block of the row, for reuse of the block-level diffs
+   */
+  private getCellBlock(row: Block, cell: TableCell): Block {
+    return { ...row, text: cell.text, runs: cell.runs, cells: undefined };
+  }
+
+  /**
+   * Find one-to-many (split) and many-to-one (merge) block correspondences.
+   * A block on one side is compared against the concatenation of adjacent
+   * unmatched blocks on the other side around its position in the alignment.
+   * Every alignment index absorbed by a group maps to that group.
+   */
+  private detectSplitsAndMerges(
+    alignment: [Block | null, Block | null][],
+    decisions: AlignmentDecision[],
+    originalBlocks: Block[],
+    currentBlocks: Block[]
+  ): Map<number, SplitMergeGroup> {
+    const groups = new Map<number, SplitMergeGroup>();
+    const canSplit = (block: Block) => block.type !== 'table' && block.type !== 'table-row' && block.type !== 'page-break';
+
+    for (let index = 0; index < alignment.length; index++) {
+      if (groups.has(index)) continue;
+      const [origBlock, currBlock] = alignment[index];
+      if (origBlock && currBlock && this.hashBlock(origBlock) === this.hashBlock(currBlock)) continue;
+
+      let group: SplitMergeGroup | null = null;
+      if (origBlock && canSplit(origBlock)) {
+        group = this.findJoinedWindow(alignment, index, 1, groups, canSplit);
+      }
+      if (!group && currBlock && canSplit(currBlock)) {
+        group = this.findJoinedWindow(alignment, index, 0, groups, canSplit);
+      }
+      if (!group) continue;
+
+      group.indexes.forEach(i => groups.set(i, group!));
+
+      // Replace the per-block decisions with a single split/merge decision
+      const origIndexes = group.originalBlocks.map(b => originalBlocks.indexOf(b));
+      const currIndexes = group.currentBlocks.map(b => currentBlocks.indexOf(b));
+      const superseded = (d: AlignmentDecision) =>
+        (d.originalIndex !== null && origIndexes.includes(d.originalIndex)) ||
+        (d.currentIndex !== null && currIndexes.includes(d.currentIndex));
+      for (let k = decisions.length - 1; k >= 0; k--) {
+        if (superseded(decisions[k])) decisions.splice(k, 1);
+      }
+
+      const manySide = group.type === 'split' ? currIndexes : origIndexes;
+      decisions.push({
+        originalIndex: origIndexes[0],
+        currentIndex: currIndexes[0],
+        matchType: group.type,
+        similarityScore: group.similarity,
+        reason: group.type === 'split'
+          ? `Split: original block matches ${manySide.length} consecutive current blocks (${manySide[0]}-${manySide[manySide.length - 1]}) with ${(group.similarity * 100).toFixed(1)}% word overlap`
+          : `Merge: ${manySide.length} consecutive original blocks (${manySide[0]}-${manySide[manySide.length - 1]}) match one current block with ${(group.similarity * 100).toFixed(1)}% word overlap`,
+        originalPreview: textPreview(group.originalBlocks.map(b => b.text).join(' ')),
+        currentPreview: textPreview(group.currentBlocks.map(b => b.text).join(' '))
+      });
+    }
+
+    return groups;
+  }
+
+  /**
+   * Look for the window of adjacent one-sided entries around `index` whose
+   * joined text best matches the single block at `index`.
+   * `side` is the alignment side holding the several blocks: 1 (current) for
+   * a split, 0 (original) for a merge.
+   */
+  private findJoinedWindow(
+    alignment: [Block | null, Block | null][],
+    index: number,
+    side: 0 | 1,
+    groups: Map<number, SplitMergeGroup>,
+    canSplit: (block: Block) => boolean
+  ): SplitMergeGroup | null {
+    const single = alignment[index][1 - side]!;
+    const paired = alignment[index][side];
+
+    // Entries that only have a block on the "many" side, adjacent to index
+    const isOneSided = (i: number) => {
+      const entry = alignment[i];
+      return !groups.has(i) && !entry[1 - side] && !!entry[side] && canSplit(entry[side]!);
     };
+    let first = index;
+    while (first > 0 && isOneSided(first - 1)) first--;
+    let last = index;
+    while (last < alignment.length - 1 && isOneSided(last + 1)) last++;
+
+    const candidates: number[] = [];
+    for (let i = first; i <= last; i++) {
+      if (i !== index || paired) candidates.push(i);
+    }
+
+    const baseline = paired ? this.textSimilarity(this.hashBlock(single), this.hashBlock(paired)) : 0;
+    let best: { start: number; end: number; similarity: number } | null = null;
+
+    for (let start = 0; start < candidates.length; start++) {
+      for (let end = start + 2; end <= Math.min(candidates.length, start + SPLIT_MERGE_CONFIG.MAX_PARTS); end++) {
+        const window = candidates.slice(start, end);
+        // A block paired at index must belong to the window
+        if (paired && !window.includes(index)) continue;
+
+        const joined = window.map(i => this.hashBlock(alignment[i][side]!)).join(' ');
+        const similarity = this.textSimilarity(this.hashBlock(single), joined);
+        if (similarity >= SPLIT_MERGE_CONFIG.SIMILARITY_THRESHOLD &&
+            similarity > baseline &&
+            (!best || similarity > best.similarity)) {
+          best = { start, end, similarity };
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    const window = candidates.slice(best.start, best.end);
+    const manyBlocks = window.map(i => alignment[i][side]!);
+    const indexes = Array.from(new Set([index, ...window])).sort((a, b) => a - b);
+
+    return side === 1
+      ? { type: 'split', originalBlocks: [single], currentBlocks: manyBlocks, indexes, similarity: best.similarity }
+      : { type: 'merge', originalBlocks: manyBlocks, currentBlocks: [single], indexes, similarity: best.similarity };
+  }
+
+  /**
+   * Find deleted blocks whose text reappears (nearly) unchanged as an inserted
+   * block elsewhere. Returns a symmetric map between the alignment indexes of
+   * each pair and rewrites their delete/insert decisions as a single move.
+   */
+  private detectMoves(
+    alignment: [Block | null, Block | null][],
+    decisions: AlignmentDecision[],
+    originalBlocks: Block[],
+    currentBlocks: Block[],
+    splitMerges: Map<number, SplitMergeGroup>
+  ): Map<number, number> {
+    const moves = new Map<number, number>();
+    const insertedIndexes: number[] = [];
+    alignment.forEach(([origBlock, currBlock], index) => {
+      if (!origBlock && currBlock && !splitMerges.has(index)) insertedIndexes.push(index);
+    });
+
+    alignment.forEach(([origBlock, currBlock], index) => {
+      if (!origBlock || currBlock || splitMerges.has(index)) return;
+
+      // Short boilerplate ("Reserved.") is too ambiguous to call a move
+      const wordCount = normalizeText(origBlock.text).split(/\s+/).filter(w => w.length > 0).length;
+      if (wordCount < MOVE_CONFIG.MIN_WORDS) return;
+
+      let best: { index: number; similarity: number } | null = null;
+      for (const insertedIndex of insertedIndexes) {
+        if (moves.has(insertedIndex)) continue;
+        const similarity = this.calculateSimilarity(origBlock, alignment[insertedIndex][1]!);
+        if (similarity >= MOVE_CONFIG.SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { index: insertedIndex, similarity };
+        }
+      }
+      if (!best) return;
+
+      moves.set(index, best.index);
+      moves.set(best.index, index);
+
+      const movedCurr = alignment[best.index][1]!;
+      const origIndex = originalBlocks.indexOf(origBlock);
+      const currIndex = currentBlocks.indexOf(movedCurr);
+
+      const deleteDecision = decisions.findIndex(d => d.matchType === 'delete' && d.originalIndex === origIndex);
+      const moveDecision: AlignmentDecision = {
+        originalIndex: origIndex,
+        currentIndex: currIndex,
+        matchType: 'move',
+        similarityScore: best.similarity,
+        reason: `Moved: ${(best.similarity * 100).toFixed(1)}% word overlap with a block at another position (threshold: ${MOVE_CONFIG.SIMILARITY_THRESHOLD * 100}%)`,
+        originalPreview: textPreview(origBlock.text),
+        currentPreview: textPreview(movedCurr.text)
+      };
+      if (deleteDecision >= 0) {
+        decisions[deleteDecision] = moveDecision;
+      } else {
+        decisions.push(moveDecision);
+      }
+
+      const insertDecision = decisions.findIndex(d => d.matchType === 'insert' && d.currentIndex === currIndex);
+      if (insertDecision >= 0) {
+        decisions.splice(insertDecision, 1);
+      }
+    });
+
+    return moves;
   }
 
   private alignBlocks(originalBlocks: Block[], currentBlocks: Block[]): {
     alignment: [Block | null, Block | null][];
     decisions: AlignmentDecision[];
+  } {
+    if (this.alignmentMode === 'greedy') {
+      return this.alignBlocksGreedy(originalBlocks, currentBlocks);
+    }
+    return this.alignBlocksSequence(originalBlocks, currentBlocks);
+  }
+
+  /**
+   * Order-preserving alignment. Blocks whose text is unique in both documents
+   * become patience anchors (longest increasing subsequence); gaps without
+   * unique anchors fall back to an LCS over block hashes. Fuzzy similarity is
+   * only used inside the gaps that remain between exact anchors, so a repeated
+   * boilerplate sentence can never pair across the rest of the document.
+   */
+  private alignBlocksSequence(originalBlocks: Block[], currentBlocks: Block[]): {
+    alignment: [Block | null, Block | null][];
+    decisions: AlignmentDecision[];
   } {
     const alignment: [Block | null, Block | null][] = [];
     const decisions: AlignmentDecision[] = [];
 
-    // Hash-based block matching with whitespace normalization
-    const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
-    const hashBlock = (block: Block) => normalizeText(block.text);
-    const textPreview = (text: string) => text.substring(0, 100);
+    const origHashes = originalBlocks.map(block => this.hashBlock(block));
+    const currHashes = currentBlocks.map(block => this.hashBlock(block));
+
+    const pushExact = (origIndex: number, currIndex: number, reason: string) => {
+      alignment.push([originalBlocks[origIndex], currentBlocks[currIndex]]);
+      decisions.push({
+        originalIndex: origIndex,
+        currentIndex: currIndex,
+        matchType: 'exact',
+        similarityScore: 1.0,
+        reason,
+        originalPreview: textPreview(originalBlocks[origIndex].text),
+        currentPreview: textPreview(currentBlocks[currIndex].text)
+      });
+    };
+
+    const alignRange = (oStart: number, oEnd: number, cStart: number, cEnd: number): void => {
+      // Common prefix and suffix are matched directly
+      while (oStart < oEnd && cStart < cEnd && origHashes[oStart] === currHashes[cStart]) {
+        pushExact(oStart++, cStart++, 'Exact text match after whitespace normalization (in sequence)');
+      }
+      let suffixLength = 0;
+      while (
+        oEnd - suffixLength > oStart &&
+        cEnd - suffixLength > cStart &&
+        origHashes[oEnd - suffixLength - 1] === currHashes[cEnd - suffixLength - 1]
+      ) {
+        suffixLength++;
+      }
+      const oInnerEnd = oEnd - suffixLength;
+      const cInnerEnd = cEnd - suffixLength;
+
+      if (oStart < oInnerEnd && cStart < cInnerEnd) {
+        let anchors = this.findPatienceAnchors(origHashes, currHashes, oStart, oInnerEnd, cStart, cInnerEnd);
+        let reason = 'Exact text match after whitespace normalization (unique anchor)';
+        if (anchors.length === 0) {
+          anchors = this.findLcsAnchors(origHashes, currHashes, oStart, oInnerEnd, cStart, cInnerEnd);
+          reason = 'Exact text match after whitespace normalization (longest common subsequence)';
+        }
+
+        if (anchors.length === 0) {
+          this.alignGap(originalBlocks, currentBlocks, oStart, oInnerEnd, cStart, cInnerEnd, alignment, decisions);
+        } else {
+          let o = oStart;
+          let c = cStart;
+          for (const [anchorOrig, anchorCurr] of anchors) {
+            alignRange(o, anchorOrig, c, anchorCurr);
+            pushExact(anchorOrig, anchorCurr, reason);
+            o = anchorOrig + 1;
+            c = anchorCurr + 1;
+          }
+          alignRange(o, oInnerEnd, c, cInnerEnd);
+        }
+      } else {
+        this.alignGap(originalBlocks, currentBlocks, oStart, oInnerEnd, cStart, cInnerEnd, alignment, decisions);
+      }
+
+      for (let k = suffixLength; k > 0; k--) {
+        pushExact(oEnd - k, cEnd - k, 'Exact text match after whitespace normalization (in sequence)');
+      }
+    };
+
+    alignRange(0, originalBlocks.length, 0, currentBlocks.length);
+
+    return { alignment, decisions };
+  }
+
+  /**
+   * Patience anchors: hashes occurring exactly once in both ranges, reduced to
+   * the longest subsequence that is increasing in both documents.
+   */
+  private findPatienceAnchors(
+    origHashes: string[],
+    currHashes: string[],
+    oStart: number,
+    oEnd: number,
+    cStart: number,
+    cEnd: number
+  ): [number, number][] {
+    const countOccurrences = (hashes: string[], start: number, end: number) => {
+      const counts = new Map<string, { count: number; index: number }>();
+      for (let i = start; i < end; i++) {
+        const entry = counts.get(hashes[i]);
+        if (entry) {
+          entry.count++;
+        } else {
+          counts.set(hashes[i], { count: 1, index: i });
+        }
+      }
+      return counts;
+    };
+
+    const origCounts = countOccurrences(origHashes, oStart, oEnd);
+    const currCounts = countOccurrences(currHashes, cStart, cEnd);
+
+    // Candidate pairs in original order
+    const candidates: [number, number][] = [];
+    for (let i = oStart; i < oEnd; i++) {
+      const orig = origCounts.get(origHashes[i])!;
+      const curr = currCounts.get(origHashes[i]);
+      if (orig.count === 1 && curr && curr.count === 1) {
+        candidates.push([i, curr.index]);
+      }
+    }
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Longest increasing subsequence on current index (patience sorting)
+    const tails: number[] = [];
+    const previous: number[] = new Array(candidates.length).fill(-1);
+    candidates.forEach(([, currIndex], k) => {
+      let lo = 0;
+      let hi = tails.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (candidates[tails[mid]][1] < currIndex) {
+          lo = mid + 1;
+        } else {
+          hi = mid;
+        }
+      }
+      if (lo > 0) {
+        previous[k] = tails[lo - 1];
+      }
+      tails[lo] = k;
+    });
+
+    const anchors: [number, number][] = [];
+    for (let k = tails[tails.length - 1]; k >= 0; k = previous[k]) {
+      anchors.unshift(candidates[k]);
+    }
+    return anchors;
+  }
+
+  /**
+   * Longest common subsequence over block hashes, used when a range has no
+   * unique anchors (e.g. only repeated boilerplate). Skipped for very large gaps.
+   */
+  private findLcsAnchors(
+    origHashes: string[],
+    currHashes: string[],
+    oStart: number,
+    oEnd: number,
+    cStart: number,
+    cEnd: number
+  ): [number, number][] {
+    const n = oEnd - oStart;
+    const m = cEnd - cStart;
+    if (n * m > MAX_ALIGNMENT_CELLS) {
+      return [];
+    }
+
+    // lengths[i][j] = LCS length of orig[i..] and curr[j..]
+    const lengths: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) {
+      lengths.push(new Uint32Array(m + 1));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = origHashes[oStart + i] === currHashes[cStart + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const anchors: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (origHashes[oStart + i] === currHashes[cStart + j]) {
+        anchors.push([oStart + i, cStart + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return anchors;
+  }
+
+  /**
+   * Pair blocks inside a gap between exact anchors. Chooses the order-preserving
+   * set of fuzzy pairings with the highest total similarity; everything else in
+   * the gap becomes a deletion or insertion at its position.
+   */
+  private alignGap(
+    originalBlocks: Block[],
+    currentBlocks: Block[],
+    oStart: number,
+    oEnd: number,
+    cStart: number,
+    cEnd: number,
+    alignment: [Block | null, Block | null][],
+    decisions: AlignmentDecision[]
+  ): void {
+    const n = oEnd - oStart;
+    const m = cEnd - cStart;
+    const similarity = (i: number, j: number) =>
+      this.calculateSimilarity(originalBlocks[oStart + i], currentBlocks[cStart + j]);
+
+    const pairs: [number, number, number][] = [];
+
+    if (n > 0 && m > 0 && n * m <= MAX_ALIGNMENT_CELLS) {
+      // scores[i][j] = best total similarity pairing orig[i..] with curr[j..]
+      const scores: Float64Array[] = [];
+      const sims: Float64Array[] = [];
+      for (let i = 0; i <= n; i++) {
+        scores.push(new Float64Array(m + 1));
+        sims.push(new Float64Array(m + 1));
+      }
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          const sim = similarity(i, j);
+          sims[i][j] = sim;
+          const paired = sim >= this.options.fuzzyThreshold ? scores[i + 1][j + 1] + sim : -1;
+          scores[i][j] = Math.max(paired, scores[i + 1][j], scores[i][j + 1]);
+        }
+      }
 
-    // Helper to calculate similarity between two blocks (0-1 scale)
-    const calculateSimilarity = (block1: Block, block2: Block): number => {
-      const text1 = normalizeText(block1.text);
-      const text2 = normalizeText(block2.text);
+      let i = 0;
+      let j = 0;
+      while (i < n && j < m) {
+        const sim = sims[i][j];
+        if (sim >= this.options.fuzzyThreshold && scores[i][j] === scores[i + 1][j + 1] + sim) {
+          pairs.push([oStart + i, cStart + j, sim]);
+          i++;
+          j++;
+        } else if (scores[i][j] === scores[i + 1][j]) {
+          i++;
+        } else {
+          j++;
+        }
+      }
+    } else if (n > 0 && m > 0) {
+      // Gap too large for the full table: pair in order, looking forward only
+      let nextCurr = 0;
+      for (let i = 0; i < n && nextCurr < m; i++) {
+        let best: { index: number; sim: number } | null = null;
+        for (let j = nextCurr; j < m; j++) {
+          const sim = similarity(i, j);
+          if (sim >= this.options.fuzzyThreshold && (!best || sim > best.sim)) {
+            best = { index: j, sim };
+          }
+        }
+        if (best) {
+          pairs.push([oStart + i, cStart + best.index, best.sim]);
+          nextCurr = best.index + 1;
+        }
+      }
+    }
+
+    const pushDelete = (origIndex: number) => {
+      const origBlock = originalBlocks[origIndex];
+      alignment.push([origBlock, null]);
 
-      if (text1 === text2) return 1.0;
-      if (!text1 || !text2) return 0.0;
+      // Find the best candidate in the gap for debugging
+      let bestSimilarity = 0;
+      for (let j = cStart; j < cEnd; j++) {
+        bestSimilarity = Math.max(bestSimilarity, this.calculateSimilarity(origBlock, currentBlocks[j]));
+      }
 
-      // Use simple word overlap ratio
-      const words1 = text1.split(/\s+/);
-      const words2 = text2.split(/\s+/);
-      const set1 = new Set(words1);
-      const set2 = new Set(words2);
+      let reason: string;
+      if (m === 0) {
+        reason = 'No match found. No candidates between neighbouring anchors';
+      } else if (bestSimilarity >= this.options.fuzzyThreshold) {
+        reason = `No match found. Best candidate had ${(bestSimilarity * 100).toFixed(1)}% similarity but pairing it would break document order`;
+      } else {
+        reason = `No match found. Best candidate had ${(bestSimilarity * 100).toFixed(1)}% similarity (below ${percent(this.options.fuzzyThreshold)} threshold)`;
+      }
 
-      let overlap = 0;
-      set1.forEach(word => {
-        if (set2.has(word)) overlap++;
+      decisions.push({
+        originalIndex: origIndex,
+        currentIndex: null,
+        matchType: 'delete',
+        similarityScore: bestSimilarity > 0 ? bestSimilarity : undefined,
+        reason,
+        originalPreview: textPreview(origBlock.text)
       });
+    };
 
-      return (2 * overlap) / (set1.size + set2.size);
+    const pushInsert = (currIndex: number) => {
+      alignment.push([null, currentBlocks[currIndex]]);
+      decisions.push({
+        originalIndex: null,
+        currentIndex: currIndex,
+        matchType: 'insert',
+        reason: 'No matching block in original document',
+        currentPreview: textPreview(currentBlocks[currIndex].text)
+      });
     };
 
+    let o = oStart;
+    let c = cStart;
+    for (const [origIndex, currIndex, sim] of pairs) {
+      while (o < origIndex) pushDelete(o++);
+      while (c < currIndex) pushInsert(c++);
+
+      alignment.push([originalBlocks[origIndex], currentBlocks[currIndex]]);
+      decisions.push({
+        originalIndex: origIndex,
+        currentIndex: currIndex,
+        matchType: 'fuzzy',
+        similarityScore: sim,
+        reason: `Fuzzy match: ${(sim * 100).toFixed(1)}% word overlap (threshold: ${percent(this.options.fuzzyThreshold)}) within gap between anchors`,
+        originalPreview: textPreview(originalBlocks[origIndex].text),
+        currentPreview: textPreview(currentBlocks[currIndex].text)
+      });
+      o = origIndex + 1;
+      c = currIndex + 1;
+    }
+    while (o < oEnd) pushDelete(o++);
+    while (c < cEnd) pushInsert(c++);
+  }
+
+  /**
+   * Legacy alignment: global exact-hash pass followed by a greedy
+   * "best fuzzy match anywhere" pass, sorted back into original order.
+   */
+  private alignBlocksGreedy(originalBlocks: Block[], currentBlocks: Block[]): {
+    alignment: [Block | null, Block | null][];
+    decisions: AlignmentDecision[];
+  } {
+    const alignment: [Block | null, Block | null][] = [];
+    const decisions: AlignmentDecision[] = [];
+
     // Create hash map of current blocks for fast exact matching
     const currentMap = new Map<string, Block[]>();
     currentBlocks.forEach(block => {
-      const hash = hashBlock(block);
+      const hash = this.hashBlock(block);
       if (!currentMap.has(hash)) {
         currentMap.set(hash, []);
       }
@@ -159,7 +1175,7 @@ export class DiffEngine {
 
     // First pass: Exact hash matching
     originalBlocks.forEach((origBlock, origIndex) => {
-      const hash = hashBlock(origBlock);
+      const hash = this.hashBlock(origBlock);
       const matches = currentMap.get(hash) || [];
 
       // Find first unused exact match
@@ -191,7 +1207,6 @@ export class DiffEngine {
     });
 
     // Second pass: Fuzzy matching for unmatched blocks (likely modifications)
-    const SIMILARITY_THRESHOLD = 0.5; // 50% word overlap
     unmatchedOriginal.forEach(({ block: origBlock, index: origIndex }) => {
       type BestMatchType = { block: Block, index: number, similarity: number };
       let bestMatch: BestMatchType | null = null;
@@ -199,8 +1214,8 @@ export class DiffEngine {
       currentBlocks.forEach((currBlock, currIndex) => {
         if (usedCurrent.has(currIndex)) return;
 
-        const similarity = calculateSimilarity(origBlock, currBlock);
-        if (similarity >= SIMILARITY_THRESHOLD) {
+        const similarity = this.calculateSimilarity(origBlock, currBlock);
+        if (similarity >= this.options.fuzzyThreshold) {
           if (!bestMatch || similarity > bestMatch.similarity) {
             bestMatch = { block: currBlock, index: currIndex, similarity };
           }
@@ -219,7 +1234,7 @@ export class DiffEngine {
           currentIndex: match.index,
           matchType: 'fuzzy',
           similarityScore: match.similarity,
-          reason: `Fuzzy match: ${(match.similarity * 100).toFixed(1)}% word overlap (threshold: ${SIMILARITY_THRESHOLD * 100}%)`,
+          reason: `Fuzzy match: ${(match.similarity * 100).toFixed(1)}% word overlap (threshold: ${percent(this.options.fuzzyThreshold)})`,
           originalPreview: textPreview(origBlock.text),
           currentPreview: textPreview(match.block.text)
         });
@@ -233,7 +1248,7 @@ export class DiffEngine {
         let bestCandidateIndex: number | null = null;
         currentBlocks.forEach((currBlock, currIndex) => {
           if (usedCurrent.has(currIndex)) return;
-          const similarity = calculateSimilarity(origBlock, currBlock);
+          const similarity = this.calculateSimilarity(origBlock, currBlock);
           if (similarity > bestSimilarity) {
             bestSimilarity = similarity;
             bestCandidateIndex = currIndex;
@@ -241,7 +1256,7 @@ export class DiffEngine {
         });
 
         const reason = bestCandidateIndex !== null
-          ? `No match found. Best candidate had ${(bestSimilarity * 100).toFixed(1)}% similarity (below ${SIMILARITY_THRESHOLD * 100}% threshold)`
+          ? `No match found. Best candidate had ${(bestSimilarity * 100).toFixed(1)}% similarity (below ${percent(this.options.fuzzyThreshold)} threshold)`
           : 'No match found. No unmatched candidates remaining';
 
         decisions.push({
@@ -287,55 +1302,244 @@ export class DiffEngine {
     return { alignment, decisions };
   }
 
+  private getWordSet(normalizedText: string): Set<string> {
+    // Gap alignment compares every block pair, so cache the word sets per text
+    let set = this.wordSetCache.get(normalizedText);
+    if (!set) {
+      set = new Set(normalizedText.split(/\s+/));
+      this.wordSetCache.set(normalizedText, set);
+    }
+    return set;
+  }
+
+  private hashBlock(block: Block): string {
+    return normalizeText(this.foldText(block.text));
+  }
+
+  /**
+   * Apply the text options (case, punctuation, quotes and dashes) so that
+   * texts differing only in ignored ways compare equal.
+   */
+  private foldText(text: string): string {
+    let folded = text;
+    if (this.options.normalizeQuotesAndDashes) {
+      folded = folded.replace(SINGLE_QUOTES, "'").replace(DOUBLE_QUOTES, '"').replace(DASHES, '-');
+    }
+    if (this.options.ignorePunctuation) {
+      folded = folded.replace(PUNCTUATION, '');
+    }
+    if (this.options.ignoreCase) {
+      folded = folded.toLowerCase();
+    }
+    return folded;
+  }
+
+  /**
+   * Word diff honouring the text options. Tokens are compared folded, but
+   * change values keep the documents' own text.
+   */
+  private diffText(originalText: string, currentText: string): Change[] {
+    const { ignoreCase, ignorePunctuation, normalizeQuotesAndDashes } = this.options;
+    if (!ignoreCase && !ignorePunctuation && !normalizeQuotesAndDashes) {
+      return diffWords(originalText, currentText);
+    }
+
+    const changes = diffArrays(tokenizeWords(originalText), tokenizeWords(currentText), {
+      // Whitespace tokens always match each other, like diffWords
+      comparator: (left: string, right: string) =>
+        this.foldText(left) === this.foldText(right) || (!/\S/.test(left) && !/\S/.test(right))
+    });
+
+    return changes.map(change => ({ ...change, value: change.value.join('') }));
+  }
+
+  /**
+   * Turn punctuation-only insertions and deletions into unchanged text when
+   * punctuation is ignored. Inserted punctuation stays, deleted punctuation goes.
+   */
+  private dropIgnoredChanges(wordDiff: Change[]): Change[] {
+    if (!this.options.ignorePunctuation) return wordDiff;
+
+    return wordDiff.flatMap(change => {
+      if (!(change.added || change.removed) || !PUNCTUATION_ONLY.test(change.value)) {
+        return [change];
+      }
+      return change.added ? [{ value: change.value, count: change.count }] : [];
+    });
+  }
+
+  /**
+   * Similarity between two blocks (0-1 scale) using word overlap
+   */
+  private calculateSimilarity(block1: Block, block2: Block): number {
+    return this.textSimilarity(this.hashBlock(block1), this.hashBlock(block2));
+  }
+
+  /**
+   * Similarity between two normalized texts (0-1 scale) using word overlap
+   */
+  private textSimilarity(text1: string, text2: string): number {
+    if (text1 === text2) return 1.0;
+    if (!text1 || !text2) return 0.0;
+
+    // Use simple word overlap ratio
+    const set1 = this.getWordSet(text1);
+    const set2 = this.getWordSet(text2);
+
+    let overlap = 0;
+    set1.forEach(word => {
+      if (set2.has(word)) overlap++;
+    });
+
+    return (2 * overlap) / (set1.size + set2.size);
+  }
+
+  /**
+   * Run-level formatting diff. Every word diff segment is mapped onto the
+   * per-character formatting of the runs, so a single word that became bold
+   * inside an unchanged sentence yields a FormatChange for exactly that span.
+   */
   private diffFormatting(origBlock: Block, currBlock: Block, wordDiff: Change[]): DiffChange[] {
     const formatChanges: DiffChange[] = [];
+    const origFormats = this.getCharFormatting(origBlock);
+    const currFormats = this.getCharFormatting(currBlock);
+    const origAt = (pos: number) => origFormats[pos] || origBlock.formatting;
+    const currAt = (pos: number) => currFormats[pos] || currBlock.formatting;
+
+    let origPos = 0;
+    let currPos = 0;
 
-    // For MVP, do simple formatting comparison at block level
     wordDiff.forEach((change) => {
+      const length = change.value.length;
+
       if (change.added) {
-        formatChanges.push({
-          type: 'insert',
-          text: change.value,
-          formatting: currBlock.formatting
-        });
+        this.splitByFormatting(change.value, i => currAt(currPos + i), i => currAt(currPos + i))
+          .forEach(span => formatChanges.push({ type: 'insert', text: span.text, formatting: span.to }));
+        currPos += length;
       } else if (change.removed) {
-        formatChanges.push({
-          type: 'delete',
-          text: change.value,
-          formatting: origBlock.formatting
+        this.splitByFormatting(change.value, i => origAt(origPos + i), i => origAt(origPos + i))
+          .forEach(span => formatChanges.push({ type: 'delete', text: span.text, formatting: span.from }));
+        origPos += length;
+      } else {
+        // Unchanged text - check each span for formatting changes
+        const spans = this.splitByFormatting(change.value, i => origAt(origPos + i), i => currAt(currPos + i));
+        spans.forEach(span => {
+          const formatDiff = this.compareFormatting(span.from, span.to);
+          if (formatDiff.changed) {
+            formatChanges.push({
+              type: 'format-change',
+              text: span.text,
+              from: span.from,
+              to: span.to,
+              changes: formatDiff.changes,
+              originalOffset: origPos + span.offset,
+              currentOffset: currPos + span.offset
+            });
+          } else {
+            formatChanges.push({
+              type: 'unchanged',
+              text: span.text,
+              formatting: span.from
+            });
+          }
         });
+        origPos += length;
+        currPos += length;
+      }
+    });
+
+    return formatChanges;
+  }
+
+  /**
+   * Split text into spans whose characters share the same original and
+   * current formatting.
+   */
+  private splitByFormatting(
+    text: string,
+    fromAt: (index: number) => TextFormatting,
+    toAt: (index: number) => TextFormatting
+  ): { text: string; offset: number; from: TextFormatting; to: TextFormatting }[] {
+    const spans: { text: string; offset: number; from: TextFormatting; to: TextFormatting }[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const from = fromAt(i);
+      const to = toAt(i);
+      const last = spans[spans.length - 1];
+      if (last && this.formatingsEqual(last.from, from) && this.formatingsEqual(last.to, to)) {
+        last.text += text[i];
       } else {
-        // Check if formatting changed
-        const formatDiff = this.compareFormatting(origBlock.formatting, currBlock.formatting);
-
-        if (formatDiff.changed) {
-          formatChanges.push({
-            type: 'format-change',
-            text: change.value,
-            from: origBlock.formatting,
-            to: currBlock.formatting,
-            changes: formatDiff.changes
-          });
-        } else {
-          formatChanges.push({
-            type: 'unchanged',
-            text: change.value,
-            formatting: origBlock.formatting
-          });
+        spans.push({ text: text[i], offset: i, from, to });
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Effective formatting for each character of block.text. Runs are joined
+   * and normalized the same way as the block text (trimmed, whitespace
+   * collapsed) so offsets line up with word diff positions. Falls back to
+   * block formatting when the runs do not reproduce the text.
+   */
+  private getCharFormatting(block: Block): TextFormatting[] {
+    let text = '';
+    const formats: TextFormatting[] = [];
+    let pendingSpace: TextFormatting | null = null;
+
+    for (const run of block.runs || []) {
+      const formatting = this.mergeFormatting(block.formatting, run.formatting);
+      for (let i = 0; i < run.text.length; i++) {
+        const char = run.text[i];
+        if (/\s/.test(char)) {
+          // Collapse whitespace, dropping it at the start of the text
+          if (text.length > 0 && !pendingSpace) pendingSpace = formatting;
+          continue;
+        }
+        if (pendingSpace) {
+          text += ' ';
+          formats.push(pendingSpace);
+          pendingSpace = null;
         }
+        text += char;
+        formats.push(formatting);
+      }
+    }
+
+    if (text !== block.text) {
+      return Array.from({ length: block.text.length }, () => block.formatting);
+    }
+    return formats;
+  }
+
+  /**
+   * Run formatting overrides paragraph formatting property by property
+   */
+  private mergeFormatting(base: TextFormatting, override: TextFormatting): TextFormatting {
+    const merged: TextFormatting = { ...base };
+    FORMAT_KEYS.forEach((key) => {
+      if (override[key] !== undefined) {
+        (merged as Record<string, unknown>)[key] = override[key];
       }
     });
+    return merged;
+  }
 
-    return formatChanges;
+  /**
+   * Compare per-character formatting of two blocks with identical text
+   */
+  private runFormattingEqual(origBlock: Block, currBlock: Block): boolean {
+    const origFormats = this.getCharFormatting(origBlock);
+    const currFormats = this.getCharFormatting(currBlock);
+    return origFormats.length === currFormats.length &&
+      origFormats.every((fmt, i) => this.formatingsEqual(fmt, currFormats[i]));
   }
 
   private compareFormatting(fmt1: TextFormatting, fmt2: TextFormatting): { changed: boolean; changes: Record<string, { from: any; to: any }> } {
     const changes: Record<string, { from: any; to: any }> = {};
     let hasChanges = false;
 
-    const keys: (keyof TextFormatting)[] = ['bold', 'italic', 'underline', 'color', 'font', 'fontSize'];
-
-    keys.forEach((key) => {
+    FORMAT_KEYS.forEach((key) => {
       if (fmt1[key] !== fmt2[key]) {
         changes[key] = { from: fmt1[key], to: fmt2[key] };
         hasChanges = true;
@@ -345,6 +1549,22 @@ export class DiffEngine {
     return { changed: hasChanges, changes };
   }
 
+  /**
+   * Changed paragraph style and alignment, or null when both are the same
+   */
+  private compareParagraphFormatting(
+    fmt1: ParagraphFormatting = {},
+    fmt2: ParagraphFormatting = {}
+  ): Record<string, { from: any; to: any }> | null {
+    const changes: Record<string, { from: any; to: any }> = {};
+    (['style', 'alignment'] as const).forEach(key => {
+      if (fmt1[key] !== fmt2[key]) {
+        changes[key] = { from: fmt1[key], to: fmt2[key] };
+      }
+    });
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
   private formatingsEqual(fmt1: TextFormatting, fmt2: TextFormatting): boolean {
     return (
       fmt1.bold === fmt2.bold &&
@@ -404,15 +1624,55 @@ export class DiffEngine {
 
         i = span.end;
       } else {
-        // Keep individual changes
-        result.push(change);
-        i++;
+        // Keep individual changes, refining a small token edit to characters
+        const tokenEdit = this.refineTokenEdit(change, wordDiff[i + 1]);
+        if (tokenEdit) {
+          result.push(tokenEdit);
+          i += 2;
+        } else {
+          result.push(change);
+          i++;
+        }
       }
     }
 
     return result;
   }
 
+  /**
+   * Refine a deleted token followed by its inserted replacement into a
+   * character-level edit when both are numeric, date-like, or short words
+   * that differ by a few characters (typo fixes).
+   */
+  private refineTokenEdit(removed: Change, added: Change | undefined): TokenEdit | null {
+    if (!removed.removed || !added?.added) return null;
+
+    const from = removed.value.trim();
+    const to = added.value.trim();
+    if (!from || !to || /\s/.test(from) || /\s/.test(to)) return null;
+
+    const isNumeric = (token: string) => NUMERIC_TOKEN.test(token) || DATE_TOKEN.test(token);
+    const numeric = isNumeric(from) && isNumeric(to);
+    const shortWords = from.length <= TOKEN_EDIT_CONFIG.MAX_TYPO_LENGTH && to.length <= TOKEN_EDIT_CONFIG.MAX_TYPO_LENGTH;
+    if (!numeric && !shortWords) return null;
+
+    const parts = diffChars(removed.value, added.value);
+    const kept = parts
+      .filter(part => !part.added && !part.removed)
+      .reduce((count, part) => count + part.value.trim().length, 0);
+
+    // Numbers only need one shared character; words must mostly match
+    const similarity = (2 * kept) / (from.length + to.length);
+    if (kept === 0 || (!numeric && similarity < TOKEN_EDIT_CONFIG.MIN_TYPO_SIMILARITY)) return null;
+
+    return {
+      type: 'token-edit',
+      deletedText: removed.value,
+      insertedText: added.value,
+      parts
+    };
+  }
+
   /**
    * Finds the boundary of a change span - a sequence of changes with small
    * unchanged gaps between them.
@@ -457,7 +1717,7 @@ export class DiffEngine {
     }
 
     const density = totalWords > 0 ? changedWords / totalWords : 0;
-    return density >= GROUPING_CONFIG.CHANGE_DENSITY_THRESHOLD
+    return density >= this.options.groupingDensity
         && changedWords >= GROUPING_CONFIG.MIN_CHANGED_WORDS;
   }
 }
@@ -0,0 +1,160 @@
+// Diff Reversal - Reads a diff from the current document back to the original
+
+import type { Change } from 'diff';
+import type {
+  BlockDiff,
+  CellDiff,
+  DiffChange,
+  DiffType,
+  DocumentDiff,
+  GroupedChange,
+  StoryDiff,
+  TableDiff
+} from '../types/diff.types';
+
+// Diff types that swap when the documents swap; the others read the same
+const REVERSED_TYPES: Partial<Record<DiffType, DiffType>> = {
+  insert: 'delete',
+  delete: 'insert',
+  split: 'merge',
+  merge: 'split'
+};
+
+type FormattingChanges = Record<string, { from: any; to: any }>;
+
+/**
+ * The diff of the current document against the original: insertions become
+ * deletions, splits become merges and every from/to pair is swapped. Change
+ * ids are kept, so review decisions still apply to the same changes.
+ */
+export function reverseDiff(diff: DocumentDiff): DocumentDiff {
+  return {
+    ...diff,
+    blockDiffs: reverseBlockDiffs(diff.blockDiffs),
+    tableDiffs: diff.tableDiffs?.map(reverseTableDiff),
+    storyDiffs: diff.storyDiffs?.map(reverseStoryDiff)
+  };
+}
+
+/**
+ * The type a diff has when read the other way round
+ */
+export function reverseDiffType(type: DiffType): DiffType {
+  return REVERSED_TYPES[type] || type;
+}
+
+function reverseStoryDiff(storyDiff: StoryDiff): StoryDiff {
+  return {
+    ...storyDiff,
+    originalPart: storyDiff.currentPart,
+    currentPart: storyDiff.originalPart,
+    blockDiffs: reverseBlockDiffs(storyDiff.blockDiffs),
+    tableDiffs: storyDiff.tableDiffs?.map(reverseTableDiff)
+  };
+}
+
+function reverseTableDiff(tableDiff: TableDiff): TableDiff {
+  return {
+    originalTableId: tableDiff.currentTableId,
+    currentTableId: tableDiff.originalTableId,
+    insertedColumns: tableDiff.deletedColumns,
+    deletedColumns: tableDiff.insertedColumns
+  };
+}
+
+/**
+ * Reverse a list of block diffs. Edits to moved text stay on the 'to' half
+ * of a move, which is the other half once the roles swap.
+ */
+function reverseBlockDiffs(blockDiffs: BlockDiff[]): BlockDiff[] {
+  const reversed = blockDiffs.map(reverseBlockDiff);
+
+  const destinations = new Map<string, BlockDiff>();
+  reversed.filter(blockDiff => blockDiff.move?.role === 'to')
+    .forEach(blockDiff => destinations.set(blockDiff.move!.moveId, blockDiff));
+
+  for (const source of reversed) {
+    const destination = source.move?.role === 'from' ? destinations.get(source.move.moveId) : undefined;
+    if (!destination || !source.wordDiff) continue;
+
+    destination.wordDiff = source.wordDiff;
+    destination.groupedDiff = source.groupedDiff;
+    delete source.wordDiff;
+    delete source.groupedDiff;
+  }
+
+  return reversed;
+}
+
+function reverseBlockDiff(blockDiff: BlockDiff): BlockDiff {
+  const reversed: BlockDiff = {
+    ...blockDiff,
+    type: reverseDiffType(blockDiff.type),
+    originalBlock: blockDiff.currentBlock,
+    currentBlock: blockDiff.originalBlock,
+    originalBlocks: blockDiff.currentBlocks,
+    currentBlocks: blockDiff.originalBlocks,
+    wordDiff: blockDiff.wordDiff?.map(reverseChange),
+    groupedDiff: blockDiff.groupedDiff?.map(reverseGroupedChange),
+    formatDiff: blockDiff.formatDiff?.map(reverseDiffChange),
+    cellDiffs: blockDiff.cellDiffs?.map(reverseCellDiff),
+    listLabelChange: blockDiff.listLabelChange && {
+      from: blockDiff.listLabelChange.to,
+      to: blockDiff.listLabelChange.from
+    },
+    paragraphFormatChange: blockDiff.paragraphFormatChange && reverseFormattingChanges(blockDiff.paragraphFormatChange)
+  };
+
+  if (blockDiff.move) {
+    reversed.move = {
+      moveId: blockDiff.move.moveId,
+      role: blockDiff.move.role === 'from' ? 'to' : 'from',
+      sourceIndex: blockDiff.move.destinationIndex,
+      destinationIndex: blockDiff.move.sourceIndex
+    };
+  }
+  return reversed;
+}
+
+function reverseCellDiff(cellDiff: CellDiff): CellDiff {
+  return {
+    type: cellDiff.type === 'insert' ? 'delete' : cellDiff.type === 'delete' ? 'insert' : cellDiff.type,
+    originalCell: cellDiff.currentCell,
+    currentCell: cellDiff.originalCell,
+    originalIndex: cellDiff.currentIndex,
+    currentIndex: cellDiff.originalIndex,
+    wordDiff: cellDiff.wordDiff?.map(reverseChange),
+    groupedDiff: cellDiff.groupedDiff?.map(reverseGroupedChange),
+    formatDiff: cellDiff.formatDiff?.map(reverseDiffChange)
+  };
+}
+
+function reverseChange(change: Change): Change {
+  return { ...change, added: change.removed, removed: change.added };
+}
+
+function reverseGroupedChange(change: GroupedChange): GroupedChange {
+  if (!('type' in change)) {
+    return reverseChange(change);
+  }
+  const reversed = { ...change, deletedText: change.insertedText, insertedText: change.deletedText };
+  return reversed.type === 'token-edit' ? { ...reversed, parts: reversed.parts.map(reverseChange) } : reversed;
+}
+
+function reverseDiffChange(change: DiffChange): DiffChange {
+  if (change.type === 'format-change') {
+    return {
+      ...change,
+      from: change.to,
+      to: change.from,
+      changes: reverseFormattingChanges(change.changes),
+      originalOffset: change.currentOffset,
+      currentOffset: change.originalOffset
+    };
+  }
+  return { ...change, type: change.type === 'insert' ? 'delete' : change.type === 'delete' ? 'insert' : change.type };
+}
+
+function reverseFormattingChanges(changes: FormattingChanges): FormattingChanges {
+  return Object.fromEntries(Object.entries(changes).map(([key, { from, to }]) => [key, { from: to, to: from }]));
+}
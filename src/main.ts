@@ -4,14 +4,17 @@ import './styles/main.css';
 import './styles/diff-highlights.css';
 
 import { FileUploadHandler } from './ui/file-upload';
-import { DocxParser } from './parsers/docx-parser';
+import { DocxParser, type ParseOptions, type RevisionMode } from './parsers/docx-parser';
 import { DiffEngine, type DiffResult } from './diff/diff-engine';
-import { DiffRenderer } from './renderer/diff-renderer';
+import { DiffRenderer, type ViewMode } from './renderer/diff-renderer';
 import { ChangeNavigator } from './renderer/change-navigator';
+import { ChangeSummary } from './renderer/change-summary';
 import { DocxInPlaceExporter, type ExportOptions } from './ui/docx-export-inplace';
 import { DebugExporter } from './ui/debug-export';
+import { HtmlReportExporter } from './ui/html-report-export';
+import { PdfExporter } from './ui/pdf-export';
 import type { DocumentAST } from './types/ast.types';
-import type { DocumentDiff } from './types/diff.types';
+import type { ChangeState, DocumentDiff, DiffOptions } from './types/diff.types';
 import type { AlignmentDecision } from './types/debug.types';
 
 class DocRedlinerApp {
@@ -20,8 +23,12 @@ class DocRedlinerApp {
   private diffEngine: DiffEngine;
   private renderer: DiffRenderer | null = null;
   private navigator: ChangeNavigator | null = null;
+  private summary: ChangeSummary | null = null;
+  private viewMode: ViewMode = 'redline';
   private docxInPlaceExporter: DocxInPlaceExporter;
   private debugExporter: DebugExporter;
+  private htmlReportExporter: HtmlReportExporter;
+  private pdfExporter: PdfExporter;
   private originalFileName: string = '';
   private currentFileName: string = '';
 
@@ -30,13 +37,17 @@ class DocRedlinerApp {
 
   // Store data for DOCX export
   private currentDiff: DocumentDiff | null = null;
+  // Review decisions by change id; changes not listed are pending
+  private changeStates = new Map<string, ChangeState>();
   private originalAST: DocumentAST | null = null;
   private currentAST: DocumentAST | null = null;
 
-  // Store alignment decisions for debug export
+  // Store alignment decisions and diff options for debug export
   private alignmentDecisions: AlignmentDecision[] = [];
+  private diffOptions: DiffOptions | null = null;
 
-  // Store raw file buffer for in-place DOCX export
+  // Store raw file buffers for in-place DOCX export
+  private originalFileBuffer: ArrayBuffer | null = null;
   private currentFileBuffer: ArrayBuffer | null = null;
 
   // UI elements
@@ -50,6 +61,8 @@ class DocRedlinerApp {
     this.diffEngine = new DiffEngine();
     this.docxInPlaceExporter = new DocxInPlaceExporter();
     this.debugExporter = new DebugExporter();
+    this.htmlReportExporter = new HtmlReportExporter();
+    this.pdfExporter = new PdfExporter();
 
     // Check for debug mode from URL param (enables verbose logging)
     this.debugMode = this.checkDebugMode();
@@ -62,8 +75,12 @@ class DocRedlinerApp {
 
     this.setupCompareButton();
     this.setupDocxExportButton();
+    this.setupHtmlExportButton();
+    this.setupPdfExportButton();
     this.setupDebugExportButton();
     this.setupSettingsToggle();
+    this.setupComparisonSettings();
+    this.setupViewToggle();
   }
 
   /**
@@ -125,25 +142,29 @@ class DocRedlinerApp {
       // Show progress
       this.showProgress('Parsing documents...');
 
-      // Store the current file buffer for in-place DOCX export
+      // Store both file buffers for in-place DOCX export, built on either one
+      this.originalFileBuffer = await originalFile.arrayBuffer();
       this.currentFileBuffer = await currentFile.arrayBuffer();
 
       // Parse both documents
       const [originalAST, currentAST] = await Promise.all([
-        this.parser.parseFile(originalFile),
-        this.parser.parseFile(currentFile)
+        this.parser.parseFile(originalFile, this.getParseOptions()),
+        this.parser.parseFile(currentFile, this.getParseOptions())
       ]);
 
       this.updateProgress(50, 'Comparing documents...');
 
       // Diff the documents (with debug info if debug mode is enabled)
-      const result: DiffResult = this.diffEngine.diffDocumentsWithDebug(originalAST, currentAST);
+      const result: DiffResult = this.diffEngine.diffDocumentsWithDebug(
+        originalAST,
+        currentAST,
+        this.getDiffOptions()
+      );
 
       // Store for export
-      this.currentDiff = result.diff;
       this.originalAST = originalAST;
       this.currentAST = currentAST;
-      this.alignmentDecisions = result.alignmentDecisions;
+      this.storeDiffResult(result);
 
       this.updateProgress(75, 'Rendering comparison...');
 
@@ -165,17 +186,61 @@ class DocRedlinerApp {
     }
   }
 
+  private storeDiffResult(result: DiffResult) {
+    this.currentDiff = result.diff;
+    // Change ids are assigned afresh by every diff, so decisions cannot carry
+    // over; settings ask before this happens (onComparisonSettingChange)
+    this.changeStates = new Map();
+    this.alignmentDecisions = result.alignmentDecisions;
+    this.diffOptions = result.options;
+  }
+
+  /**
+   * Re-run the diff on the already parsed documents after a comparison setting changed
+   */
+  private rediff() {
+    if (!this.originalAST || !this.currentAST) return;
+
+    const result = this.diffEngine.diffDocumentsWithDebug(
+      this.originalAST,
+      this.currentAST,
+      this.getDiffOptions()
+    );
+    this.storeDiffResult(result);
+    this.renderComparison(result.diff);
+  }
+
   private renderComparison(diff: DocumentDiff) {
     // Initialize renderer if not already
     if (!this.renderer) {
-      this.renderer = new DiffRenderer('pane-redlined-content');
+      this.renderer = new DiffRenderer('pane-redlined-content', 'pane-original-content', 'pane-current-content');
+      this.renderer.onChangeAction((changeId, state) => this.setChangeState(changeId, state));
     }
 
-    // Render redlined view
-    this.renderer.renderRedlined(diff);
+    const originalName = document.getElementById('pane-original-name');
+    const currentName = document.getElementById('pane-current-name');
+    if (originalName) originalName.textContent = this.originalFileName;
+    if (currentName) currentName.textContent = this.currentFileName;
+
+    // Render in the selected view
+    const showRenumbering = document.getElementById('setting-show-renumbering') as HTMLInputElement | null;
+    this.renderer.setShowRenumbering(showRenumbering?.checked ?? false);
+    this.renderer.setViewMode(this.viewMode);
+    this.renderer.render(diff);
+    this.renderer.setChangeStates(this.changeStates);
+
+    // List the changes in the sidebar; its filters also apply to navigation
+    if (!this.summary) {
+      this.summary = new ChangeSummary('change-sidebar');
+      this.summary.onFilterChange(() => {
+        this.navigator?.setChangeElements(this.getNavigableElements());
+      });
+      this.summary.onSelect(changeId => this.navigator?.goToChange(changeId));
+    }
+    this.summary.render(diff);
 
     // Setup change navigation
-    const changeElements = this.renderer.getChangeElements();
+    const changeElements = this.getNavigableElements();
     if (this.navigator) {
       this.navigator.updateChangeElements(changeElements);
     } else {
@@ -185,9 +250,52 @@ class DocRedlinerApp {
         'next-change',
         'change-counter'
       );
+      this.navigator.onNavigate(changeId => this.summary?.setActive(changeId));
+      this.navigator.onDecision((changeId, state) => this.setChangeState(changeId, state));
     }
   }
 
+  /**
+   * Record a review decision on a change. Both halves of a move take the
+   * same decision, since one cannot be applied without the other.
+   */
+  private setChangeState(changeId: string, state: ChangeState) {
+    for (const id of this.getLinkedChangeIds(changeId)) {
+      if (state === 'pending') {
+        this.changeStates.delete(id);
+      } else {
+        this.changeStates.set(id, state);
+      }
+    }
+    this.renderer?.setChangeStates(this.changeStates);
+  }
+
+  private getLinkedChangeIds(changeId: string): string[] {
+    const diff = this.currentDiff;
+    const lists = diff ? [diff.blockDiffs, ...(diff.storyDiffs || []).map(story => story.blockDiffs)] : [];
+    for (const blockDiffs of lists) {
+      const blockDiff = blockDiffs.find(candidate => candidate.changeId === changeId);
+      if (blockDiff?.move) {
+        const moveId = blockDiff.move.moveId;
+        return blockDiffs
+          .filter(candidate => candidate.move?.moveId === moveId && candidate.changeId)
+          .map(candidate => candidate.changeId!);
+      }
+    }
+    return [changeId];
+  }
+
+  /**
+   * Change elements whose type is not filtered out in the sidebar
+   */
+  private getNavigableElements(): HTMLElement[] {
+    const elements = this.renderer?.getChangeElements() ?? [];
+    const visibleIds = this.summary?.getVisibleChangeIds();
+    return visibleIds
+      ? elements.filter(el => visibleIds.has(el.dataset.changeId || ''))
+      : elements;
+  }
+
   private showProgress(text: string) {
     const progress = document.getElementById('progress');
     if (progress) {
@@ -225,6 +333,25 @@ class DocRedlinerApp {
     if (controls) {
       controls.style.display = 'flex';
     }
+
+    // Side-by-side rows can only be measured once the panes are shown
+    this.renderer?.alignRows();
+  }
+
+  /**
+   * Switch between the redline, side-by-side and single-side views
+   */
+  private setupViewToggle() {
+    const buttons = Array.from(document.querySelectorAll<HTMLButtonElement>('#view-toggle .view-button'));
+    buttons.forEach(button => {
+      button.addEventListener('click', () => {
+        this.viewMode = button.dataset.view as ViewMode;
+        buttons.forEach(other => other.classList.toggle('active', other === button));
+        if (this.currentDiff) {
+          this.renderComparison(this.currentDiff);
+        }
+      });
+    });
   }
 
   private setupDocxExportButton() {
@@ -234,6 +361,20 @@ class DocRedlinerApp {
     }
   }
 
+  private setupHtmlExportButton() {
+    const htmlButton = document.getElementById('export-html');
+    if (htmlButton) {
+      htmlButton.addEventListener('click', () => this.exportHtmlReport());
+    }
+  }
+
+  private setupPdfExportButton() {
+    const pdfButton = document.getElementById('export-pdf');
+    if (pdfButton) {
+      pdfButton.addEventListener('click', () => this.exportPdf());
+    }
+  }
+
   private setupDebugExportButton() {
     const debugButton = document.getElementById('export-debug');
     if (debugButton) {
@@ -270,13 +411,130 @@ class DocRedlinerApp {
     }
   }
 
+  private setupComparisonSettings() {
+    const toggles = [
+      'setting-ignore-case', 'setting-ignore-punctuation', 'setting-normalize-quotes',
+      'setting-ignore-formatting', 'setting-compare-list-labels'
+    ];
+    const ranges = ['setting-fuzzy-threshold', 'setting-grouping-density'];
+
+    toggles.forEach(id => {
+      const input = document.getElementById(id) as HTMLInputElement | null;
+      if (input) {
+        this.onComparisonSettingChange(input, () => this.rediff());
+      }
+    });
+
+    ranges.forEach(id => {
+      const input = document.getElementById(id) as HTMLInputElement | null;
+      const valueLabel = document.getElementById(`${id}-value`);
+      if (!input) return;
+
+      // Update the label while dragging, re-diff once the value is committed
+      input.addEventListener('input', () => {
+        if (valueLabel) {
+          valueLabel.textContent = `${Math.round(parseFloat(input.value) * 100)}%`;
+        }
+      });
+      this.onComparisonSettingChange(input, () => this.rediff());
+    });
+
+    // Renumbering is already in the diff; only the view changes
+    document.getElementById('setting-show-renumbering')?.addEventListener('change', () => {
+      if (this.currentDiff) {
+        this.renderComparison(this.currentDiff);
+      }
+    });
+
+    // Tracked changes are resolved while parsing, so the files are read again
+    const revisionMode = document.getElementById('setting-revision-mode') as HTMLSelectElement | null;
+    if (revisionMode) {
+      this.onComparisonSettingChange(revisionMode, () => {
+        if (this.originalAST && this.currentAST) {
+          this.handleCompareClick();
+        }
+      });
+    }
+  }
+
+  /**
+   * Run `apply` when a comparison setting changes. Comparing again assigns
+   * new change ids, so accept/reject decisions cannot carry over: ask before
+   * discarding any, and put the setting back if the user declines.
+   */
+  private onComparisonSettingChange(input: HTMLInputElement | HTMLSelectElement, apply: () => void) {
+    const isCheckbox = input instanceof HTMLInputElement && input.type === 'checkbox';
+    const read = () => isCheckbox ? String((input as HTMLInputElement).checked) : input.value;
+    let committed = read();
+
+    input.addEventListener('change', () => {
+      const decisions = this.changeStates.size;
+      const discard = decisions === 0 || confirm(
+        `Changing this setting compares the documents again and clears ${decisions} ` +
+        `accept/reject decision${decisions === 1 ? '' : 's'}. Continue?`
+      );
+      if (!discard) {
+        if (isCheckbox) {
+          (input as HTMLInputElement).checked = committed === 'true';
+        } else {
+          input.value = committed;
+          input.dispatchEvent(new Event('input'));
+        }
+        return;
+      }
+
+      committed = read();
+      apply();
+    });
+  }
+
+  private getParseOptions(): Partial<ParseOptions> {
+    const select = document.getElementById('setting-revision-mode') as HTMLSelectElement | null;
+    return select ? { revisionMode: select.value as RevisionMode } : {};
+  }
+
+  private getDiffOptions(): Partial<DiffOptions> {
+    const checked = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.checked ?? false;
+    const value = (id: string) => {
+      const input = document.getElementById(id) as HTMLInputElement | null;
+      const parsed = input ? parseFloat(input.value) : NaN;
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    const options: Partial<DiffOptions> = {
+      ignoreCase: checked('setting-ignore-case'),
+      ignorePunctuation: checked('setting-ignore-punctuation'),
+      normalizeQuotesAndDashes: checked('setting-normalize-quotes'),
+      ignoreFormatting: checked('setting-ignore-formatting'),
+      compareListLabels: checked('setting-compare-list-labels')
+    };
+
+    const fuzzyThreshold = value('setting-fuzzy-threshold');
+    if (fuzzyThreshold !== undefined) options.fuzzyThreshold = fuzzyThreshold;
+    const groupingDensity = value('setting-grouping-density');
+    if (groupingDensity !== undefined) options.groupingDensity = groupingDensity;
+
+    return options;
+  }
+
   private getExportOptions(): ExportOptions {
     const commentsCheckbox = document.getElementById('setting-comments') as HTMLInputElement;
     const inlineCheckbox = document.getElementById('setting-inline') as HTMLInputElement;
+    const trackInsertionsCheckbox = document.getElementById('setting-track-insertions') as HTMLInputElement;
+    const authorInput = document.getElementById('setting-revision-author') as HTMLInputElement | null;
+    const dateSelect = document.getElementById('setting-revision-date') as HTMLSelectElement | null;
+    const templateInput = document.getElementById('setting-comment-template') as HTMLInputElement | null;
+    const baseSelect = document.getElementById('setting-export-base') as HTMLSelectElement | null;
 
     return {
       includeComments: commentsCheckbox?.checked ?? true,
-      includeInlineFormatting: inlineCheckbox?.checked ?? true
+      includeInlineFormatting: inlineCheckbox?.checked ?? true,
+      trackInsertions: trackInsertionsCheckbox?.checked ?? false,
+      changeStates: this.changeStates,
+      author: authorInput?.value.trim() ?? '',
+      revisionDate: dateSelect?.value === 'modified' ? this.currentAST?.metadata.modified : undefined,
+      commentTemplate: templateInput?.value ?? '',
+      baseDocument: baseSelect?.value === 'original' ? 'original' : 'current'
     };
   }
 
@@ -288,8 +546,12 @@ class DocRedlinerApp {
       return;
     }
 
-    if (!this.currentFileBuffer) {
-      alert('Current file buffer not available. Please try comparing documents again.');
+    // Get export options from settings
+    const options = this.getExportOptions();
+    const fileBuffer = options.baseDocument === 'original' ? this.originalFileBuffer : this.currentFileBuffer;
+
+    if (!fileBuffer) {
+      alert('File buffer not available. Please try comparing documents again.');
       return;
     }
 
@@ -300,13 +562,10 @@ class DocRedlinerApp {
       // Small delay to allow UI to update
       await new Promise(resolve => setTimeout(resolve, 10));
 
-      // Get export options from settings
-      const options = this.getExportOptions();
-
       // Use in-place exporter to preserve original formatting
       await this.docxInPlaceExporter.export(
         this.currentDiff,
-        this.currentFileBuffer,
+        fileBuffer,
         this.originalFileName,
         options
       );
@@ -318,8 +577,75 @@ class DocRedlinerApp {
     }
   }
 
+  private exportHtmlReport() {
+    if (!this.currentDiff || !this.renderer || !this.summary || !this.originalAST || !this.currentAST) {
+      alert('Please compare documents first before exporting.');
+      return;
+    }
+
+    const html = this.htmlReportExporter.generateReport(
+      this.currentDiff,
+      this.renderer,
+      this.summary.getEntries(),
+      this.originalAST,
+      this.currentAST,
+      this.originalFileName,
+      this.currentFileName
+    );
+
+    this.htmlReportExporter.exportToFile(html, this.originalFileName);
+  }
+
+  private async exportPdf() {
+    const pdfButton = document.getElementById('export-pdf');
+
+    if (!this.currentDiff || !this.summary || !this.originalAST || !this.currentAST) {
+      alert('Please compare documents first before exporting.');
+      return;
+    }
+
+    const pageSizeSelect = document.getElementById('setting-pdf-page-size') as HTMLSelectElement | null;
+
+    // Show loading state
+    this.setButtonLoading(pdfButton, true, 'Exporting...');
+
+    try {
+      // Small delay to allow UI to update
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const pdf = this.pdfExporter.generateReport(
+        this.currentDiff,
+        this.summary.getEntries(),
+        this.originalAST,
+        this.currentAST,
+        this.originalFileName,
+        this.currentFileName,
+        {
+          pageSize: pageSizeSelect?.value === 'letter' ? 'letter' : 'a4',
+          changeStates: this.changeStates
+        }
+      );
+
+      // The standard PDF fonts only cover Western European text
+      const unsupported = this.pdfExporter.getUnsupportedCharacters();
+      if (unsupported.length > 0 && !confirm(
+        `The PDF cannot show ${unsupported.length} character${unsupported.length === 1 ? '' : 's'} used in these documents ` +
+        `(${unsupported.slice(0, 10).join(' ')}${unsupported.length > 10 ? ' …' : ''}); they will print as "?". ` +
+        'Use "Export HTML Report" for an exact copy. Export the PDF anyway?'
+      )) {
+        return;
+      }
+      this.pdfExporter.exportToFile(pdf, this.originalFileName);
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert('Failed to export PDF. Please try again.');
+    } finally {
+      this.setButtonLoading(pdfButton, false, 'Export PDF');
+    }
+  }
+
   private exportDebugReport() {
-    if (!this.currentDiff || !this.originalAST || !this.currentAST) {
+    if (!this.currentDiff || !this.originalAST || !this.currentAST || !this.diffOptions) {
       alert('Please compare documents first before exporting debug report.');
       return;
     }
@@ -330,7 +656,8 @@ class DocRedlinerApp {
       this.currentDiff,
       this.alignmentDecisions,
       this.originalFileName,
-      this.currentFileName
+      this.currentFileName,
+      this.diffOptions
     );
 
     this.debugExporter.exportToFile(report);
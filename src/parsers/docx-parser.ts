@@ -1,638 +1,792 @@
-// DOCX Parser - Direct parsing in main thread using officeparser browser bundle
+// DOCX Parser - Single-pass OOXML parser over word/document.xml
 
-import type { DocumentAST, Block, TextRun, TextFormatting, SectionProperties } from '../types/ast.types';
+import type {
+  DocumentAST, Block, ParagraphFormatting, Revision, Story, StoryType, TableCell, TextRun, TextFormatting,
+  SectionProperties
+} from '../types/ast.types';
 import JSZip from 'jszip';
+import { NumberingResolver, type ListNumber } from './numbering-resolver';
 
-// Declare global officeParser (loaded from script tag)
-declare global {
-  interface Window {
-    officeParser: {
-      parseOffice: (input: ArrayBuffer) => Promise<any>;
-    };
-  }
-}
+// Heading styles by level, matched against style ids and names ("Heading1", "heading 1")
+const HEADING_STYLE = /^heading\s*([1-3])$/i;
 
-export class DocxParser {
-  private scriptLoaded: boolean = false;
+// Body-level wrappers whose children are parsed as if they were body children
+const BLOCK_CONTAINERS = new Set(['w:sdt', 'w:sdtContent', 'w:customXml']);
 
-  constructor() {
-    this.ensureScriptLoaded();
-  }
+// Paragraph-level wrappers whose runs belong to the paragraph
+const RUN_CONTAINERS = new Set([
+  'w:hyperlink', 'w:smartTag', 'w:sdt', 'w:sdtContent', 'w:customXml',
+  'w:fldSimple', 'w:dir', 'w:bdo'
+]);
 
-  private ensureScriptLoaded(): void {
-    if (this.scriptLoaded) return;
+// Tracked-change wrappers around runs, read according to the revision mode
+const INSERTED_CONTENT = new Set(['w:ins', 'w:moveTo']);
+const DELETED_CONTENT = new Set(['w:del', 'w:moveFrom']);
 
-    // Check if officeParser is already available
-    if (typeof window.officeParser !== 'undefined') {
-      this.scriptLoaded = true;
-      return;
-    }
+// Header/footer reference types in w:sectPr
+const STORY_VARIANTS = new Set(['default', 'first', 'even']);
 
-    // Check if script tag exists
-    const existingScript = document.querySelector('script[src="/officeparser.browser.js"]');
-    if (existingScript) {
-      this.scriptLoaded = true;
-      return;
-    }
+// Notes that only hold separator lines, not note text
+const SEPARATOR_NOTES = new Set(['separator', 'continuationSeparator', 'continuationNotice']);
 
-    throw new Error('officeparser.browser.js not loaded. Add <script src="/officeparser.browser.js"></script> to index.html');
-  }
+/**
+ * How tracked changes already in a document are read:
+ * - accept: as if every revision were accepted
+ * - reject: as if every revision were rejected
+ * - preserve: as accepted, with the revisions kept on each block
+ */
+export type RevisionMode = 'accept' | 'reject' | 'preserve';
 
-  async parseFile(file: File): Promise<DocumentAST> {
-    this.ensureScriptLoaded();
+export interface ParseOptions {
+  revisionMode: RevisionMode;
+}
 
-    // Read file as ArrayBuffer
-    const buffer = await file.arrayBuffer();
+const DEFAULT_OPTIONS: ParseOptions = {
+  revisionMode: 'accept'
+};
 
-    // Parse using officeparser
-    const result = await window.officeParser.parseOffice(buffer);
+type RunRevision = Omit<Revision, 'text' | 'offset'>;
 
-    // Extract section properties directly from DOCX XML
-    const sectionProperties = await this.extractSectionProperties(buffer);
+/**
+ * A run, tagged with the tracked change it sits in (preserve mode only)
+ */
+interface ParsedRun extends TextRun {
+  revision?: RunRevision;
+}
 
-    // Normalize the result to our AST format
-    const ast = this.normalizeAST(result);
-    ast.sectionProperties = sectionProperties;
+/**
+ * A paragraph's content in reading order; null marks a page break.
+ */
+type RunItem = ParsedRun | null;
+
+interface ParseState {
+  blocks: Block[];
+  /** Style id -> style name from word/styles.xml */
+  styleNames: Map<string, string>;
+  tableCount: number;
+  /** List counters, advanced by every numbered paragraph in reading order */
+  numbering: NumberingResolver;
+  options: ParseOptions;
+  /** Content of paragraphs whose mark was removed, joined to the next paragraph */
+  pendingItems: RunItem[];
+}
 
-    // Extract numbered list content that officeparser misses (paragraphs with <w:numPr>)
-    const numberedListBlocks = await this.extractNumberedLists(buffer);
+export class DocxParser {
+  async parseFile(file: File, options: Partial<ParseOptions> = {}): Promise<DocumentAST> {
+    // Read file as ArrayBuffer
+    const buffer = await file.arrayBuffer();
+    return this.parseBuffer(buffer, options);
+  }
 
-    // Merge numbered list blocks with existing blocks
-    if (numberedListBlocks.length > 0) {
-      ast.blocks = this.mergeBlocks(ast.blocks, numberedListBlocks);
+  /**
+   * Parse a DOCX package. The body is walked once, in order, so paragraphs,
+   * list items, tables and page breaks come out in document order.
+   */
+  async parseBuffer(buffer: ArrayBuffer, options: Partial<ParseOptions> = {}): Promise<DocumentAST> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) {
+      throw new Error('Invalid DOCX: missing word/document.xml');
     }
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+    const coreXml = await zip.file('docProps/core.xml')?.async('string');
+    const numberingXml = await zip.file('word/numbering.xml')?.async('string');
+
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(documentXml, 'application/xml');
+    const body = doc.getElementsByTagName('w:body')[0];
+    const numberingDoc = numberingXml ? parser.parseFromString(numberingXml, 'application/xml') : null;
+
+    const state: ParseState = {
+      blocks: [],
+      styleNames: stylesXml ? this.readStyleNames(parser.parseFromString(stylesXml, 'application/xml')) : new Map(),
+      tableCount: 0,
+      numbering: new NumberingResolver(numberingDoc),
+      options: opts,
+      pendingItems: []
+    };
 
-    // Extract tables directly from XML (row-level blocks for better diffing)
-    // Reset table counter for each document to ensure consistent IDs
-    this.tableCounter = 0;
-    const tableBlocks = await this.extractTables(buffer);
-
-    // Merge table-row blocks with existing blocks (removing old table blocks)
-    if (tableBlocks.length > 0) {
-      ast.blocks = this.mergeTableBlocks(ast.blocks, tableBlocks);
+    if (body) {
+      this.parseBlockContainer(body, state);
+      this.flushPendingItems(state);
     }
 
-    return ast;
+    return {
+      metadata: coreXml ? this.readMetadata(parser.parseFromString(coreXml, 'application/xml')) : {},
+      blocks: state.blocks.map((block, index) => ({
+        ...block,
+        id: this.generateBlockId(block.text, index)
+      })),
+      sectionProperties: body ? this.readSectionProperties(body) : {},
+      stories: body ? await this.readStories(zip, body, state.styleNames, numberingDoc, opts) : []
+    };
   }
 
   /**
-   * Merge table-row blocks with existing blocks, replacing old 'table' type blocks
-   * with individual row blocks for better diffing.
+   * Parse the headers and footers referenced by each section, then the
+   * footnotes and endnotes parts. A part shared by several sections is read
+   * once, under its first reference.
    */
-  private mergeTableBlocks(existingBlocks: Block[], tableBlocks: { block: Block; xmlIndex: number }[]): Block[] {
-    if (tableBlocks.length === 0) {
-      return existingBlocks;
+  private async readStories(
+    zip: JSZip,
+    body: Element,
+    styleNames: Map<string, string>,
+    numberingDoc: Document | null,
+    options: ParseOptions
+  ): Promise<Story[]> {
+    const parser = new DOMParser();
+    const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+    const targets = new Map<string, string>();
+    if (relsXml) {
+      const rels = parser.parseFromString(relsXml, 'application/xml').getElementsByTagName('Relationship');
+      for (let i = 0; i < rels.length; i++) {
+        const target = (rels[i].getAttribute('Target') || '').replace(/^\//, '');
+        targets.set(rels[i].getAttribute('Id') || '', target.startsWith('word/') ? target : `word/${target}`);
+      }
     }
 
-    // Remove any 'table' type blocks from existing blocks (they'll be replaced by table-row blocks)
-    const nonTableBlocks = existingBlocks.filter(b => b.type !== 'table');
-
-    // Sort table blocks by their XML index
-    const sortedTableBlocks = [...tableBlocks].sort((a, b) => a.xmlIndex - b.xmlIndex);
-
-    // For simplicity, append table-row blocks in their document order
-    // A more sophisticated approach would interleave based on xmlIndex
-    // but this works well for most documents
-    const result: Block[] = [];
-
-    // Create a set of table row texts for deduplication
-    const tableTexts = new Set(sortedTableBlocks.map(tb => tb.block.text.toLowerCase().trim()));
+    const readPart = async (part: string) => {
+      const xml = await zip.file(part)?.async('string');
+      return xml ? parser.parseFromString(xml, 'application/xml').documentElement : null;
+    };
+    const parseStory = (key: string, type: StoryType, part: string, containers: Element[]): Story => {
+      const state: ParseState = {
+        blocks: [],
+        styleNames,
+        tableCount: 0,
+        numbering: new NumberingResolver(numberingDoc),
+        options,
+        pendingItems: []
+      };
+      const isNotes = type === 'footnotes' || type === 'endnotes';
+      containers.forEach(container => {
+        const firstBlock = state.blocks.length;
+        this.parseBlockContainer(container, state);
+        this.flushPendingItems(state);
+        if (isNotes) {
+          const noteId = container.getAttribute('w:id') || '';
+          for (const block of state.blocks.slice(firstBlock)) {
+            block.noteId = noteId;
+          }
+        }
+      });
+      return {
+        key,
+        type,
+        part,
+        blocks: state.blocks.map((block, index) => ({
+          ...block,
+          id: this.generateBlockId(block.text, index, key)
+        }))
+      };
+    };
 
-    // Add non-table blocks, filtering out any that match table content
-    for (const block of nonTableBlocks) {
-      if (!tableTexts.has(block.text.toLowerCase().trim())) {
-        result.push(block);
+    const stories: Story[] = [];
+    const seenParts = new Set<string>();
+    const sections = Array.from(body.getElementsByTagName('w:sectPr'));
+    for (const [index, sectPr] of sections.entries()) {
+      for (const reference of this.childElements(sectPr)) {
+        const type = reference.nodeName === 'w:headerReference' ? 'header'
+          : reference.nodeName === 'w:footerReference' ? 'footer' : null;
+        const variant = reference.getAttribute('w:type') || 'default';
+        const part = targets.get(reference.getAttribute('r:id') || '');
+        if (!type || !part || !STORY_VARIANTS.has(variant) || seenParts.has(part)) continue;
+        seenParts.add(part);
+
+        const root = await readPart(part);
+        if (!root) continue;
+        stories.push({
+          ...parseStory(`${type}-${variant}-${index + 1}`, type, part, [root]),
+          variant: variant as Story['variant'],
+          section: index + 1
+        });
       }
     }
 
-    // Find insertion point for table blocks (where tables originally were)
-    // For now, add all table rows after existing non-table content
-    // TODO: Could improve by tracking table position in document
-    for (const tb of sortedTableBlocks) {
-      result.push(tb.block);
+    for (const type of ['footnotes', 'endnotes'] as const) {
+      const part = `word/${type}.xml`;
+      const root = await readPart(part);
+      if (!root) continue;
+      const notes = this.childElements(root).filter(note => !SEPARATOR_NOTES.has(note.getAttribute('w:type') || ''));
+      stories.push(parseStory(type, type, part, notes));
     }
 
-    // Regenerate IDs to ensure proper ordering
-    return result.map((block, index) => ({
-      ...block,
-      id: this.generateBlockId(block.text, index)
-    }));
+    return stories;
   }
 
-  private tableCounter = 0;
-
   /**
-   * Extract tables directly from DOCX XML.
-   * Creates one block per table row (type: 'table-row') with tableId linking rows.
-   * This provides row-level diffing instead of flattening entire tables.
+   * Parse the block-level children of w:body (or a content control inside it)
    */
-  private async extractTables(buffer: ArrayBuffer): Promise<{ block: Block; xmlIndex: number }[]> {
-    try {
-      const zip = await JSZip.loadAsync(buffer);
-      const documentXml = await zip.file('word/document.xml')?.async('string');
-
-      if (!documentXml) {
-        return [];
+  private parseBlockContainer(container: Element, state: ParseState): void {
+    for (const child of this.childElements(container)) {
+      if (child.nodeName === 'w:p') {
+        this.parseParagraph(child, state);
+      } else if (child.nodeName === 'w:tbl') {
+        this.flushPendingItems(state);
+        this.parseTable(child, state);
+      } else if (BLOCK_CONTAINERS.has(child.nodeName)) {
+        this.parseBlockContainer(child, state);
       }
+    }
+  }
 
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(documentXml, 'application/xml');
+  /**
+   * Parse a w:p into a block. Page breaks inside the paragraph become
+   * separate page-break blocks at their position. A paragraph whose mark is
+   * removed in the current revision mode runs on into the next paragraph.
+   */
+  private parseParagraph(p: Element, state: ParseState): void {
+    const pPr = this.childElement(p, 'w:pPr');
+    const type = this.getParagraphType(pPr, state);
 
-      const tableBlocks: { block: Block; xmlIndex: number }[] = [];
-      const tblElements = doc.getElementsByTagName('w:tbl');
+    const pageBreakBefore = pPr ? this.childElement(pPr, 'w:pageBreakBefore') : null;
+    if (pageBreakBefore && this.isOn(pageBreakBefore)) {
+      state.blocks.push(this.createPageBreak());
+    }
 
-      // We need to find position of tables relative to paragraphs
-      // Get all body children to determine ordering
-      const bodyElement = doc.getElementsByTagName('w:body')[0];
-      if (!bodyElement) {
-        return [];
-      }
+    const items: RunItem[] = [];
+    this.collectRuns(p, items, state);
 
-      // Build index of all elements for positioning
-      const bodyChildren = Array.from(bodyElement.children);
-      let globalIndex = 0;
+    if (this.isMarkRemoved(pPr, state)) {
+      state.pendingItems.push(...items);
+      return;
+    }
 
-      for (let tblIndex = 0; tblIndex < tblElements.length; tblIndex++) {
-        const tbl = tblElements[tblIndex];
-        const tableId = `table-${this.tableCounter++}`;
+    // Empty numbered paragraphs still take a number, so always advance
+    const list = this.readListNumber(pPr, state);
+    const firstBlock = state.blocks.length;
+    this.pushItems(type, [...state.pendingItems, ...items], state);
+    state.pendingItems = [];
 
-        // Find position of this table in the document body
-        const tablePosition = bodyChildren.indexOf(tbl);
+    const block = state.blocks.slice(firstBlock).find(b => b.type !== 'page-break');
+    if (block && list) {
+      block.listLabel = list.label;
+      block.listLevel = list.level;
+    }
+    const paragraphFormatting = this.readParagraphFormatting(pPr, state);
+    if (block && paragraphFormatting) {
+      block.paragraphFormatting = paragraphFormatting;
+    }
+  }
 
-        // Extract all rows from this table
-        const trElements = tbl.getElementsByTagName('w:tr');
+  /**
+   * Read the paragraph style and alignment. Rejecting revisions reads them
+   * from before any w:pPrChange.
+   */
+  private readParagraphFormatting(pPr: Element | null, state: ParseState): ParagraphFormatting | null {
+    const pPrChange = pPr ? this.childElement(pPr, 'w:pPrChange') : null;
+    if (pPrChange && state.options.revisionMode === 'reject') {
+      pPr = this.childElement(pPrChange, 'w:pPr');
+    }
+    if (!pPr) {
+      return null;
+    }
 
-        for (let rowIdx = 0; rowIdx < trElements.length; rowIdx++) {
-          const tr = trElements[rowIdx];
-          const cellTexts: string[] = [];
+    const formatting: ParagraphFormatting = {};
+    const style = this.childElement(pPr, 'w:pStyle')?.getAttribute('w:val');
+    if (style) formatting.style = style;
 
-          // Extract text from all cells in this row
-          const tcElements = tr.getElementsByTagName('w:tc');
-          for (let cellIdx = 0; cellIdx < tcElements.length; cellIdx++) {
-            const tc = tcElements[cellIdx];
-            const cellText = this.extractTextFromTableCell(tc);
-            cellTexts.push(cellText);
-          }
+    const alignment = this.childElement(pPr, 'w:jc')?.getAttribute('w:val');
+    if (alignment) formatting.alignment = alignment;
 
-          // Join cells with ' | ' separator
-          const rowText = cellTexts.join(' | ').trim();
-
-          if (rowText) {
-            const formatting = this.extractFormattingFromTableRow(tr);
-            const normalizedText = rowText.replace(/\s+/g, ' ');
-
-            tableBlocks.push({
-              block: {
-                id: this.generateBlockId(normalizedText, 2000 + globalIndex),
-                type: 'table-row',
-                text: normalizedText,
-                runs: [{ text: normalizedText, formatting }],
-                formatting,
-                tableId,
-                rowIndex: rowIdx
-              },
-              // Use table position for ordering
-              xmlIndex: tablePosition >= 0 ? tablePosition * 100 + rowIdx : 2000 + globalIndex
-            });
-            globalIndex++;
-          }
-        }
-      }
+    return Object.keys(formatting).length > 0 ? formatting : null;
+  }
 
-      return tableBlocks;
-    } catch (error) {
-      console.warn('Failed to extract tables:', error);
-      return [];
+  /**
+   * Resolve the list number of a paragraph with direct numbering (w:numPr)
+   */
+  private readListNumber(pPr: Element | null, state: ParseState): ListNumber | null {
+    const numPr = pPr ? this.childElement(pPr, 'w:numPr') : null;
+    const numId = numPr ? this.childElement(numPr, 'w:numId')?.getAttribute('w:val') : null;
+    if (!numPr || !numId) {
+      return null;
     }
+    const ilvl = parseInt(this.childElement(numPr, 'w:ilvl')?.getAttribute('w:val') || '0', 10);
+    return state.numbering.next(numId, isNaN(ilvl) ? 0 : ilvl);
   }
 
   /**
-   * Extract text content from a table cell (<w:tc>) element
+   * Emit content left over from a paragraph whose removed mark had no
+   * following paragraph to join (end of a container, or before a table)
    */
-  private extractTextFromTableCell(tc: Element): string {
-    const textElements = tc.getElementsByTagName('w:t');
-    let text = '';
-    for (let i = 0; i < textElements.length; i++) {
-      text += textElements[i].textContent || '';
+  private flushPendingItems(state: ParseState): void {
+    if (state.pendingItems.length > 0) {
+      this.pushItems('paragraph', state.pendingItems, state);
+      state.pendingItems = [];
     }
-    return text.trim();
   }
 
   /**
-   * Extract formatting from a table row by examining <w:rPr> elements
+   * Whether the paragraph mark is gone once revisions are accepted
+   * (w:del on the mark) or rejected (w:ins on the mark)
    */
-  private extractFormattingFromTableRow(tr: Element): TextFormatting {
-    const formatting: TextFormatting = {};
+  private isMarkRemoved(pPr: Element | null, state: ParseState): boolean {
+    const rPr = pPr ? this.childElement(pPr, 'w:rPr') : null;
+    if (!rPr) return false;
+    return state.options.revisionMode === 'reject'
+      ? this.childElement(rPr, 'w:ins') !== null
+      : this.childElement(rPr, 'w:del') !== null;
+  }
 
-    // Check for bold
-    const boldElements = tr.getElementsByTagName('w:b');
-    if (boldElements.length > 0) {
-      const val = boldElements[0].getAttribute('w:val');
-      if (val === null || val === '' || val === 'true' || val === '1') {
-        formatting.bold = true;
+  /**
+   * Turn a paragraph's items into blocks, splitting at page breaks
+   */
+  private pushItems(type: Block['type'], items: RunItem[], state: ParseState): void {
+    let runs: ParsedRun[] = [];
+    for (const item of items) {
+      if (item) {
+        runs.push(item);
+        continue;
       }
-    }
-
-    // Check for italic
-    const italicElements = tr.getElementsByTagName('w:i');
-    if (italicElements.length > 0) {
-      const val = italicElements[0].getAttribute('w:val');
-      if (val === null || val === '' || val === 'true' || val === '1') {
-        formatting.italic = true;
+      const block = this.createBlock(type, runs);
+      if (block) {
+        state.blocks.push(block);
       }
+      state.blocks.push(this.createPageBreak());
+      runs = [];
     }
 
-    return formatting;
+    const block = this.createBlock(type, runs);
+    if (block) {
+      state.blocks.push(block);
+    }
   }
 
   /**
-   * Extract content from paragraphs with Word native numbered lists (<w:numPr>).
-   * officeparser skips these, so we need to extract them directly from the DOCX XML.
+   * Parse a w:tbl into one 'table-row' block per row. Each row keeps its
+   * cells; the block text joins them with ' | '.
    */
-  private async extractNumberedLists(buffer: ArrayBuffer): Promise<{ block: Block; xmlIndex: number }[]> {
-    try {
-      const zip = await JSZip.loadAsync(buffer);
-      const documentXml = await zip.file('word/document.xml')?.async('string');
-
-      if (!documentXml) {
-        return [];
-      }
-
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(documentXml, 'application/xml');
-
-      const numberedBlocks: { block: Block; xmlIndex: number }[] = [];
-      const pElements = doc.getElementsByTagName('w:p');
-
-      for (let i = 0; i < pElements.length; i++) {
-        const p = pElements[i];
-        const numPr = p.getElementsByTagName('w:numPr');
-
-        if (numPr.length > 0) {
-          // This paragraph has native numbering - extract its content
-          const text = this.extractTextFromParagraph(p);
-
-          if (text.trim()) {
-            const formatting = this.extractFormattingFromParagraph(p);
-            const normalizedText = text.trim().replace(/\s+/g, ' ');
-
-            numberedBlocks.push({
-              block: {
-                id: this.generateBlockId(normalizedText, 1000 + i), // Use high index to avoid collisions
-                type: 'paragraph',
-                text: normalizedText,
-                runs: [{ text: normalizedText, formatting }],
-                formatting
-              },
-              xmlIndex: i
-            });
+  private parseTable(tbl: Element, state: ParseState): void {
+    const tableId = `table-${state.tableCount++}`;
+
+    this.childElements(tbl)
+      .filter(child => child.nodeName === 'w:tr' && !this.isRowRemoved(child, state))
+      .forEach((tr, rowIndex) => {
+        const cells = this.childElements(tr)
+          .filter(child => child.nodeName === 'w:tc')
+          .map(tc => this.readCell(tc, state));
+
+        const runs: TextRun[] = [];
+        cells.forEach((cell, k) => {
+          if (k > 0) {
+            runs.push({ text: ' | ', formatting: {} });
           }
+          runs.push(...cell.runs);
+        });
+
+        const text = this.normalizeText(runs.map(run => run.text).join(''));
+        if (!text) {
+          return;
         }
-      }
 
-      return numberedBlocks;
-    } catch (error) {
-      console.warn('Failed to extract numbered lists:', error);
-      return [];
-    }
+        state.blocks.push({
+          id: '',
+          type: 'table-row',
+          text,
+          runs,
+          formatting: this.getCommonFormatting(cells.flatMap(cell => cell.runs)),
+          tableId,
+          rowIndex,
+          cells
+        });
+      });
   }
 
   /**
-   * Extract text content from a <w:p> element by concatenating all <w:t> elements
+   * Whether a tracked row insertion or deletion removes the row in the
+   * current revision mode
    */
-  private extractTextFromParagraph(p: Element): string {
-    const textElements = p.getElementsByTagName('w:t');
-    let text = '';
-    for (let i = 0; i < textElements.length; i++) {
-      text += textElements[i].textContent || '';
-    }
-    return text;
+  private isRowRemoved(tr: Element, state: ParseState): boolean {
+    const trPr = this.childElement(tr, 'w:trPr');
+    if (!trPr) return false;
+    return state.options.revisionMode === 'reject'
+      ? this.childElement(trPr, 'w:ins') !== null
+      : this.childElement(trPr, 'w:del') !== null;
   }
 
   /**
-   * Extract formatting from a <w:p> element by examining <w:rPr> elements
+   * Read a w:tc with its grid span and vertical merge state
    */
-  private extractFormattingFromParagraph(p: Element): TextFormatting {
-    const formatting: TextFormatting = {};
-
-    // Check for bold
-    const boldElements = p.getElementsByTagName('w:b');
-    if (boldElements.length > 0) {
-      const val = boldElements[0].getAttribute('w:val');
-      // In DOCX, <w:b/> or <w:b w:val="true"/> means bold, <w:b w:val="false"/> means not bold
-      if (val === null || val === '' || val === 'true' || val === '1') {
-        formatting.bold = true;
-      }
+  private readCell(tc: Element, state: ParseState): TableCell {
+    const runs = this.getCellRuns(tc, state);
+    const tcPr = this.childElement(tc, 'w:tcPr');
+    const span = parseInt(tcPr ? this.childElement(tcPr, 'w:gridSpan')?.getAttribute('w:val') || '' : '', 10);
+    const vMerge = tcPr ? this.childElement(tcPr, 'w:vMerge') : null;
+
+    const cell: TableCell = {
+      text: this.normalizeText(runs.map(run => run.text).join('')),
+      runs,
+      gridSpan: span > 0 ? span : 1
+    };
+    if (vMerge) {
+      cell.vMerge = vMerge.getAttribute('w:val') === 'restart' ? 'restart' : 'continue';
     }
+    return cell;
+  }
 
-    // Check for italic
-    const italicElements = p.getElementsByTagName('w:i');
-    if (italicElements.length > 0) {
-      const val = italicElements[0].getAttribute('w:val');
-      if (val === null || val === '' || val === 'true' || val === '1') {
-        formatting.italic = true;
+  /**
+   * Runs of a table cell; paragraphs and nested table rows are separated by a space
+   */
+  private getCellRuns(tc: Element, state: ParseState): TextRun[] {
+    const runs: TextRun[] = [];
+    const separate = () => {
+      if (runs.length > 0) {
+        runs.push({ text: ' ', formatting: {} });
       }
-    }
+    };
 
-    // Check for underline
-    const underlineElements = p.getElementsByTagName('w:u');
-    if (underlineElements.length > 0) {
-      const val = underlineElements[0].getAttribute('w:val');
-      if (val && val !== 'none') {
-        formatting.underline = true;
+    for (const child of this.childElements(tc)) {
+      if (child.nodeName === 'w:p') {
+        // Lists inside cells keep the counters in step; the cell text has no labels
+        this.readListNumber(this.childElement(child, 'w:pPr'), state);
+        const items: RunItem[] = [];
+        this.collectRuns(child, items, state);
+        const paraRuns = this.getVisibleRuns(items.filter((item): item is ParsedRun => item !== null));
+        if (paraRuns.length > 0) {
+          separate();
+          runs.push(...paraRuns);
+        }
+      } else if (child.nodeName === 'w:tbl') {
+        for (const tr of this.childElements(child).filter(el => el.nodeName === 'w:tr' && !this.isRowRemoved(el, state))) {
+          for (const nestedCell of this.childElements(tr).filter(el => el.nodeName === 'w:tc')) {
+            const nestedRuns = this.getCellRuns(nestedCell, state);
+            if (nestedRuns.length > 0) {
+              separate();
+              runs.push(...nestedRuns);
+            }
+          }
+        }
       }
     }
 
-    return formatting;
+    return runs;
   }
 
   /**
-   * Merge numbered list blocks with existing blocks from officeparser.
-   * This inserts numbered list content at the correct positions based on XML order.
+   * Collect the runs of a paragraph (or run container) in reading order.
+   * Inserted and deleted content is kept or skipped per the revision mode;
+   * in preserve mode both are kept and tagged with their revision.
    */
-  private mergeBlocks(existingBlocks: Block[], numberedBlocks: { block: Block; xmlIndex: number }[]): Block[] {
-    if (numberedBlocks.length === 0) {
-      return existingBlocks;
-    }
-
-    // If there are no existing blocks, just return the numbered blocks in order
-    if (existingBlocks.length === 0) {
-      return numberedBlocks.map(nb => nb.block);
+  private collectRuns(container: Element, items: RunItem[], state: ParseState, revision?: RunRevision): void {
+    const mode = state.options.revisionMode;
+    for (const child of this.childElements(container)) {
+      const name = child.nodeName;
+      if (name === 'w:r') {
+        this.readRun(child, items, state, revision);
+      } else if (RUN_CONTAINERS.has(name)) {
+        this.collectRuns(child, items, state, revision);
+      } else if (INSERTED_CONTENT.has(name) || DELETED_CONTENT.has(name)) {
+        const type = INSERTED_CONTENT.has(name) ? 'insert' : 'delete';
+        if (mode === 'preserve') {
+          this.collectRuns(child, items, state, {
+            type,
+            author: child.getAttribute('w:author') || undefined,
+            date: child.getAttribute('w:date') || undefined
+          });
+        } else if ((type === 'insert') === (mode === 'accept')) {
+          this.collectRuns(child, items, state, revision);
+        }
+      }
     }
+  }
 
-    // Create a set of existing block texts for deduplication
-    const existingTexts = new Set(existingBlocks.map(b => b.text.toLowerCase().trim()));
-
-    // Filter out numbered blocks that are already in the existing blocks (deduplication)
-    const newNumberedBlocks = numberedBlocks.filter(
-      nb => !existingTexts.has(nb.block.text.toLowerCase().trim())
-    );
-
-    if (newNumberedBlocks.length === 0) {
-      return existingBlocks;
+  /**
+   * Read a w:r with its own rPr. Adjacent runs with equal formatting are
+   * merged, since Word splits runs for reasons invisible to the reader.
+   * Rejecting revisions reads the formatting from before any w:rPrChange.
+   */
+  private readRun(r: Element, items: RunItem[], state: ParseState, revision?: RunRevision): void {
+    let rPr = this.childElement(r, 'w:rPr');
+    const rPrChange = rPr ? this.childElement(rPr, 'w:rPrChange') : null;
+    if (rPrChange && state.options.revisionMode === 'reject') {
+      rPr = this.childElement(rPrChange, 'w:rPr');
     }
+    const formatting = rPr ? this.readRunFormatting(rPr) : {};
+    let text = '';
 
-    // Sort numbered blocks by their XML index
-    newNumberedBlocks.sort((a, b) => a.xmlIndex - b.xmlIndex);
-
-    // Strategy: Insert numbered blocks based on their relative position
-    // We'll create position markers by finding nearby non-numbered content
-
-    // For now, use a simpler approach: interleave based on content position
-    // Since numbered blocks come from XML order and existing blocks preserve document order,
-    // we can merge them by creating a combined list
-
-    const result: Block[] = [];
-    let existingIdx = 0;
-    let numberedIdx = 0;
-
-    // Merge in order - numbered blocks typically appear between regular paragraphs
-    // We use a heuristic: insert numbered blocks before the existing block
-    // that comes after them in the XML (based on position)
-
-    while (existingIdx < existingBlocks.length || numberedIdx < newNumberedBlocks.length) {
-      // Add any numbered blocks that should come before the current existing block
-      while (numberedIdx < newNumberedBlocks.length) {
-        // If we've exhausted existing blocks, add remaining numbered blocks
-        if (existingIdx >= existingBlocks.length) {
-          result.push(newNumberedBlocks[numberedIdx].block);
-          numberedIdx++;
-          continue;
-        }
-
-        // For the simple case, interleave by adding numbered blocks
-        // then existing blocks alternately based on xmlIndex
-        const numberedXmlIndex = newNumberedBlocks[numberedIdx].xmlIndex;
-
-        // Heuristic: numbered blocks with lower xmlIndex come first
-        // Add the numbered block if its index suggests it comes before other content
-        if (numberedIdx === 0 || numberedXmlIndex < (existingIdx + numberedIdx) * 2) {
-          result.push(newNumberedBlocks[numberedIdx].block);
-          numberedIdx++;
-        } else {
-          break;
-        }
+    const flush = () => {
+      if (!text) return;
+      const previous = items[items.length - 1];
+      if (previous && previous.revision === revision && this.formattingEqual(previous.formatting, formatting)) {
+        previous.text += text;
+      } else {
+        items.push(revision ? { text, formatting, revision } : { text, formatting });
       }
+      text = '';
+    };
 
-      // Add the current existing block
-      if (existingIdx < existingBlocks.length) {
-        result.push(existingBlocks[existingIdx]);
-        existingIdx++;
+    for (const child of this.childElements(r)) {
+      switch (child.nodeName) {
+        case 'w:t':
+        case 'w:delText':
+          text += child.textContent || '';
+          break;
+        case 'w:tab':
+        case 'w:ptab':
+          text += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          if (child.getAttribute('w:type') === 'page') {
+            flush();
+            items.push(null);
+          } else {
+            text += '\n';
+          }
+          break;
+        case 'w:noBreakHyphen':
+          text += '-';
+          break;
       }
     }
 
-    // Regenerate IDs to ensure proper ordering
-    return result.map((block, index) => ({
-      ...block,
-      id: this.generateBlockId(block.text, index)
-    }));
+    flush();
   }
 
-  private async extractSectionProperties(buffer: ArrayBuffer): Promise<SectionProperties> {
-    try {
-      const zip = await JSZip.loadAsync(buffer);
-      const documentXml = await zip.file('word/document.xml')?.async('string');
+  /**
+   * Read direct run formatting from a w:rPr element
+   */
+  private readRunFormatting(rPr: Element): TextFormatting {
+    const formatting: TextFormatting = {};
 
-      if (!documentXml) {
-        return {};
-      }
+    const bold = this.childElement(rPr, 'w:b');
+    if (bold && this.isOn(bold)) formatting.bold = true;
 
-      // Parse the XML
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(documentXml, 'application/xml');
+    const italic = this.childElement(rPr, 'w:i');
+    if (italic && this.isOn(italic)) formatting.italic = true;
 
-      // Find section properties (w:sectPr) - look for the last one which applies to the document body
-      const sectPrElements = doc.getElementsByTagName('w:sectPr');
-      if (sectPrElements.length === 0) {
-        return {};
-      }
+    const underline = this.childElement(rPr, 'w:u');
+    const underlineVal = underline?.getAttribute('w:val');
+    if (underline && underlineVal !== 'none') formatting.underline = true;
 
-      // Get the last sectPr (document-level section properties)
-      const sectPr = sectPrElements[sectPrElements.length - 1];
+    const color = this.childElement(rPr, 'w:color')?.getAttribute('w:val');
+    if (color && color !== 'auto') formatting.color = `#${color}`;
 
-      // Find columns element (w:cols)
-      const colsElements = sectPr.getElementsByTagName('w:cols');
-      if (colsElements.length === 0) {
-        return {};
-      }
+    const fonts = this.childElement(rPr, 'w:rFonts');
+    const font = fonts?.getAttribute('w:ascii') || fonts?.getAttribute('w:hAnsi');
+    if (font) formatting.font = font;
 
-      const cols = colsElements[0];
-      const numAttr = cols.getAttribute('w:num');
-      const spaceAttr = cols.getAttribute('w:space');
+    // w:sz is in half-points
+    const size = this.childElement(rPr, 'w:sz')?.getAttribute('w:val');
+    if (size && !isNaN(parseInt(size, 10))) formatting.fontSize = parseInt(size, 10) / 2;
 
-      const sectionProps: SectionProperties = {};
+    return formatting;
+  }
 
-      if (numAttr) {
-        sectionProps.columnCount = parseInt(numAttr, 10);
-      }
+  private getParagraphType(pPr: Element | null, state: ParseState): Block['type'] {
+    if (!pPr) return 'paragraph';
 
-      if (spaceAttr) {
-        sectionProps.columnSpace = parseInt(spaceAttr, 10);
+    const styleId = this.childElement(pPr, 'w:pStyle')?.getAttribute('w:val');
+    if (styleId) {
+      const match = HEADING_STYLE.exec(state.styleNames.get(styleId) || '') || HEADING_STYLE.exec(styleId);
+      if (match) {
+        return `heading${match[1]}` as Block['type'];
       }
-
-      return sectionProps;
-    } catch (error) {
-      console.warn('Failed to extract section properties:', error);
-      return {};
     }
+
+    return this.childElement(pPr, 'w:numPr') ? 'list-item' : 'paragraph';
   }
 
-  private normalizeAST(rawData: any): DocumentAST {
-    const blocks: Block[] = [];
+  /**
+   * Build a block from collected runs; empty paragraphs are skipped.
+   * Deleted runs from preserve mode become the block's revisions.
+   */
+  private createBlock(type: Block['type'], runs: ParsedRun[]): Block | null {
+    const visible = this.getVisibleRuns(runs);
+    const text = this.normalizeText(visible.map(run => run.text).join(''));
+    if (!text) {
+      return null;
+    }
 
-    // Extract metadata
-    const metadata = {
-      author: rawData.author || undefined,
-      title: rawData.title || undefined,
-      created: rawData.created ? new Date(rawData.created) : undefined,
-      modified: rawData.modified ? new Date(rawData.modified) : undefined
+    const block: Block = {
+      id: '',
+      type,
+      text,
+      runs: visible,
+      formatting: this.getCommonFormatting(visible)
     };
+    const revisions = this.getRevisions(runs, text);
+    if (revisions.length > 0) {
+      block.revisions = revisions;
+    }
+    return block;
+  }
 
-    // Process content
-    if (Array.isArray(rawData.content)) {
-      rawData.content.forEach((item: any, index: number) => {
-        // Log item types for investigation
-        if (item.type && item.type !== 'paragraph' && item.type !== 'heading' && item.type !== 'table') {
-          console.log(`[DocxParser] Unhandled item type at index ${index}:`, item.type, item);
-        }
+  /**
+   * Runs that read in the accepted text, without their revision tags
+   */
+  private getVisibleRuns(runs: ParsedRun[]): TextRun[] {
+    return runs
+      .filter(run => run.revision?.type !== 'delete')
+      .map(run => ({ text: run.text, formatting: run.formatting }));
+  }
 
-        if (item.type === 'paragraph' || item.type === 'heading') {
-          const block = this.normalizeParagraph(item, index);
-          if (block) {
-            blocks.push(block);
-          }
-        } else if (item.type === 'table') {
-          const block = this.normalizeTable(item, index);
-          if (block) {
-            blocks.push(block);
-          }
-        } else if (item.type === 'page-break' || item.type === 'break') {
-          // Create page break block
-          blocks.push({
-            id: `page-break-${index}`,
-            type: 'page-break',
-            text: '',
-            runs: [],
-            formatting: {}
-          });
+  /**
+   * Locate tagged runs in the normalized block text. Consecutive runs of
+   * one w:ins or w:del element become a single revision.
+   */
+  private getRevisions(runs: ParsedRun[], text: string): Revision[] {
+    // Offset in the normalized text where the next visible character lands
+    const offsetAt = (raw: string) => Math.min(this.normalizeText(raw + '\u0001').length - 1, text.length);
+
+    const revisions: Revision[] = [];
+    let raw = '';
+    let last = null as { revision: RunRevision; result: Revision } | null;
+
+    for (const run of runs) {
+      const tag = run.revision;
+      if (tag?.type === 'delete') {
+        const deleted = run.text.replace(/\s+/g, ' ');
+        if (last?.revision === tag) {
+          last.result.text += deleted;
+        } else {
+          const result: Revision = { ...tag, text: deleted, offset: offsetAt(raw) };
+          revisions.push(result);
+          last = { revision: tag, result };
         }
-      });
+        continue;
+      }
+
+      const start = offsetAt(raw);
+      raw += run.text;
+      if (tag && last?.revision === tag) {
+        last.result.text = text.slice(last.result.offset, offsetAt(raw));
+      } else if (tag) {
+        const result: Revision = { ...tag, text: text.slice(start, offsetAt(raw)), offset: start };
+        revisions.push(result);
+        last = { revision: tag, result };
+      } else {
+        last = null;
+      }
     }
 
+    return revisions.filter(revision => revision.text.trim() !== '');
+  }
+
+  private createPageBreak(): Block {
     return {
-      metadata,
-      blocks
+      id: '',
+      type: 'page-break',
+      text: '',
+      runs: [],
+      formatting: {}
     };
   }
 
-  private normalizeParagraph(para: any, index: number): Block | null {
-    // Determine block type
-    let blockType: Block['type'] = 'paragraph';
-    if (para.style) {
-      const style = para.style.toLowerCase();
-      if (style.includes('heading1') || style.includes('heading 1')) {
-        blockType = 'heading1';
-      } else if (style.includes('heading2') || style.includes('heading 2')) {
-        blockType = 'heading2';
-      } else if (style.includes('heading3') || style.includes('heading 3')) {
-        blockType = 'heading3';
-      }
+  /**
+   * Formatting shared by every visible run, used as the block formatting
+   */
+  private getCommonFormatting(runs: TextRun[]): TextFormatting {
+    const visible = runs.filter(run => /\S/.test(run.text));
+    if (visible.length === 0) {
+      return {};
     }
 
-    // Extract text and runs
-    let text = para.text || '';
-    const runs: TextRun[] = [];
-
-    if (Array.isArray(para.runs) && para.runs.length > 0) {
-      para.runs.forEach((run: any) => {
-        const runText = run.text || '';
-        if (runText) {
-          runs.push({
-            text: runText,
-            formatting: this.extractFormatting(run)
-          });
+    const common: TextFormatting = { ...visible[0].formatting };
+    for (const run of visible.slice(1)) {
+      for (const key of Object.keys(common) as (keyof TextFormatting)[]) {
+        if (run.formatting[key] !== common[key]) {
+          delete common[key];
         }
-      });
-      // Concatenate all run texts with whitespace normalization
-      text = runs.map(r => r.text).join('').trim().replace(/\s+/g, ' ');
+      }
     }
+    return common;
+  }
 
-    // If no runs, create a single run with paragraph-level formatting
-    if (runs.length === 0 && text) {
-      // Normalize text before creating run
-      const normalizedText = text.trim().replace(/\s+/g, ' ');
-      runs.push({
-        text: normalizedText,
-        formatting: this.extractFormatting(para)
-      });
-      text = normalizedText;
+  private formattingEqual(fmt1: TextFormatting, fmt2: TextFormatting): boolean {
+    const keys = new Set([...Object.keys(fmt1), ...Object.keys(fmt2)]) as Set<keyof TextFormatting>;
+    for (const key of keys) {
+      if (fmt1[key] !== fmt2[key]) return false;
     }
+    return true;
+  }
 
-    // Skip empty paragraphs
-    if (!text.trim()) {
-      return null;
+  /**
+   * Map style ids to style names, e.g. "Heading1" -> "heading 1"
+   */
+  private readStyleNames(stylesDoc: Document): Map<string, string> {
+    const names = new Map<string, string>();
+    const styles = stylesDoc.getElementsByTagName('w:style');
+    for (let i = 0; i < styles.length; i++) {
+      const id = styles[i].getAttribute('w:styleId');
+      const name = this.childElement(styles[i], 'w:name')?.getAttribute('w:val');
+      if (id && name) {
+        names.set(id, name);
+      }
     }
+    return names;
+  }
+
+  private readMetadata(coreDoc: Document): DocumentAST['metadata'] {
+    const read = (tagName: string) => coreDoc.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+    // Malformed dates are left out rather than read as Invalid Date
+    const readDate = (tagName: string) => {
+      const value = read(tagName);
+      const date = value ? new Date(value) : undefined;
+      return date && !isNaN(date.getTime()) ? date : undefined;
+    };
 
     return {
-      id: this.generateBlockId(text, index),
-      type: blockType,
-      text: text.trim().replace(/\s+/g, ' '),
-      runs,
-      formatting: this.extractFormatting(para)
+      author: read('dc:creator'),
+      title: read('dc:title'),
+      created: readDate('dcterms:created'),
+      modified: readDate('dcterms:modified')
     };
   }
 
-  private normalizeTable(table: any, index: number): Block | null {
-    // For MVP, extract table as text
-    let text = '';
+  private readSectionProperties(body: Element): SectionProperties {
+    // The last sectPr applies to the document body
+    const sectPrElements = body.getElementsByTagName('w:sectPr');
+    if (sectPrElements.length === 0) {
+      return {};
+    }
 
-    if (Array.isArray(table.rows)) {
-      table.rows.forEach((row: any) => {
-        if (Array.isArray(row.cells)) {
-          const cellTexts = row.cells.map((cell: any) => cell.text || '').filter((t: string) => t.trim());
-          if (cellTexts.length > 0) {
-            text += cellTexts.join(' | ') + '\n';
-          }
-        }
-      });
+    const sectPr = sectPrElements[sectPrElements.length - 1];
+    const cols = sectPr.getElementsByTagName('w:cols')[0];
+    if (!cols) {
+      return {};
     }
 
-    if (!text.trim()) {
-      return null;
+    const sectionProps: SectionProperties = {};
+    const numAttr = cols.getAttribute('w:num');
+    const spaceAttr = cols.getAttribute('w:space');
+
+    if (numAttr) {
+      sectionProps.columnCount = parseInt(numAttr, 10);
     }
 
-    const normalizedText = text.trim().replace(/\s+/g, ' ');
-    return {
-      id: this.generateBlockId(normalizedText, index),
-      type: 'table',
-      text: normalizedText,
-      runs: [
-        {
-          text: normalizedText,
-          formatting: {}
-        }
-      ],
-      formatting: {}
-    };
+    if (spaceAttr) {
+      sectionProps.columnSpace = parseInt(spaceAttr, 10);
+    }
+
+    return sectionProps;
   }
 
-  private extractFormatting(item: any): TextFormatting {
-    const formatting: TextFormatting = {};
+  /**
+   * On/off properties (w:b, w:i, ...) are on unless w:val says otherwise
+   */
+  private isOn(el: Element): boolean {
+    const val = el.getAttribute('w:val');
+    return val === null || val === '' || val === 'true' || val === '1' || val === 'on';
+  }
+
+  private childElements(el: Element): Element[] {
+    return Array.from(el.childNodes).filter((node): node is Element => node.nodeType === 1);
+  }
 
-    if (item.bold === true) formatting.bold = true;
-    if (item.italic === true) formatting.italic = true;
-    if (item.underline === true) formatting.underline = true;
-    if (item.color) formatting.color = item.color;
-    if (item.font) formatting.font = item.font;
-    if (item.fontSize) formatting.fontSize = item.fontSize;
+  private childElement(el: Element, tagName: string): Element | null {
+    return this.childElements(el).find(child => child.nodeName === tagName) || null;
+  }
 
-    return formatting;
+  private normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
   }
 
-  private generateBlockId(text: string, index: number): string {
+  private generateBlockId(text: string, index: number, prefix: string = 'block'): string {
     // Generate a simple hash-based ID for block identification
     const textHash = this.simpleHash(text.substring(0, 100));
-    return `block-${index}-${textHash}`;
+    return `${prefix}-${index}-${textHash}`;
   }
 
   private simpleHash(str: string): string {
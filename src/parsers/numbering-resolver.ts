@@ -0,0 +1,216 @@
+// Numbering Resolver - Computes list labels ("3.2(b)") from word/numbering.xml
+
+/**
+ * One level of a list definition (w:abstractNum/w:lvl)
+ */
+interface LevelDefinition {
+  start: number;
+  format: string;
+  text: string;
+  /** Render every level number as decimal ("legal" numbering) */
+  isLegal: boolean;
+  /** 1-based level whose use restarts this one; 0 never restarts */
+  restart?: number;
+}
+
+/**
+ * A list instance (w:num): its abstract definition plus level overrides
+ */
+interface NumberingInstance {
+  levels: Map<number, LevelDefinition>;
+  startOverrides: Map<number, number>;
+}
+
+export interface ListNumber {
+  label: string;
+  level: number;
+}
+
+// Symbol-font bullets are stored as private-use characters
+const PRIVATE_USE = /[\uE000-\uF8FF]/;
+const DEFAULT_BULLET = '•';
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+/**
+ * Tracks list counters while a story is walked in order. Counters are kept
+ * per numId and level; using a level restarts the levels below it.
+ */
+export class NumberingResolver {
+  private instances = new Map<string, NumberingInstance>();
+  private counters = new Map<string, number[]>();
+
+  constructor(numberingDoc: Document | null) {
+    if (numberingDoc) {
+      this.readDefinitions(numberingDoc);
+    }
+  }
+
+  /**
+   * Advance the counter for a numbered paragraph and return its label, or
+   * null when the numId is 0 (numbering removed) or undefined
+   */
+  next(numId: string, level: number): ListNumber | null {
+    const instance = this.instances.get(numId);
+    const definition = instance?.levels.get(level);
+    if (!instance || !definition) {
+      return null;
+    }
+
+    let counters = this.counters.get(numId);
+    if (!counters) {
+      counters = [];
+      this.counters.set(numId, counters);
+    }
+
+    counters[level] = counters[level] === undefined
+      ? this.getStart(instance, level)
+      : counters[level] + 1;
+
+    // Restart deeper levels, unless their lvlRestart says otherwise
+    for (let deeper = level + 1; deeper < counters.length; deeper++) {
+      const restart = instance.levels.get(deeper)?.restart ?? deeper;
+      if (restart !== 0 && level < restart) {
+        delete counters[deeper];
+      }
+    }
+
+    return { label: this.formatLabel(instance, definition, counters), level };
+  }
+
+  /**
+   * Replace the %1..%9 placeholders of the level text with each level's number
+   */
+  private formatLabel(instance: NumberingInstance, definition: LevelDefinition, counters: number[]): string {
+    if (definition.format === 'bullet') {
+      return !definition.text || PRIVATE_USE.test(definition.text) ? DEFAULT_BULLET : definition.text;
+    }
+
+    return definition.text.replace(/%([1-9])/g, (_, digit: string) => {
+      const level = parseInt(digit, 10) - 1;
+      const levelDefinition = instance.levels.get(level);
+      if (!levelDefinition) return '';
+      const value = counters[level] ?? this.getStart(instance, level);
+      return this.formatNumber(value, definition.isLegal ? 'decimal' : levelDefinition.format);
+    });
+  }
+
+  private formatNumber(value: number, format: string): string {
+    switch (format) {
+      case 'none':
+        return '';
+      case 'decimalZero':
+        return value < 10 ? `0${value}` : String(value);
+      case 'lowerLetter':
+        return this.toLetters(value);
+      case 'upperLetter':
+        return this.toLetters(value).toUpperCase();
+      case 'lowerRoman':
+        return this.toRoman(value);
+      case 'upperRoman':
+        return this.toRoman(value).toUpperCase();
+      case 'ordinal': {
+        const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th'
+          : ['th', 'st', 'nd', 'rd'][value % 10] || 'th';
+        return `${value}${suffix}`;
+      }
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Word letters repeat rather than carry: a..z, aa..zz, aaa..
+   */
+  private toLetters(value: number): string {
+    if (value < 1) return '';
+    const letter = String.fromCharCode(97 + (value - 1) % 26);
+    return letter.repeat(Math.floor((value - 1) / 26) + 1);
+  }
+
+  private toRoman(value: number): string {
+    let remaining = value;
+    let result = '';
+    for (const [amount, numeral] of ROMAN_NUMERALS) {
+      while (remaining >= amount) {
+        result += numeral;
+        remaining -= amount;
+      }
+    }
+    return result;
+  }
+
+  private getStart(instance: NumberingInstance, level: number): number {
+    return instance.startOverrides.get(level) ?? instance.levels.get(level)?.start ?? 1;
+  }
+
+  /**
+   * Read w:abstractNum definitions, then each w:num with its w:lvlOverride
+   * entries (a start override or a replacement level)
+   */
+  private readDefinitions(doc: Document): void {
+    const abstracts = new Map<string, Map<number, LevelDefinition>>();
+    const abstractNums = doc.getElementsByTagName('w:abstractNum');
+    for (let i = 0; i < abstractNums.length; i++) {
+      const levels = new Map<number, LevelDefinition>();
+      for (const lvl of this.childElements(abstractNums[i]).filter(el => el.nodeName === 'w:lvl')) {
+        levels.set(this.readLevelIndex(lvl), this.readLevel(lvl));
+      }
+      abstracts.set(abstractNums[i].getAttribute('w:abstractNumId') || '', levels);
+    }
+
+    const nums = doc.getElementsByTagName('w:num');
+    for (let i = 0; i < nums.length; i++) {
+      const abstractId = this.childVal(nums[i], 'w:abstractNumId');
+      const levels = new Map(abstracts.get(abstractId || '') || []);
+      const startOverrides = new Map<number, number>();
+
+      for (const override of this.childElements(nums[i]).filter(el => el.nodeName === 'w:lvlOverride')) {
+        const level = this.readLevelIndex(override);
+        const start = parseInt(this.childVal(override, 'w:startOverride') || '', 10);
+        if (!isNaN(start)) {
+          startOverrides.set(level, start);
+        }
+        const lvl = this.childElements(override).find(el => el.nodeName === 'w:lvl');
+        if (lvl) {
+          levels.set(level, this.readLevel(lvl));
+        }
+      }
+
+      this.instances.set(nums[i].getAttribute('w:numId') || '', { levels, startOverrides });
+    }
+  }
+
+  private readLevel(lvl: Element): LevelDefinition {
+    const start = parseInt(this.childVal(lvl, 'w:start') || '', 10);
+    const restart = parseInt(this.childVal(lvl, 'w:lvlRestart') || '', 10);
+    const isLegal = this.childElements(lvl).find(el => el.nodeName === 'w:isLgl');
+
+    const definition: LevelDefinition = {
+      start: isNaN(start) ? 1 : start,
+      format: this.childVal(lvl, 'w:numFmt') || 'decimal',
+      text: this.childVal(lvl, 'w:lvlText') ?? '',
+      isLegal: !!isLegal && !['0', 'false', 'off'].includes(isLegal.getAttribute('w:val') || '')
+    };
+    if (!isNaN(restart)) {
+      definition.restart = restart;
+    }
+    return definition;
+  }
+
+  private readLevelIndex(el: Element): number {
+    const ilvl = parseInt(el.getAttribute('w:ilvl') || '0', 10);
+    return isNaN(ilvl) ? 0 : ilvl;
+  }
+
+  private childVal(el: Element, tagName: string): string | null {
+    return this.childElements(el).find(child => child.nodeName === tagName)?.getAttribute('w:val') ?? null;
+  }
+
+  private childElements(el: Element): Element[] {
+    return Array.from(el.childNodes).filter((node): node is Element => node.nodeType === 1);
+  }
+}
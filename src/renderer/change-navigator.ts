@@ -1,11 +1,22 @@
 // Change Navigator - Navigate between changes with Previous/Next buttons
 
+import type { ChangeState } from '../types/diff.types';
+
+// Keys that record a decision on the current change
+const DECISION_KEYS: Record<string, ChangeState> = {
+  a: 'accepted',
+  r: 'rejected',
+  u: 'pending'
+};
+
 export class ChangeNavigator {
   private changeElements: HTMLElement[];
   private currentIndex: number = -1;
   private prevButton: HTMLButtonElement;
   private nextButton: HTMLButtonElement;
   private counterElement: HTMLElement;
+  private navigateCallback: ((changeId: string | null) => void) | null = null;
+  private decisionCallback: ((changeId: string, state: ChangeState) => void) | null = null;
 
   constructor(
     changeElements: HTMLElement[],
@@ -43,6 +54,9 @@ export class ChangeNavigator {
       } else if (e.key === 'p' && !this.isInputFocused()) {
         e.preventDefault();
         this.goToPrevious();
+      } else if (e.key in DECISION_KEYS && !e.ctrlKey && !e.metaKey && !e.altKey && !this.isInputFocused()) {
+        e.preventDefault();
+        this.decideCurrent(DECISION_KEYS[e.key]);
       }
     });
   }
@@ -70,6 +84,47 @@ export class ChangeNavigator {
     }
   }
 
+  /**
+   * Jump to the element of a change id; false when it is not in the list
+   */
+  goToChange(changeId: string): boolean {
+    const index = this.changeElements.findIndex(el => el.dataset.changeId === changeId);
+    if (index < 0) {
+      return false;
+    }
+    this.navigateToIndex(index);
+    return true;
+  }
+
+  /**
+   * Record a decision on the current change, then move on to the next one
+   * when it was accepted or rejected
+   */
+  decideCurrent(state: ChangeState) {
+    const element = this.changeElements[this.currentIndex];
+    const changeId = element?.dataset.changeId;
+    if (!changeId) return;
+
+    this.decisionCallback?.(changeId, state);
+    if (state !== 'pending') {
+      this.goToNext();
+    }
+  }
+
+  /**
+   * Called with the change id and decision of a keyboard shortcut
+   */
+  onDecision(callback: (changeId: string, state: ChangeState) => void) {
+    this.decisionCallback = callback;
+  }
+
+  /**
+   * Called with the change id of the element navigated to
+   */
+  onNavigate(callback: (changeId: string | null) => void) {
+    this.navigateCallback = callback;
+  }
+
   private navigateToIndex(index: number) {
     // Remove highlight from previous
     if (this.currentIndex >= 0 && this.currentIndex < this.changeElements.length) {
@@ -81,6 +136,12 @@ export class ChangeNavigator {
     const element = this.changeElements[this.currentIndex];
     element.classList.add('change-highlight');
 
+    // Expand a collapsed header/footer/notes section holding the change
+    const story = element.closest('details');
+    if (story && !story.open) {
+      story.open = true;
+    }
+
     // Scroll into view
     element.scrollIntoView({
       behavior: 'smooth',
@@ -88,6 +149,7 @@ export class ChangeNavigator {
     });
 
     this.updateUI();
+    this.navigateCallback?.(element.dataset.changeId ?? null);
   }
 
   private updateUI() {
@@ -123,4 +185,18 @@ export class ChangeNavigator {
       this.updateUI();
     }
   }
+
+  /**
+   * Swap the list without moving, e.g. when a filter hides some changes.
+   * The current change stays selected while it is still in the list.
+   */
+  setChangeElements(elements: HTMLElement[]) {
+    const current = this.changeElements[this.currentIndex];
+    if (current && !elements.includes(current)) {
+      current.classList.remove('change-highlight');
+    }
+    this.changeElements = elements;
+    this.currentIndex = current ? elements.indexOf(current) : -1;
+    this.updateUI();
+  }
 }
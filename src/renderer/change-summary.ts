@@ -0,0 +1,297 @@
+// Change Summary - Sidebar listing every change, filterable by change type
+
+import type { Change } from 'diff';
+import { PARAGRAPH_BOUNDARY, PARAGRAPH_MARK, type BlockDiff, type DocumentDiff, type FormatChange } from '../types/diff.types';
+import { describeFormatChange, getStoryLabel } from './diff-renderer';
+
+export type ChangeCategory = 'insert' | 'delete' | 'modify' | 'format' | 'move';
+
+export interface ChangeEntry {
+  changeId: string;
+  category: ChangeCategory;
+  /** Nearest heading before the change, or the header/footer/notes section */
+  heading?: string;
+  /** Text around the change as it read before and after */
+  before?: string;
+  after?: string;
+}
+
+export const CATEGORY_LABELS: Record<ChangeCategory, string> = {
+  insert: 'Inserted',
+  delete: 'Deleted',
+  modify: 'Modified',
+  format: 'Formatting',
+  move: 'Moved'
+};
+
+const SNIPPET_CONFIG = {
+  CONTEXT: 24,     // Characters of unchanged text kept around a change
+  MAX_LENGTH: 90   // Snippets are cut to this length
+};
+
+export class ChangeSummary {
+  private container: HTMLElement;
+  private entries: ChangeEntry[] = [];
+  private hiddenCategories = new Set<ChangeCategory>();
+  private filterCallback: ((visibleIds: Set<string>) => void) | null = null;
+  private selectCallback: ((changeId: string) => void) | null = null;
+
+  constructor(containerId: string) {
+    const container = document.getElementById(containerId);
+
+    if (!container) {
+      throw new Error('Change summary container not found');
+    }
+
+    this.container = container;
+    this.setupListeners();
+  }
+
+  private setupListeners() {
+    this.container.addEventListener('change', (e) => {
+      const checkbox = e.target as HTMLInputElement;
+      const category = checkbox.dataset.category as ChangeCategory | undefined;
+      if (!category) return;
+
+      if (checkbox.checked) {
+        this.hiddenCategories.delete(category);
+      } else {
+        this.hiddenCategories.add(category);
+      }
+      this.renderList();
+      this.filterCallback?.(this.getVisibleChangeIds());
+    });
+
+    this.container.addEventListener('click', (e) => {
+      const entry = (e.target as HTMLElement).closest<HTMLElement>('.change-entry');
+      if (entry?.dataset.changeId) {
+        this.selectCallback?.(entry.dataset.changeId);
+      }
+    });
+  }
+
+  /**
+   * Called with the ids left visible whenever a filter changes
+   */
+  onFilterChange(callback: (visibleIds: Set<string>) => void) {
+    this.filterCallback = callback;
+  }
+
+  /**
+   * Called with the change id of a clicked entry
+   */
+  onSelect(callback: (changeId: string) => void) {
+    this.selectCallback = callback;
+  }
+
+  /**
+   * List the changes of a diff. Filters set by the reader are kept.
+   */
+  render(diff: DocumentDiff) {
+    this.entries = this.buildEntries(diff);
+    this.renderFilters();
+    this.renderList();
+  }
+
+  getEntries(): ChangeEntry[] {
+    return this.entries;
+  }
+
+  getVisibleChangeIds(): Set<string> {
+    return new Set(this.entries
+      .filter(entry => !this.hiddenCategories.has(entry.category))
+      .map(entry => entry.changeId));
+  }
+
+  /**
+   * Mark the entry of the change the navigator is on
+   */
+  setActive(changeId: string | null) {
+    this.container.querySelectorAll('.change-entry').forEach(el => {
+      const active = (el as HTMLElement).dataset.changeId === changeId;
+      el.classList.toggle('active', active);
+      if (active) {
+        el.scrollIntoView({ block: 'nearest' });
+      }
+    });
+  }
+
+  private buildEntries(diff: DocumentDiff): ChangeEntry[] {
+    const entries = this.buildBlockEntries(diff.blockDiffs);
+    for (const storyDiff of diff.storyDiffs || []) {
+      entries.push(...this.buildBlockEntries(storyDiff.blockDiffs, getStoryLabel(storyDiff)));
+    }
+    return entries;
+  }
+
+  /**
+   * One entry per block diff with a change id, under the last heading seen
+   */
+  private buildBlockEntries(blockDiffs: BlockDiff[], section?: string): ChangeEntry[] {
+    const entries: ChangeEntry[] = [];
+    let heading = section;
+
+    for (const blockDiff of blockDiffs) {
+      const block = blockDiff.currentBlock ?? blockDiff.originalBlock;
+      if (block?.type.startsWith('heading') && !section) {
+        heading = block.text;
+      }
+      if (!blockDiff.changeId) continue;
+
+      entries.push({
+        changeId: blockDiff.changeId,
+        category: this.getCategory(blockDiff),
+        heading,
+        ...this.getSnippets(blockDiff)
+      });
+    }
+
+    return entries;
+  }
+
+  private getCategory(blockDiff: BlockDiff): ChangeCategory {
+    switch (blockDiff.type) {
+      case 'insert':
+      case 'delete':
+      case 'move':
+        return blockDiff.type;
+      default:
+        return this.hasTextChanges(blockDiff) ? 'modify' : 'format';
+    }
+  }
+
+  private hasTextChanges(blockDiff: BlockDiff): boolean {
+    if (blockDiff.listLabelChange) return true;
+    if (blockDiff.cellDiffs) {
+      return blockDiff.cellDiffs.some(cellDiff =>
+        cellDiff.type === 'insert' || cellDiff.type === 'delete' ||
+        !!cellDiff.wordDiff?.some(change => change.added || change.removed)
+      );
+    }
+    return !!blockDiff.wordDiff?.some(change => change.added || change.removed);
+  }
+
+  private getSnippets(blockDiff: BlockDiff): Pick<ChangeEntry, 'before' | 'after'> {
+    const origText = blockDiff.originalBlock?.text;
+    const text = blockDiff.currentBlock?.text;
+
+    switch (blockDiff.type) {
+      case 'insert':
+        return { after: this.truncate(text!) };
+      case 'delete':
+        return { before: this.truncate(origText!) };
+      case 'move':
+        return blockDiff.move?.role === 'from'
+          ? { before: this.truncate(origText!) }
+          : { after: this.truncate(text!) };
+    }
+
+    const wordDiff = blockDiff.cellDiffs
+      ? blockDiff.cellDiffs.find(cellDiff => cellDiff.wordDiff?.some(c => c.added || c.removed))?.wordDiff
+      : blockDiff.wordDiff;
+    if (wordDiff && wordDiff.some(change => change.added || change.removed)) {
+      return this.getChangeSnippets(wordDiff);
+    }
+
+    // Formatting-only changes show the restyled text and what changed
+    const formatChange = (blockDiff.formatDiff || []).find(
+      (change): change is FormatChange => change.type === 'format-change'
+    );
+    if (formatChange) {
+      return { after: this.truncate(`${formatChange.text} (${describeFormatChange(formatChange)})`) };
+    }
+    if (blockDiff.paragraphFormatChange) {
+      return { after: this.truncate(`${text} (${describeFormatChange({ changes: blockDiff.paragraphFormatChange })})`) };
+    }
+    return { before: origText && this.truncate(origText), after: text && this.truncate(text) };
+  }
+
+  /**
+   * The first changed span of a word diff, with a little unchanged text on
+   * either side
+   */
+  private getChangeSnippets(wordDiff: Change[]): Pick<ChangeEntry, 'before' | 'after'> {
+    const first = wordDiff.findIndex(change => change.added || change.removed);
+    const leading = wordDiff.slice(0, first).map(change => change.value).join('');
+    const context = leading.length > SNIPPET_CONFIG.CONTEXT
+      ? `…${leading.slice(-SNIPPET_CONFIG.CONTEXT)}`
+      : leading;
+
+    let before = context;
+    let after = context;
+    for (const change of wordDiff.slice(first)) {
+      if (!change.added && !change.removed) {
+        const trailing = change.value.length > SNIPPET_CONFIG.CONTEXT
+          ? `${change.value.slice(0, SNIPPET_CONFIG.CONTEXT)}…`
+          : change.value;
+        before += trailing;
+        after += trailing;
+        break;
+      }
+      if (change.removed) before += change.value;
+      if (change.added) after += change.value;
+    }
+
+    return { before: this.truncate(before), after: this.truncate(after) };
+  }
+
+  private truncate(text: string): string {
+    // A split or merge shows its changed paragraph boundary as a pilcrow
+    const shown = text.split(PARAGRAPH_BOUNDARY).join(PARAGRAPH_MARK);
+    return shown.length > SNIPPET_CONFIG.MAX_LENGTH
+      ? `${shown.slice(0, SNIPPET_CONFIG.MAX_LENGTH - 1)}…`
+      : shown;
+  }
+
+  private renderFilters() {
+    const counts = new Map<ChangeCategory, number>();
+    this.entries.forEach(entry => counts.set(entry.category, (counts.get(entry.category) || 0) + 1));
+
+    const filters = (Object.keys(CATEGORY_LABELS) as ChangeCategory[]).map(category => `
+      <label class="change-filter">
+        <input type="checkbox" data-category="${category}"${this.hiddenCategories.has(category) ? '' : ' checked'} />
+        ${CATEGORY_LABELS[category]} <span class="change-filter-count">${counts.get(category) || 0}</span>
+      </label>`).join('');
+
+    let filterBar = this.container.querySelector('.change-filters');
+    if (!filterBar) {
+      filterBar = document.createElement('div');
+      filterBar.className = 'change-filters';
+      this.container.prepend(filterBar);
+    }
+    filterBar.innerHTML = filters;
+  }
+
+  private renderList() {
+    let list = this.container.querySelector('.change-list');
+    if (!list) {
+      list = document.createElement('ol');
+      list.className = 'change-list';
+      this.container.appendChild(list);
+    }
+
+    const visible = this.entries.filter(entry => !this.hiddenCategories.has(entry.category));
+    list.innerHTML = visible.length > 0
+      ? visible.map(entry => this.renderEntry(entry)).join('')
+      : '<li class="change-list-empty">No changes to show</li>';
+  }
+
+  private renderEntry(entry: ChangeEntry): string {
+    const heading = entry.heading
+      ? `<span class="change-heading">${this.escapeHtml(entry.heading)}</span>`
+      : '';
+    const before = entry.before ? `<del>${this.escapeHtml(entry.before)}</del>` : '';
+    const after = entry.after ? `<ins>${this.escapeHtml(entry.after)}</ins>` : '';
+
+    return `<li class="change-entry" data-change-id="${entry.changeId}" tabindex="0">
+      <span class="change-type change-type-${entry.category}">${CATEGORY_LABELS[entry.category]}</span>${heading}
+      <div class="change-snippet">${before}${after}</div>
+    </li>`;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
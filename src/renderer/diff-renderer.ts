@@ -1,13 +1,141 @@
 // Diff Renderer - Renders redlined comparison with highlighting
 
-import type { DocumentDiff, BlockDiff, GroupedChange, PhraseReplacement } from '../types/diff.types';
-import type { TextFormatting, SectionProperties } from '../types/ast.types';
+import {
+  PARAGRAPH_BOUNDARY,
+  PARAGRAPH_MARK,
+  type ChangeState,
+  type DocumentDiff,
+  type BlockDiff,
+  type CellDiff,
+  type FormatChange,
+  type GroupedChange,
+  type PhraseReplacement,
+  type StoryDiff,
+  type TokenEdit
+} from '../types/diff.types';
+import type { Change } from 'diff';
+import type { Block, Revision, TableCell, TextRun, TextFormatting, SectionProperties } from '../types/ast.types';
+import { ScrollSync } from './scroll-sync';
+
+/**
+ * How the comparison is laid out: one redlined pane, original and current
+ * side by side, or a single clean side
+ */
+export type ViewMode = 'redline' | 'split' | 'original' | 'current';
+
+type Side = 'original' | 'current';
+
+/**
+ * Both sides of a block diff in the side-by-side view
+ */
+interface SideHtml {
+  original: string;
+  current: string;
+}
+
+/**
+ * Section label of a story, e.g. "Header (first page)" or "Footer, section 2"
+ */
+export function getStoryLabel(storyDiff: StoryDiff): string {
+  switch (storyDiff.type) {
+    case 'footnotes':
+      return 'Footnotes';
+    case 'endnotes':
+      return 'Endnotes';
+    default: {
+      let label = storyDiff.type === 'header' ? 'Header' : 'Footer';
+      if (storyDiff.variant === 'first') label += ' (first page)';
+      if (storyDiff.variant === 'even') label += ' (even pages)';
+      if (storyDiff.section && storyDiff.section > 1) label += `, section ${storyDiff.section}`;
+      return label;
+    }
+  }
+}
+
+/**
+ * Tooltip text for a format change, e.g. "bold: off → on, color: none → FF0000"
+ */
+export function describeFormatChange(fc: Pick<FormatChange, 'changes'>): string {
+  const describeValue = (value: unknown) => {
+    if (value === undefined || value === null) return 'none';
+    if (value === true) return 'on';
+    if (value === false) return 'off';
+    return String(value);
+  };
+
+  return Object.entries(fc.changes)
+    .map(([key, { from, to }]) => `${key}: ${describeValue(from)} → ${describeValue(to)}`)
+    .join(', ');
+}
+
+/**
+ * Split block diffs into single blocks and runs of consecutive rows of the
+ * same table, which are laid out as one table
+ */
+export function groupTableRows(blockDiffs: BlockDiff[]): (BlockDiff | BlockDiff[])[] {
+  const segments: (BlockDiff | BlockDiff[])[] = [];
+
+  let tableRows: BlockDiff[] = [];
+  let tableIds: { original?: string; current?: string } = {};
+  const flushTable = () => {
+    if (tableRows.length > 0) {
+      segments.push(tableRows);
+    }
+    tableRows = [];
+    tableIds = {};
+  };
+
+  blockDiffs.forEach((blockDiff) => {
+    if ((blockDiff.currentBlock ?? blockDiff.originalBlock)?.type !== 'table-row') {
+      flushTable();
+      segments.push(blockDiff);
+      return;
+    }
+
+    const { original, current } = getTableIds(blockDiff);
+    if ((original && tableIds.original && original !== tableIds.original) ||
+        (current && tableIds.current && current !== tableIds.current)) {
+      flushTable();
+    }
+    tableIds = { original: original ?? tableIds.original, current: current ?? tableIds.current };
+    tableRows.push(blockDiff);
+  });
+  flushTable();
+
+  return segments;
+}
+
+/**
+ * Ids of the tables a row diff belongs to, on the sides it is shown from
+ */
+function getTableIds(blockDiff: BlockDiff): { original?: string; current?: string } {
+  switch (blockDiff.type) {
+    case 'insert':
+      return { current: blockDiff.currentBlock!.tableId };
+    case 'delete':
+      return { original: blockDiff.originalBlock!.tableId };
+    case 'move':
+      return blockDiff.move!.role === 'from'
+        ? { original: blockDiff.originalBlock!.tableId }
+        : { current: blockDiff.currentBlock!.tableId };
+    default:
+      return { original: blockDiff.originalBlock?.tableId, current: blockDiff.currentBlock?.tableId };
+  }
+}
 
 export class DiffRenderer {
   private redlinedPane: HTMLElement;
+  private originalPane: HTMLElement | null;
+  private currentPane: HTMLElement | null;
   private changeElements: HTMLElement[] = [];
+  private showRenumbering = false;
+  private viewMode: ViewMode = 'redline';
+  // Rows pair the two sides of the side-by-side view; see alignRows()
+  private rowCount = 0;
+  private changeStates: ReadonlyMap<string, ChangeState> = new Map();
+  private actionCallback: ((changeId: string, state: ChangeState) => void) | null = null;
 
-  constructor(redlinedPaneId: string) {
+  constructor(redlinedPaneId: string, originalPaneId?: string, currentPaneId?: string) {
     const pane = document.getElementById(redlinedPaneId);
 
     if (!pane) {
@@ -15,23 +143,279 @@ export class DiffRenderer {
     }
 
     this.redlinedPane = pane;
+    this.originalPane = originalPaneId ? document.getElementById(originalPaneId) : null;
+    this.currentPane = currentPaneId ? document.getElementById(currentPaneId) : null;
+
+    if (this.originalPane && this.currentPane) {
+      new ScrollSync([this.originalPane, this.currentPane]);
+      this.setupSideListeners(this.originalPane, this.currentPane);
+    }
+
+    for (const target of [this.redlinedPane, this.originalPane, this.currentPane]) {
+      target?.addEventListener('click', (e) => this.handleActionClick(e));
+    }
+  }
+
+  /**
+   * Report a click on a change's accept or reject button. Clicking the
+   * button of the decision already made sets the change back to pending.
+   */
+  private handleActionClick(event: Event) {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('.change-action');
+    const changeId = button?.closest<HTMLElement>('[data-change-id]')?.dataset.changeId;
+    if (!button || !changeId) return;
+
+    const action = button.dataset.action as ChangeState;
+    this.actionCallback?.(changeId, this.changeStates.get(changeId) === action ? 'pending' : action);
+  }
+
+  /**
+   * Called when a change's accept or reject button is clicked
+   */
+  onChangeAction(callback: (changeId: string, state: ChangeState) => void) {
+    this.actionCallback = callback;
+  }
+
+  /**
+   * Show the review decision of each change. Kept across renders.
+   */
+  setChangeStates(states: ReadonlyMap<string, ChangeState>): void {
+    this.changeStates = states;
+    this.applyChangeStates();
+  }
+
+  private applyChangeStates() {
+    for (const pane of [this.redlinedPane, this.originalPane, this.currentPane]) {
+      pane?.querySelectorAll<HTMLElement>('[data-change-id]').forEach(el => {
+        const state = this.changeStates.get(el.dataset.changeId!) ?? 'pending';
+        el.classList.toggle('change-accepted', state === 'accepted');
+        el.classList.toggle('change-rejected', state === 'rejected');
+        el.querySelectorAll<HTMLButtonElement>('.change-action').forEach(button => {
+          button.setAttribute('aria-pressed', String(button.dataset.action === state));
+        });
+      });
+    }
+  }
+
+  /**
+   * Add accept and reject buttons to the element navigated to for each
+   * change; table rows carry them in their last cell. The glyphs come from
+   * CSS so the buttons add nothing to the block's text.
+   */
+  private addChangeActions() {
+    for (const el of this.changeElements) {
+      const container = el.tagName === 'TR' ? el.lastElementChild : el;
+      container?.insertAdjacentHTML('beforeend', `<span class="change-actions">` +
+        `<button type="button" class="change-action" data-action="accepted" title="Accept change (a)" aria-label="Accept change"></button>` +
+        `<button type="button" class="change-action" data-action="rejected" title="Reject change (r)" aria-label="Reject change"></button>` +
+        `</span>`);
+    }
+    this.applyChangeStates();
+  }
+
+  /**
+   * Keep both halves of a header/footer section open together, and match
+   * row heights again when a section opens or the window is resized
+   */
+  private setupSideListeners(originalPane: HTMLElement, currentPane: HTMLElement) {
+    const mirrorToggle = (event: Event) => {
+      const details = event.target as HTMLDetailsElement;
+      const otherPane = originalPane.contains(details) ? currentPane : originalPane;
+      const partner = otherPane.querySelector<HTMLDetailsElement>(`details[data-story="${details.dataset.story}"]`);
+      if (partner && partner.open !== details.open) {
+        partner.open = details.open;
+      }
+      this.alignRows();
+    };
+
+    // toggle does not bubble, so listen while it is captured
+    originalPane.addEventListener('toggle', mirrorToggle, true);
+    currentPane.addEventListener('toggle', mirrorToggle, true);
+    window.addEventListener('resize', () => this.alignRows());
+  }
+
+  /**
+   * Choose the layout used by render()
+   */
+  setViewMode(mode: ViewMode): void {
+    if (mode !== 'redline' && (!this.originalPane || !this.currentPane)) {
+      throw new Error('Side-by-side panes not found');
+    }
+    this.viewMode = mode;
+  }
+
+  getViewMode(): ViewMode {
+    return this.viewMode;
+  }
+
+  /**
+   * Render the diff in the current view mode and show only its panes
+   */
+  render(diff: DocumentDiff) {
+    if (this.viewMode === 'redline') {
+      this.renderRedlined(diff);
+    } else {
+      this.renderSideBySide(diff);
+    }
+    this.showPanes();
+  }
+
+  /**
+   * Show renumbering diffs (shifted clause numbers and cross-references)
+   * instead of rendering them as unchanged text. Applies from the next render.
+   */
+  setShowRenumbering(show: boolean): void {
+    this.showRenumbering = show;
   }
 
   renderRedlined(diff: DocumentDiff) {
     this.changeElements = [];
-    const blocks: string[] = [];
-
-    diff.blockDiffs.forEach((blockDiff) => {
-      blocks.push(this.renderRedlinedBlock(blockDiff));
-    });
 
     // Apply column styling if document has multiple columns
     this.applyColumnStyling(this.redlinedPane, diff.sectionProperties);
 
-    this.redlinedPane.innerHTML = blocks.join('');
-    this.collectChangeElements();
+    this.redlinedPane.innerHTML = this.getRedlinedHtml(diff);
+    this.collectChangeElements([this.redlinedPane]);
+    this.addChangeActions();
+  }
+
+  /**
+   * Redlined markup of a diff without review buttons, as shown in the
+   * redline pane
+   */
+  getRedlinedHtml(diff: DocumentDiff): string {
+    const blocks = [this.renderBlockDiffs(diff.blockDiffs)];
+
+    // Headers, footers and notes with content follow the body in their own sections
+    (diff.storyDiffs || [])
+      .filter(storyDiff => storyDiff.blockDiffs.length > 0)
+      .forEach(storyDiff => blocks.push(this.renderStory(storyDiff)));
+
+    return blocks.join('');
+  }
+
+  /**
+   * Render the original and current sides into their panes. Every block
+   * diff is one row on both sides, with a spacer on the side that has no
+   * block, so paired blocks line up once row heights are matched.
+   */
+  renderSideBySide(diff: DocumentDiff) {
+    const originalPane = this.originalPane;
+    const currentPane = this.currentPane;
+    if (!originalPane || !currentPane) {
+      throw new Error('Side-by-side panes not found');
+    }
+
+    this.rowCount = 0;
+    const body = this.renderSideBlockDiffs(diff.blockDiffs);
+    const original = [body.original];
+    const current = [body.current];
+
+    (diff.storyDiffs || [])
+      .filter(storyDiff => storyDiff.blockDiffs.length > 0)
+      .forEach(storyDiff => {
+        const story = this.renderSideBlockDiffs(storyDiff.blockDiffs);
+        original.push(this.renderStorySection(storyDiff, story.original));
+        current.push(this.renderStorySection(storyDiff, story.current));
+      });
+
+    originalPane.innerHTML = original.join('');
+    currentPane.innerHTML = current.join('');
+
+    // The current side carries a change in split view unless it only exists on the original side
+    const panes = this.viewMode === 'original' ? [originalPane]
+      : this.viewMode === 'current' ? [currentPane]
+      : [currentPane, originalPane];
+    this.collectChangeElements(panes);
+    this.addChangeActions();
+  }
+
+  /**
+   * Show the panes of the current view mode. Single-side views hide the
+   * spacers, which only make sense next to the other side.
+   */
+  private showPanes() {
+    const visible = this.viewMode === 'redline' ? [this.redlinedPane]
+      : this.viewMode === 'split' ? [this.originalPane, this.currentPane]
+      : [this.viewMode === 'original' ? this.originalPane : this.currentPane];
+
+    for (const pane of [this.redlinedPane, this.originalPane, this.currentPane]) {
+      if (!pane) continue;
+      const container = pane.closest<HTMLElement>('.pane') ?? pane;
+      container.hidden = !visible.includes(pane);
+      pane.classList.toggle('pane-single', this.viewMode !== 'split');
+    }
+
+    this.alignRows();
   }
 
+  /**
+   * Give both halves of each row the height of the taller one. Heights are
+   * reset first so rows can shrink again after a resize. Call again once
+   * hidden panes become visible, since hidden rows measure zero.
+   */
+  alignRows() {
+    if (!this.originalPane || !this.currentPane) return;
+
+    const rows = (pane: HTMLElement) => new Map(
+      Array.from(pane.querySelectorAll<HTMLElement>('[data-row]')).map(el => [el.dataset.row!, el])
+    );
+    const originalRows = rows(this.originalPane);
+    const currentRows = rows(this.currentPane);
+    // Table rows ignore min-height; their height already acts as a minimum
+    const setHeight = (el: HTMLElement, height: string) => {
+      if (el.tagName === 'TR') {
+        el.style.height = height;
+      } else {
+        el.style.minHeight = height;
+      }
+    };
+
+    [...originalRows.values(), ...currentRows.values()].forEach(el => setHeight(el, ''));
+    if (this.viewMode !== 'split') return;
+
+    originalRows.forEach((originalRow, key) => {
+      const currentRow = currentRows.get(key);
+      if (!currentRow) return;
+      const height = `${Math.max(originalRow.offsetHeight, currentRow.offsetHeight)}px`;
+      setHeight(originalRow, height);
+      setHeight(currentRow, height);
+    });
+  }
+
+  private renderBlockDiffs(blockDiffs: BlockDiff[]): string {
+    return groupTableRows(blockDiffs)
+      .map(segment => Array.isArray(segment) ? this.renderTable(segment) : this.renderRedlinedBlock(segment))
+      .join('');
+  }
+
+  private renderSideBlockDiffs(blockDiffs: BlockDiff[]): SideHtml {
+    const segments = groupTableRows(blockDiffs)
+      .map(segment => Array.isArray(segment) ? this.renderSideTable(segment) : this.renderSideRow(segment));
+    return {
+      original: segments.map(segment => segment.original).join(''),
+      current: segments.map(segment => segment.current).join('')
+    };
+  }
+
+  private renderStory(storyDiff: StoryDiff): string {
+    return this.renderStorySection(storyDiff, this.renderBlockDiffs(storyDiff.blockDiffs));
+  }
+
+  /**
+   * Render a header, footer or notes story as a collapsible section. Stories
+   * with changes start expanded.
+   */
+  private renderStorySection(storyDiff: StoryDiff, content: string): string {
+    const count = storyDiff.changeCount;
+    const summary = count > 0 ? `${count} change${count === 1 ? '' : 's'}` : 'No changes';
+    return `<details class="story-section story-${storyDiff.type}" data-story="${storyDiff.key}"${count > 0 ? ' open' : ''}>
+      <summary class="story-summary">${this.escapeHtml(getStoryLabel(storyDiff))} <span class="story-count">${summary}</span></summary>
+      <div class="story-content">${content}</div>
+    </details>`;
+  }
+
+
   private applyColumnStyling(pane: HTMLElement, sectionProperties?: SectionProperties) {
     if (sectionProperties?.columnCount && sectionProperties.columnCount > 1) {
       // Convert twips to pixels (1 twip = 1/1440 inch, assume 96 DPI)
@@ -64,6 +448,21 @@ export class DiffRenderer {
         // Show merged block with inline changes
         return this.renderRedlinedModifiedBlock(blockDiff, changeClass);
 
+      case 'move':
+        // Show linked moved-from / moved-to markers
+        return this.renderMovedBlock(blockDiff, changeClass);
+
+      case 'split':
+      case 'merge':
+        // Show one block with a pilcrow where the paragraph boundary changed
+        return this.renderSplitMergeBlock(blockDiff, changeClass);
+
+      case 'renumbering':
+        // Muted inline changes when shown, otherwise the current text as is
+        return this.showRenumbering
+          ? this.renderRedlinedModifiedBlock(blockDiff, '', 'block-renumbering')
+          : this.renderBlock(blockDiff.currentBlock!, 'unchanged', '');
+
       case 'unchanged':
         // Show unchanged block normally
         return this.renderBlock(blockDiff.currentBlock!, 'unchanged', '');
@@ -73,6 +472,323 @@ export class DiffRenderer {
     }
   }
 
+  private renderTable(rowDiffs: BlockDiff[]): string {
+    // Grid width, used by rows that are shown as a single spanning cell
+    const gridWidth = Math.max(1, ...rowDiffs.flatMap(rowDiff =>
+      [rowDiff.originalBlock, rowDiff.currentBlock].map(block =>
+        (block?.cells || []).reduce((width, cell) => width + cell.gridSpan, 0)
+      )
+    ));
+
+    const rows = rowDiffs.map(rowDiff => this.renderTableRow(rowDiff, gridWidth)).join('');
+    return `<table class="block block-table"><tbody>${rows}</tbody></table>`;
+  }
+
+  /**
+   * Render a row diff as a <tr>. Modified rows with cell diffs show each
+   * cell's changes in place; inserted and deleted columns are highlighted.
+   */
+  private renderTableRow(blockDiff: BlockDiff, gridWidth: number): string {
+    const changeClass = blockDiff.changeId ? ` data-change-id="${blockDiff.changeId}"` : '';
+
+    switch (blockDiff.type) {
+      case 'insert':
+        return this.renderPlainRow(blockDiff.currentBlock!, 'block-inserted', changeClass, gridWidth);
+
+      case 'delete':
+        return this.renderPlainRow(blockDiff.originalBlock!, 'block-deleted', changeClass, gridWidth);
+
+      case 'unchanged':
+        return this.renderPlainRow(blockDiff.currentBlock!, 'block-unchanged', '', gridWidth);
+
+      case 'modify':
+        if (blockDiff.cellDiffs) {
+          const cells = blockDiff.cellDiffs
+            .map(cellDiff => this.renderCellDiff(cellDiff, blockDiff.originalBlock!, blockDiff.currentBlock!))
+            .join('');
+          return `<tr class="block-row block-modified"${changeClass}>${cells}</tr>`;
+        }
+        break;
+    }
+
+    // Moved rows, and modified rows without cells, keep their block rendering
+    return `<tr class="block-row"><td colspan="${gridWidth}">${this.renderRedlinedBlock(blockDiff)}</td></tr>`;
+  }
+
+  private renderPlainRow(block: Block, rowClass: string, changeClass: string, gridWidth: number): string {
+    const cells = block.cells
+      ? block.cells.map(cell => this.renderCell(cell, this.renderRuns(cell.runs, cell.text))).join('')
+      : `<td colspan="${gridWidth}">${this.renderRuns(block.runs, block.text)}</td>`;
+    return `<tr class="block-row ${rowClass}"${changeClass}>${cells}</tr>`;
+  }
+
+  private renderCellDiff(cellDiff: CellDiff, origRow: Block, row: Block): string {
+    switch (cellDiff.type) {
+      case 'insert': {
+        const cell = cellDiff.currentCell!;
+        return this.renderCell(cell, `<span class="diff-insert">${this.renderRuns(cell.runs, cell.text)}</span>`, 'cell-inserted');
+      }
+      case 'delete': {
+        const cell = cellDiff.originalCell!;
+        return this.renderCell(cell, `<span class="diff-delete">${this.renderRuns(cell.runs, cell.text)}</span>`, 'cell-deleted');
+      }
+      case 'modify': {
+        const changes = cellDiff.groupedDiff || cellDiff.wordDiff || [];
+        const formatChanges = (cellDiff.formatDiff || []).filter(
+          (change): change is FormatChange => change.type === 'format-change'
+        );
+        const origBlock = this.getCellBlock(origRow, cellDiff.originalCell!);
+        const block = this.getCellBlock(row, cellDiff.currentCell!);
+        return this.renderCell(cellDiff.currentCell!, this.renderInlineChanges(changes, origBlock, block, formatChanges), 'cell-modified');
+      }
+      default: {
+        const cell = cellDiff.currentCell!;
+        return this.renderCell(cell, this.renderRuns(cell.runs, cell.text));
+      }
+    }
+  }
+
+  private renderCell(cell: TableCell, content: string, cellClass = ''): string {
+    const classes = [cellClass, cell.vMerge === 'continue' ? 'cell-merged' : ''].filter(Boolean).join(' ');
+    const classAttr = classes ? ` class="${classes}"` : '';
+    const span = cell.gridSpan > 1 ? ` colspan="${cell.gridSpan}"` : '';
+    return `<td${classAttr}${span}>${content}</td>`;
+  }
+
+  /**
+   * A cell viewed as a block of its row, so inline changes render the same way
+   */
+  private getCellBlock(row: Block, cell: TableCell): Block {
+    return { ...row, text: cell.text, runs: cell.runs, cells: undefined };
+  }
+
+  /**
+   * One row of the side-by-side view: both sides tagged with the same row
+   */
+  private renderSideRow(blockDiff: BlockDiff): SideHtml {
+    const row = this.rowCount++;
+    const sides = this.renderSideBlocks(blockDiff);
+    return {
+      original: this.withRow(sides.original, row),
+      current: this.withRow(sides.current, row)
+    };
+  }
+
+  /**
+   * The original side keeps deletions, the current side insertions. A side
+   * without a block gets a spacer of the other block's paragraph type.
+   */
+  private renderSideBlocks(blockDiff: BlockDiff): SideHtml {
+    const changeClass = blockDiff.changeId ? ` data-change-id="${blockDiff.changeId}"` : '';
+    const origBlock = blockDiff.originalBlock;
+    const block = blockDiff.currentBlock;
+
+    switch (blockDiff.type) {
+      case 'insert':
+        return { original: this.renderSpacer(block!), current: this.renderBlock(block!, 'inserted', changeClass) };
+
+      case 'delete':
+        return { original: this.renderBlock(origBlock!, 'deleted', changeClass), current: this.renderSpacer(origBlock!) };
+
+      case 'move': {
+        const moved = this.renderMovedBlock(blockDiff, changeClass);
+        return blockDiff.move!.role === 'from'
+          ? { original: moved, current: this.renderSpacer(origBlock!) }
+          : { original: this.renderSpacer(block!), current: moved };
+      }
+
+      case 'split':
+      case 'merge': {
+        const group = (blocks: Block[], attrs: string) =>
+          `<div class="block-group block-${blockDiff.type}"${attrs}>${blocks.map(b => this.renderBlock(b, 'unchanged', '')).join('')}</div>`;
+        return {
+          original: group(blockDiff.originalBlocks || [origBlock!], changeClass),
+          current: group(blockDiff.currentBlocks || [block!], changeClass)
+        };
+      }
+
+      case 'modify':
+        return {
+          original: this.renderSideModifiedBlock(blockDiff, 'original', changeClass),
+          current: this.renderSideModifiedBlock(blockDiff, 'current', changeClass)
+        };
+
+      case 'renumbering':
+        if (this.showRenumbering) {
+          return {
+            original: this.renderSideModifiedBlock(blockDiff, 'original', ''),
+            current: this.renderSideModifiedBlock(blockDiff, 'current', '')
+          };
+        }
+        break;
+    }
+
+    return {
+      original: this.renderBlock(origBlock!, 'unchanged', ''),
+      current: this.renderBlock(block!, 'unchanged', '')
+    };
+  }
+
+  private renderSideModifiedBlock(blockDiff: BlockDiff, side: Side, changeClass: string): string {
+    const origBlock = blockDiff.originalBlock!;
+    const block = blockDiff.currentBlock!;
+    const shown = side === 'original' ? origBlock : block;
+    const blockClass = blockDiff.type === 'renumbering' ? 'block-renumbering' : 'block-modified';
+    const inlineChanges = blockDiff.groupedDiff || blockDiff.wordDiff;
+    if (!inlineChanges) {
+      return this.renderBlock(shown, 'unchanged', changeClass);
+    }
+    const changes = this.getSideChanges(inlineChanges, side);
+
+    const labelChange = blockDiff.listLabelChange;
+    const label = this.renderListLabel(shown, labelChange && (side === 'original' ? { from: labelChange.from } : { to: labelChange.to }));
+
+    const content = side === 'original'
+      ? this.renderInlineChanges(changes, origBlock, origBlock)
+      : this.renderInlineChanges(changes, origBlock, block, (blockDiff.formatDiff || []).filter(
+        (change): change is FormatChange => change.type === 'format-change'
+      ));
+
+    const formatAttrs = side === 'current' ? this.getParagraphFormatAttrs(blockDiff) : '';
+    return `<div class="block ${blockClass} para-${shown.type}${formatAttrs}"${changeClass}>${label}${content}</div>`;
+  }
+
+  /**
+   * Class and tooltip outlining a paragraph whose style or alignment
+   * changed, appended to the block's class attribute
+   */
+  private getParagraphFormatAttrs(blockDiff: BlockDiff): string {
+    if (!blockDiff.paragraphFormatChange) {
+      return '';
+    }
+    const tooltip = this.escapeHtml(describeFormatChange({ changes: blockDiff.paragraphFormatChange })).replace(/"/g, '&quot;');
+    return ` diff-format-change" title="${tooltip}`;
+  }
+
+  /**
+   * Reduce inline changes to one side: phrase replacements and token edits
+   * become a plain deletion or insertion of their whole text
+   */
+  private getSideChanges(changes: GroupedChange[], side: Side): Change[] {
+    return changes.flatMap((change): Change[] => {
+      if (this.isPhraseReplacement(change) || this.isTokenEdit(change)) {
+        return side === 'original'
+          ? [{ value: change.deletedText, removed: true, added: false, count: 1 }]
+          : [{ value: change.insertedText, added: true, removed: false, count: 1 }];
+      }
+      if (change.added) return side === 'current' ? [change] : [];
+      if (change.removed) return side === 'original' ? [change] : [];
+      return [change];
+    });
+  }
+
+  /**
+   * Both sides of a run of table rows, each as its own <table>
+   */
+  private renderSideTable(rowDiffs: BlockDiff[]): SideHtml {
+    const gridWidth = (side: Side) => Math.max(1, ...rowDiffs.map(rowDiff =>
+      (this.getSideBlock(rowDiff, side)?.cells || []).reduce((width, cell) => width + cell.gridSpan, 0)
+    ));
+    const widths = { original: gridWidth('original'), current: gridWidth('current') };
+    const rows = rowDiffs.map(rowDiff => this.renderSideTableRow(rowDiff, widths));
+
+    const table = (side: Side) =>
+      `<table class="block block-table"><tbody>${rows.map(row => row[side]).join('')}</tbody></table>`;
+    return { original: table('original'), current: table('current') };
+  }
+
+  private renderSideTableRow(blockDiff: BlockDiff, widths: { original: number; current: number }): SideHtml {
+    const row = this.rowCount++;
+    const changeClass = blockDiff.changeId ? ` data-change-id="${blockDiff.changeId}"` : '';
+    const origBlock = blockDiff.originalBlock;
+    const block = blockDiff.currentBlock;
+    const spacer = (side: Side) => `<tr class="block-row side-spacer"><td colspan="${widths[side]}"></td></tr>`;
+
+    let sides: SideHtml;
+    if (blockDiff.type === 'insert') {
+      sides = { original: spacer('original'), current: this.renderPlainRow(block!, 'block-inserted', changeClass, widths.current) };
+    } else if (blockDiff.type === 'delete') {
+      sides = { original: this.renderPlainRow(origBlock!, 'block-deleted', changeClass, widths.original), current: spacer('current') };
+    } else if (blockDiff.type === 'unchanged') {
+      sides = {
+        original: this.renderPlainRow(origBlock!, 'block-unchanged', '', widths.original),
+        current: this.renderPlainRow(block!, 'block-unchanged', '', widths.current)
+      };
+    } else if (blockDiff.type === 'modify' && blockDiff.cellDiffs) {
+      const cells = (side: Side) => blockDiff.cellDiffs!
+        .map(cellDiff => this.renderSideCell(cellDiff, side, origBlock!, block!))
+        .join('');
+      sides = {
+        original: `<tr class="block-row block-modified"${changeClass}>${cells('original')}</tr>`,
+        current: `<tr class="block-row block-modified"${changeClass}>${cells('current')}</tr>`
+      };
+    } else {
+      // Moved rows, and modified rows without cells, keep their block rendering
+      const blocks = this.renderSideBlocks(blockDiff);
+      sides = {
+        original: `<tr class="block-row"><td colspan="${widths.original}">${blocks.original}</td></tr>`,
+        current: `<tr class="block-row"><td colspan="${widths.current}">${blocks.current}</td></tr>`
+      };
+    }
+
+    return { original: this.withRow(sides.original, row), current: this.withRow(sides.current, row) };
+  }
+
+  /**
+   * A cell on one side; cells of inserted or deleted columns only exist on one side
+   */
+  private renderSideCell(cellDiff: CellDiff, side: Side, origRow: Block, row: Block): string {
+    const cell = side === 'original' ? cellDiff.originalCell : cellDiff.currentCell;
+    if (!cell) {
+      return '';
+    }
+
+    switch (cellDiff.type) {
+      case 'insert':
+        return this.renderCell(cell, `<span class="diff-insert">${this.renderRuns(cell.runs, cell.text)}</span>`, 'cell-inserted');
+      case 'delete':
+        return this.renderCell(cell, `<span class="diff-delete">${this.renderRuns(cell.runs, cell.text)}</span>`, 'cell-deleted');
+      case 'modify': {
+        const changes = this.getSideChanges(cellDiff.groupedDiff || cellDiff.wordDiff || [], side);
+        const origBlock = this.getCellBlock(origRow, cellDiff.originalCell!);
+        const content = side === 'original'
+          ? this.renderInlineChanges(changes, origBlock, origBlock)
+          : this.renderInlineChanges(changes, origBlock, this.getCellBlock(row, cell));
+        return this.renderCell(cell, content, 'cell-modified');
+      }
+      default:
+        return this.renderCell(cell, this.renderRuns(cell.runs, cell.text));
+    }
+  }
+
+  /**
+   * The block a diff shows on one side; inserted and moved-to blocks have
+   * no original side, deleted and moved-from blocks no current side
+   */
+  private getSideBlock(blockDiff: BlockDiff, side: Side): Block | undefined {
+    if (side === 'original') {
+      return blockDiff.type === 'insert' || blockDiff.move?.role === 'to' ? undefined : blockDiff.originalBlock;
+    }
+    return blockDiff.type === 'delete' || blockDiff.move?.role === 'from' ? undefined : blockDiff.currentBlock;
+  }
+
+  private renderSpacer(block: Block): string {
+    return `<div class="block side-spacer para-${block.type}"></div>`;
+  }
+
+  /**
+   * Tag the outer element of a rendered row with its row number
+   */
+  private withRow(html: string, row: number): string {
+    return html.replace(/^\s*<(\w+)/, (_, tag: string) => `<${tag} data-row="${row}"`);
+  }
+
+  private renderRuns(runs: TextRun[], text: string): string {
+    return runs && runs.length > 0
+      ? runs.map(run => this.renderFormattedText(run.text, run.formatting)).join('')
+      : this.escapeHtml(text);
+  }
+
   private renderBlock(block: any, state: 'inserted' | 'deleted' | 'unchanged', changeClass: string): string {
     // Special handling for page breaks
     if (block.type === 'page-break') {
@@ -92,9 +808,11 @@ export class DiffRenderer {
 
     const typeClass = `para-${block.type}`;
 
-    // Render runs with their formatting
+    // Render runs with their formatting; prior tracked changes take the block formatting
     let content = '';
-    if (block.runs && block.runs.length > 0) {
+    if (block.revisions?.length) {
+      content = this.renderUnchangedText(block.text, 0, block, []);
+    } else if (block.runs && block.runs.length > 0) {
       content = block.runs.map((run: any) =>
         this.renderFormattedText(run.text, run.formatting)
       ).join('');
@@ -102,10 +820,23 @@ export class DiffRenderer {
       content = this.escapeHtml(block.text);
     }
 
-    return `<div class="block ${blockClass} ${typeClass}"${changeClass}>${content}</div>`;
+    return `<div class="block ${blockClass} ${typeClass}"${changeClass}>${this.renderListLabel(block)}${content}</div>`;
   }
 
-  private renderRedlinedModifiedBlock(blockDiff: BlockDiff, changeClass: string): string {
+  /**
+   * The list number in front of a numbered paragraph. A changed number
+   * (compareListLabels) shows the old label deleted and the new one inserted.
+   */
+  private renderListLabel(block: Block, change?: BlockDiff['listLabelChange']): string {
+    if (change) {
+      const from = change.from ? `<span class="diff-delete">${this.escapeHtml(change.from)}</span>` : '';
+      const to = change.to ? `<span class="diff-insert">${this.escapeHtml(change.to)}</span>` : '';
+      return `<span class="list-label">${from}${to}</span>`;
+    }
+    return block.listLabel ? `<span class="list-label">${this.escapeHtml(block.listLabel)}</span>` : '';
+  }
+
+  private renderRedlinedModifiedBlock(blockDiff: BlockDiff, changeClass: string, blockClass = 'block-modified'): string {
     // Prefer groupedDiff if available, fall back to wordDiff
     const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
     if (!changes) {
@@ -115,9 +846,80 @@ export class DiffRenderer {
     const block = blockDiff.currentBlock!;
     const origBlock = blockDiff.originalBlock!;
     const typeClass = `para-${block.type}`;
-    let html = `<div class="block block-modified ${typeClass}"${changeClass}>`;
+    let html = `<div class="block ${blockClass} ${typeClass}${this.getParagraphFormatAttrs(blockDiff)}"${changeClass}>`;
+    html += this.renderListLabel(block, blockDiff.listLabelChange);
+
+    // Render changes with formatting preserved, outlining run formatting changes
+    const formatChanges = (blockDiff.formatDiff || []).filter(
+      (change): change is FormatChange => change.type === 'format-change'
+    );
+    html += this.renderInlineChanges(changes, origBlock, block, formatChanges);
+
+    html += '</div>';
+    return html;
+  }
+
+  /**
+   * Render a moved block at either end of the move. The marker links to the
+   * other half; the destination also shows edits made to the moved text.
+   */
+  private renderMovedBlock(blockDiff: BlockDiff, changeClass: string): string {
+    const move = blockDiff.move!;
+    const isSource = move.role === 'from';
+    const block = isSource ? blockDiff.originalBlock! : blockDiff.currentBlock!;
+    const partnerId = `${move.moveId}-${isSource ? 'to' : 'from'}`;
+    const label = isSource ? '⤵ Moved to' : '⤴ Moved from';
+
+    let content: string;
+    const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
+    if (!isSource && changes) {
+      content = this.renderInlineChanges(changes, blockDiff.originalBlock!, block);
+    } else if (block.runs && block.runs.length > 0) {
+      content = block.runs.map(run => this.renderFormattedText(run.text, run.formatting)).join('');
+    } else {
+      content = this.escapeHtml(block.text);
+    }
+
+    const marker = `<a class="move-marker" href="#${partnerId}" data-move-target="${partnerId}">${label}</a>`;
+    return `<div class="block block-moved-${move.role} para-${block.type}" id="${move.moveId}-${move.role}" data-move-id="${move.moveId}"${changeClass}>${marker}${this.renderListLabel(block)}${content}</div>`;
+  }
+
+  /**
+   * Render a split or merge as a single block. The word diff runs across the
+   * joined paragraphs, so the added or removed paragraph boundary shows up as
+   * an inserted or deleted pilcrow.
+   */
+  private renderSplitMergeBlock(blockDiff: BlockDiff, changeClass: string): string {
+    const changes = blockDiff.groupedDiff || blockDiff.wordDiff || [];
+    const block = blockDiff.currentBlock!;
+    const title = blockDiff.type === 'split' ? 'Paragraph split' : 'Paragraphs merged';
+
+    const html = this.renderInlineChanges(changes, blockDiff.originalBlock!, block)
+      .split(PARAGRAPH_BOUNDARY)
+      .join(`<span class="pilcrow-marker" title="${title}">${PARAGRAPH_MARK}</span>`);
+
+    return `<div class="block block-${blockDiff.type} para-${block.type}"${changeClass}>${this.renderListLabel(block)}${html}</div>`;
+  }
+
+  /**
+   * Render word-level or grouped changes inline with formatting preserved
+   */
+  private renderInlineChanges(
+    changes: GroupedChange[],
+    origBlock: Block,
+    block: Block,
+    formatChanges: FormatChange[] = []
+  ): string {
+    let html = '';
+    // Position in the current block text, used to place format changes
+    let cursor = 0;
+    const advance = (piece: string) => {
+      const index = block.text.indexOf(piece, cursor);
+      const start = index >= 0 ? index : cursor;
+      cursor = index >= 0 ? index + piece.length : cursor;
+      return start;
+    };
 
-    // Render changes with formatting preserved
     for (const change of changes) {
       if (this.isPhraseReplacement(change)) {
         // Render phrase replacement: deleted text followed by inserted text
@@ -125,6 +927,10 @@ export class DiffRenderer {
         const insertedFormatted = this.renderFormattedText(change.insertedText, block.formatting);
         html += `<span class="diff-delete">${deletedFormatted}</span>`;
         html += `<span class="diff-insert">${insertedFormatted}</span>`;
+        advance(change.insertedText);
+      } else if (this.isTokenEdit(change)) {
+        html += this.renderTokenEdit(change, origBlock, block);
+        advance(change.insertedText);
       } else if (change.removed) {
         // Apply original block formatting to deleted text
         const formattedText = this.renderFormattedText(change.value, origBlock.formatting);
@@ -133,16 +939,128 @@ export class DiffRenderer {
         // Apply current block formatting to inserted text
         const formattedText = this.renderFormattedText(change.value, block.formatting);
         html += `<span class="diff-insert">${formattedText}</span>`;
+        advance(change.value);
       } else {
         // Unchanged text - apply current block formatting
-        html += this.renderFormattedText(change.value, block.formatting);
+        const start = advance(change.value);
+        html += this.renderUnchangedText(change.value, start, block, formatChanges);
       }
     }
 
-    html += '</div>';
     return html;
   }
 
+  /**
+   * Render unchanged text, overlaying the tracked changes the document
+   * already held (see Revision) on top of any format changes
+   */
+  private renderUnchangedText(text: string, start: number, block: Block, formatChanges: FormatChange[]): string {
+    const revisions = block.revisions || [];
+    if (revisions.length === 0) {
+      return this.renderFormatChanges(text, start, block, formatChanges);
+    }
+
+    const end = start + text.length;
+    // A deletion at the very end of the block belongs to the last piece
+    const ownsDeletion = (offset: number) => offset >= start && (offset < end || offset === block.text.length);
+    const inserts = revisions.filter(r => r.type === 'insert' && r.offset < end && r.offset + r.text.length > start);
+    const cuts = new Set([start, end]);
+    for (const r of inserts) {
+      cuts.add(Math.max(r.offset, start));
+      cuts.add(Math.min(r.offset + r.text.length, end));
+    }
+    for (const r of revisions) {
+      if (r.type === 'delete' && ownsDeletion(r.offset)) cuts.add(r.offset);
+    }
+    const points = Array.from(cuts).sort((a, b) => a - b);
+
+    let html = '';
+    points.forEach((from, i) => {
+      html += revisions
+        .filter(r => r.type === 'delete' && r.offset === from && ownsDeletion(from))
+        .map(r => this.renderPriorRevision(r, this.escapeHtml(r.text)))
+        .join('');
+
+      const to = points[i + 1];
+      if (to === undefined || to === from) return;
+      const piece = this.renderFormatChanges(text.slice(from - start, to - start), from, block, formatChanges);
+      const insert = inserts.find(r => r.offset <= from && r.offset + r.text.length >= to);
+      html += insert ? this.renderPriorRevision(insert, piece) : piece;
+    });
+
+    return html;
+  }
+
+  /**
+   * Mark text inserted or deleted by an earlier tracked change
+   */
+  private renderPriorRevision(revision: Revision, content: string): string {
+    const action = revision.type === 'insert' ? 'Inserted' : 'Deleted';
+    const by = revision.author ? ` by ${revision.author}` : '';
+    const on = revision.date ? `, ${revision.date.slice(0, 10)}` : '';
+    const title = this.escapeHtml(`${action}${by}${on} (existing tracked change)`).replace(/"/g, '&quot;');
+    return `<span class="prior-${revision.type}" title="${title}">${content}</span>`;
+  }
+
+  /**
+   * Render unchanged text, outlining the spans whose run formatting changed
+   */
+  private renderFormatChanges(text: string, start: number, block: Block, formatChanges: FormatChange[]): string {
+    const end = start + text.length;
+    const overlapping = formatChanges
+      .filter(fc => fc.currentOffset < end && fc.currentOffset + fc.text.length > start)
+      .sort((a, b) => a.currentOffset - b.currentOffset);
+
+    if (overlapping.length === 0) {
+      return this.renderFormattedText(text, block.formatting);
+    }
+
+    let html = '';
+    let pos = 0;
+    for (const fc of overlapping) {
+      const from = Math.max(fc.currentOffset - start, pos);
+      const to = Math.min(fc.currentOffset + fc.text.length - start, text.length);
+      if (from > pos) {
+        html += this.renderFormattedText(text.slice(pos, from), block.formatting);
+      }
+      const tooltip = this.escapeHtml(describeFormatChange(fc)).replace(/"/g, '&quot;');
+      html += `<span class="diff-format-change" title="${tooltip}">${this.renderFormattedText(text.slice(from, to), fc.to)}</span>`;
+      pos = to;
+    }
+    if (pos < text.length) {
+      html += this.renderFormattedText(text.slice(pos), block.formatting);
+    }
+
+    return html;
+  }
+
+
+  /**
+   * Render a character-level token edit: the kept characters stay plain and
+   * only the changed characters are emphasised as deleted or inserted.
+   */
+  private renderTokenEdit(change: TokenEdit, origBlock: Block, block: Block): string {
+    const title = `${change.deletedText.trim()} → ${change.insertedText.trim()}`;
+    const parts = change.parts.map(part => {
+      if (part.removed) {
+        return `<span class="diff-delete diff-char">${this.renderFormattedText(part.value, origBlock.formatting)}</span>`;
+      }
+      if (part.added) {
+        return `<span class="diff-insert diff-char">${this.renderFormattedText(part.value, block.formatting)}</span>`;
+      }
+      return this.renderFormattedText(part.value, block.formatting);
+    }).join('');
+
+    return `<span class="diff-token-edit" title="${this.escapeHtml(title).replace(/"/g, '&quot;')}">${parts}</span>`;
+  }
+
+  /**
+   * Type guard to check if a change is a TokenEdit
+   */
+  private isTokenEdit(change: GroupedChange): change is TokenEdit {
+    return 'type' in change && change.type === 'token-edit';
+  }
+
   /**
    * Type guard to check if a change is a PhraseReplacement
    */
@@ -189,10 +1107,26 @@ export class DiffRenderer {
     return div.innerHTML;
   }
 
-  private collectChangeElements() {
-    this.changeElements = Array.from(
-      this.redlinedPane.querySelectorAll('[data-change-id]')
-    ) as HTMLElement[];
+  /**
+   * Collect one element per change, in row order. Both sides of the
+   * side-by-side view carry the change id; the first pane given wins.
+   */
+  private collectChangeElements(panes: HTMLElement[]) {
+    const byId = new Map<string, HTMLElement>();
+    for (const pane of panes) {
+      pane.querySelectorAll<HTMLElement>('[data-change-id]').forEach(el => {
+        const changeId = el.dataset.changeId!;
+        if (!byId.has(changeId)) {
+          byId.set(changeId, el);
+        }
+      });
+    }
+
+    const rowOf = (el: HTMLElement) => parseInt(el.closest<HTMLElement>('[data-row]')?.dataset.row ?? '0', 10);
+    this.changeElements = Array.from(byId.values());
+    if (panes.length > 1) {
+      this.changeElements.sort((a, b) => rowOf(a) - rowOf(b));
+    }
   }
 
   getChangeElements(): HTMLElement[] {
@@ -0,0 +1,30 @@
+// Scroll Sync - Keeps the side-by-side panes scrolled to the same position
+
+export class ScrollSync {
+  private panes: HTMLElement[];
+  // Pane whose scroll is being mirrored; echoes from the other panes are ignored
+  private source: HTMLElement | null = null;
+
+  constructor(panes: HTMLElement[]) {
+    this.panes = panes;
+    this.panes.forEach(pane => {
+      pane.addEventListener('scroll', () => this.handleScroll(pane));
+    });
+  }
+
+  private handleScroll(pane: HTMLElement) {
+    if (this.source && this.source !== pane) {
+      return;
+    }
+
+    this.source = pane;
+    for (const other of this.panes) {
+      if (other !== pane && other.scrollTop !== pane.scrollTop) {
+        other.scrollTop = pane.scrollTop;
+      }
+    }
+    requestAnimationFrame(() => {
+      this.source = null;
+    });
+  }
+}
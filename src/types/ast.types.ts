@@ -9,6 +9,16 @@ export interface TextFormatting {
   fontSize?: number;
 }
 
+/**
+ * Direct paragraph properties compared as paragraph formatting
+ */
+export interface ParagraphFormatting {
+  /** Paragraph style id (w:pStyle) */
+  style?: string;
+  /** Paragraph alignment (w:jc), e.g. 'center' or 'both' */
+  alignment?: string;
+}
+
 export interface SectionProperties {
   columnCount?: number;
   columnSpace?: number; // Space between columns in twips (1/20 of a point)
@@ -19,16 +29,75 @@ export interface TextRun {
   formatting: TextFormatting;
 }
 
+/**
+ * A tracked change already present in a source document, kept when parsing
+ * with revisionMode 'preserve'. Offsets index block.text, which reads as if
+ * every revision were accepted: inserted text spans [offset, offset +
+ * text.length), deleted text is not part of block.text and stood at offset.
+ */
+export interface Revision {
+  type: 'insert' | 'delete';
+  text: string;
+  offset: number;
+  author?: string;
+  date?: string;
+}
+
+/**
+ * A table cell. Text is normalized like block text; merged cells keep the
+ * OOXML model, so a row holds one cell per w:tc, not one per grid column.
+ */
+export interface TableCell {
+  text: string;
+  runs: TextRun[];
+  /** Number of grid columns the cell spans (w:gridSpan, default 1) */
+  gridSpan: number;
+  /** Vertical merge (w:vMerge): 'continue' cells are covered by the cell above */
+  vMerge?: 'restart' | 'continue';
+}
+
 export interface Block {
   id: string;
-  type: 'paragraph' | 'heading1' | 'heading2' | 'heading3' | 'table' | 'table-row' | 'page-break';
+  type: 'paragraph' | 'heading1' | 'heading2' | 'heading3' | 'list-item' | 'table' | 'table-row' | 'page-break';
   text: string;
   runs: TextRun[];
   formatting: TextFormatting;
+  /** Paragraph style and alignment, when set on the paragraph */
+  paragraphFormatting?: ParagraphFormatting;
   /** For table-row blocks, links rows belonging to the same table */
   tableId?: string;
   /** For table-row blocks, the row index within the table (0-based) */
   rowIndex?: number;
+  /** For table-row blocks, the row's cells in order; text joins them with ' | ' */
+  cells?: TableCell[];
+  /** Prior tracked changes in paragraph text (revisionMode 'preserve') */
+  revisions?: Revision[];
+  /** Automatic list number as the reader sees it, e.g. "3.2(b)" or "•" */
+  listLabel?: string;
+  /** List level (w:ilvl), 0 for the outermost */
+  listLevel?: number;
+  /** For footnote and endnote blocks, the w:id of the note holding the paragraph */
+  noteId?: string;
+}
+
+export type StoryType = 'header' | 'footer' | 'footnotes' | 'endnotes';
+
+/**
+ * Content outside the main body: a header or footer part, or all footnotes
+ * or endnotes. Stories are paired across documents by key and diffed on
+ * their own.
+ */
+export interface Story {
+  /** Stable key, e.g. 'header-default-1' or 'footnotes' */
+  key: string;
+  type: StoryType;
+  /** Header/footer reference type from w:sectPr; unset for notes */
+  variant?: 'default' | 'first' | 'even';
+  /** 1-based section number for headers and footers */
+  section?: number;
+  /** Package part the story was read from, e.g. 'word/header1.xml' */
+  part: string;
+  blocks: Block[];
 }
 
 export interface DocumentAST {
@@ -40,4 +109,6 @@ export interface DocumentAST {
   };
   blocks: Block[];
   sectionProperties?: SectionProperties;
+  /** Headers, footers, footnotes and endnotes, headers and footers first */
+  stories?: Story[];
 }
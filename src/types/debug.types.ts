@@ -1,9 +1,12 @@
 // Debug type definitions for diff engine diagnostics
 
+import type { DiffOptions } from './diff.types';
+
 export interface DebugReport {
   timestamp: string;
   originalFile: string;
   currentFile: string;
+  diffOptions: DiffOptions;
   parsing: ParsingDebug;
   alignment: AlignmentDebug;
   diffs: BlockDiffDebug[];
@@ -28,13 +31,16 @@ export interface AlignmentDebug {
   fuzzyMatches: number;
   deletions: number;
   insertions: number;
+  moves: number;
+  splits: number;
+  merges: number;
   decisions: AlignmentDecision[];
 }
 
 export interface AlignmentDecision {
   originalIndex: number | null;
   currentIndex: number | null;
-  matchType: 'exact' | 'fuzzy' | 'delete' | 'insert';
+  matchType: 'exact' | 'fuzzy' | 'delete' | 'insert' | 'move' | 'split' | 'merge';
   similarityScore?: number;
   reason: string;
   originalPreview?: string;
@@ -43,7 +49,8 @@ export interface AlignmentDecision {
 
 export interface BlockDiffDebug {
   changeId?: string;
-  type: 'unchanged' | 'insert' | 'delete' | 'modify';
+  type: 'unchanged' | 'insert' | 'delete' | 'modify' | 'move' | 'split' | 'merge' | 'renumbering';
+  moveId?: string;
   originalText?: string;
   currentText?: string;
   wordDiffSummary?: {
@@ -1,9 +1,28 @@
 // Diff type definitions
 
-import type { Block, TextFormatting, SectionProperties } from './ast.types';
+import type { Block, Story, TableCell, TextFormatting, SectionProperties } from './ast.types';
 import type { Change } from 'diff';
 
-export type DiffType = 'insert' | 'delete' | 'modify' | 'unchanged';
+export type DiffType = 'insert' | 'delete' | 'modify' | 'unchanged' | 'move' | 'split' | 'merge' | 'renumbering';
+
+/**
+ * Review decision on a change. Accepted changes are exported as applied,
+ * rejected ones as reverted and pending ones as tracked changes.
+ */
+export type ChangeState = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Token standing for a paragraph boundary in the word diff of 'split' and
+ * 'merge' diffs. An added boundary is a split point, a removed one a merge
+ * point. It is a control character that XML text cannot hold, so it never
+ * collides with the text of a document.
+ */
+export const PARAGRAPH_BOUNDARY = '\u001E';
+
+/**
+ * Pilcrow that views show in place of a paragraph boundary
+ */
+export const PARAGRAPH_MARK = '¶';
 
 /**
  * Represents a phrase-level replacement where multiple consecutive word changes
@@ -16,16 +35,34 @@ export interface PhraseReplacement {
 }
 
 /**
- * A change that can be either an individual word change or a grouped phrase replacement.
+ * A single short token (number, date or near-identical word) edited in
+ * place. `parts` is the character-level diff from deletedText to insertedText.
+ */
+export interface TokenEdit {
+  type: 'token-edit';
+  deletedText: string;
+  insertedText: string;
+  parts: Change[];
+}
+
+/**
+ * A change that can be an individual word change, a grouped phrase replacement
+ * or a character-level token edit.
  */
-export type GroupedChange = Change | PhraseReplacement;
+export type GroupedChange = Change | PhraseReplacement | TokenEdit;
 
+/**
+ * A span of unchanged text whose run formatting differs between documents.
+ * Offsets locate the span in originalBlock.text and currentBlock.text.
+ */
 export interface FormatChange {
   type: 'format-change';
   text: string;
   from: TextFormatting;
   to: TextFormatting;
   changes: Record<string, { from: any; to: any }>;
+  originalOffset: number;
+  currentOffset: number;
 }
 
 export interface TextChange {
@@ -36,6 +73,46 @@ export interface TextChange {
 
 export type DiffChange = FormatChange | TextChange;
 
+/**
+ * Links the two halves of a relocated block. The 'from' half sits at the
+ * block's old position in the diff, the 'to' half at its new position.
+ */
+export interface MoveInfo {
+  moveId: string;
+  role: 'from' | 'to';
+  /** Index of the block in the original document */
+  sourceIndex: number;
+  /** Index of the block in the current document */
+  destinationIndex: number;
+}
+
+/**
+ * One cell of a modified table row. 'insert' and 'delete' cells belong to
+ * columns that were added or removed; the indexes are cell positions in
+ * the row's `cells`.
+ */
+export interface CellDiff {
+  type: 'insert' | 'delete' | 'modify' | 'unchanged';
+  originalCell?: TableCell;
+  currentCell?: TableCell;
+  originalIndex?: number;
+  currentIndex?: number;
+  wordDiff?: Change[];
+  groupedDiff?: GroupedChange[];
+  formatDiff?: DiffChange[];
+}
+
+/**
+ * Column changes between a pair of matched tables. Columns are grid
+ * column indexes in their own table.
+ */
+export interface TableDiff {
+  originalTableId: string;
+  currentTableId: string;
+  insertedColumns: number[];
+  deletedColumns: number[];
+}
+
 export interface BlockDiff {
   type: DiffType;
   originalBlock?: Block;
@@ -44,10 +121,64 @@ export interface BlockDiff {
   groupedDiff?: GroupedChange[];  // Grouped changes for better display
   formatDiff?: DiffChange[];
   changeId?: string;
+  /** Set on 'move' diffs; wordDiff is only present on the 'to' half */
+  move?: MoveInfo;
+  /** Set on 'split'/'merge' diffs: every original block in the correspondence */
+  originalBlocks?: Block[];
+  /** Set on 'split'/'merge' diffs: every current block in the correspondence */
+  currentBlocks?: Block[];
+  /** Set on modified table rows whose blocks carry cells */
+  cellDiffs?: CellDiff[];
+  /** Set when compareListLabels is on and the list number changed */
+  listLabelChange?: { from?: string; to?: string };
+  /** Set on modified paragraphs whose style or alignment changed */
+  paragraphFormatChange?: Record<string, { from: any; to: any }>;
+}
+
+/**
+ * Diff of a header, footer or notes story. Part names locate the story in
+ * each package; one is missing when the story exists on one side only.
+ */
+export interface StoryDiff {
+  key: string;
+  type: Story['type'];
+  variant?: Story['variant'];
+  section?: number;
+  originalPart?: string;
+  currentPart?: string;
+  blockDiffs: BlockDiff[];
+  tableDiffs?: TableDiff[];
+  /** Number of change ids assigned within the story */
+  changeCount: number;
 }
 
 export interface DocumentDiff {
   blockDiffs: BlockDiff[];
   totalChanges: number;
+  /** Matched tables whose column structure changed */
+  tableDiffs?: TableDiff[];
+  /** Headers, footers and notes, diffed separately from the body */
+  storyDiffs?: StoryDiff[];
   sectionProperties?: SectionProperties;
 }
+
+/**
+ * Comparison settings for DiffEngine. Text options only affect matching;
+ * rendered and exported text always comes from the documents themselves.
+ */
+export interface DiffOptions {
+  /** Treat upper and lower case as equal (default: false) */
+  ignoreCase: boolean;
+  /** Ignore edits that only add or remove punctuation (default: false) */
+  ignorePunctuation: boolean;
+  /** Treat smart and straight quotes, and dash variants, as equal (default: false) */
+  normalizeQuotesAndDashes: boolean;
+  /** Do not report formatting-only changes (default: false) */
+  ignoreFormatting: boolean;
+  /** Minimum word overlap (0-1) for pairing a modified block (default: 0.5) */
+  fuzzyThreshold: number;
+  /** Share of changed words (0-1) that turns a span into a phrase replacement (default: 0.6) */
+  groupingDensity: number;
+  /** Report changed list numbers ("3.2" -> "3.3") as changes (default: false) */
+  compareListLabels: boolean;
+}
@@ -1,7 +1,7 @@
 // Debug Export - Generate and download debug reports
 
 import type { DocumentAST, Block } from '../types/ast.types';
-import type { DocumentDiff, BlockDiff } from '../types/diff.types';
+import { PARAGRAPH_MARK, type DocumentDiff, type BlockDiff, type DiffOptions } from '../types/diff.types';
 import type {
   DebugReport,
   ParsingDebug,
@@ -21,12 +21,14 @@ export class DebugExporter {
     diff: DocumentDiff,
     alignmentDecisions: AlignmentDecision[],
     originalFileName: string,
-    currentFileName: string
+    currentFileName: string,
+    diffOptions: DiffOptions
   ): DebugReport {
     return {
       timestamp: new Date().toISOString(),
       originalFile: originalFileName,
       currentFile: currentFileName,
+      diffOptions,
       parsing: this.generateParsingDebug(originalAST, currentAST),
       alignment: this.generateAlignmentDebug(alignmentDecisions),
       diffs: this.generateDiffDebug(diff)
@@ -81,6 +83,9 @@ export class DebugExporter {
     let fuzzyMatches = 0;
     let deletions = 0;
     let insertions = 0;
+    let moves = 0;
+    let splits = 0;
+    let merges = 0;
 
     for (const decision of decisions) {
       switch (decision.matchType) {
@@ -96,6 +101,15 @@ export class DebugExporter {
         case 'insert':
           insertions++;
           break;
+        case 'move':
+          moves++;
+          break;
+        case 'split':
+          splits++;
+          break;
+        case 'merge':
+          merges++;
+          break;
       }
     }
 
@@ -104,6 +118,9 @@ export class DebugExporter {
       fuzzyMatches,
       deletions,
       insertions,
+      moves,
+      splits,
+      merges,
       decisions
     };
   }
@@ -124,11 +141,19 @@ export class DebugExporter {
       changeId: blockDiff.changeId
     };
 
-    if (blockDiff.originalBlock) {
-      debug.originalText = blockDiff.originalBlock.text;
+    if (blockDiff.move) {
+      debug.moveId = blockDiff.move.moveId;
+    }
+
+    // Split/merge diffs span several blocks on one side
+    const originalBlocks = blockDiff.originalBlocks || (blockDiff.originalBlock ? [blockDiff.originalBlock] : []);
+    const currentBlocks = blockDiff.currentBlocks || (blockDiff.currentBlock ? [blockDiff.currentBlock] : []);
+
+    if (originalBlocks.length > 0) {
+      debug.originalText = originalBlocks.map(b => b.text).join(` ${PARAGRAPH_MARK} `);
     }
-    if (blockDiff.currentBlock) {
-      debug.currentText = blockDiff.currentBlock.text;
+    if (currentBlocks.length > 0) {
+      debug.currentText = currentBlocks.map(b => b.text).join(` ${PARAGRAPH_MARK} `);
     }
 
     // Calculate word diff summary if word diff is available
@@ -2,8 +2,21 @@
 // Preserves all original formatting (columns, fonts, styles, images, headers/footers)
 
 import JSZip from 'jszip';
-import type { DocumentDiff, BlockDiff, GroupedChange, PhraseReplacement } from '../types/diff.types';
-import type { Block } from '../types/ast.types';
+import type { Change } from 'diff';
+import {
+  PARAGRAPH_BOUNDARY,
+  type ChangeState,
+  type DiffType,
+  type DocumentDiff,
+  type BlockDiff,
+  type GroupedChange,
+  type PhraseReplacement,
+  type StoryDiff,
+  type TokenEdit
+} from '../types/diff.types';
+import type { Block, TableCell, TextRun } from '../types/ast.types';
+import { reverseDiff, reverseDiffType } from '../diff/diff-reversal';
+import { ParagraphCursor, copyElement } from './paragraph-cursor';
 
 // XML namespaces used in DOCX
 const NS = {
@@ -11,7 +24,50 @@ const NS = {
   r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
   mc: 'http://schemas.openxmlformats.org/markup-compatibility/2006',
   w14: 'http://schemas.microsoft.com/office/word/2010/wordml',
-  w15: 'http://schemas.microsoft.com/office/word/2012/wordml'
+  w15: 'http://schemas.microsoft.com/office/word/2012/wordml',
+  w16cid: 'http://schemas.microsoft.com/office/word/2016/wordml/cid'
+};
+
+const DOCUMENT_RELS_PATH = 'word/_rels/document.xml.rels';
+
+// Relationship types of the comment parts that new comments are merged into
+const COMMENT_PART_TYPES = {
+  comments: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments',
+  commentsExtended: 'http://schemas.microsoft.com/office/2011/relationships/commentsExtended',
+  commentsIds: 'http://schemas.microsoft.com/office/2016/09/relationships/commentsIds'
+};
+
+type CommentPartType = keyof typeof COMMENT_PART_TYPES;
+
+// Elements whose children are body-level paragraphs and tables
+const STORY_CONTAINERS = new Set(['w:body', 'w:hdr', 'w:ftr', 'w:footnote', 'w:endnote']);
+
+// Schema order of the w:rPr children the exporter sets on existing runs
+const RUN_PROPERTY_ORDER = [
+  'w:rStyle', 'w:rFonts', 'w:b', 'w:bCs', 'w:i', 'w:iCs', 'w:caps', 'w:smallCaps', 'w:strike',
+  'w:dstrike', 'w:outline', 'w:shadow', 'w:emboss', 'w:imprint', 'w:noProof', 'w:snapToGrid',
+  'w:vanish', 'w:webHidden', 'w:color', 'w:spacing', 'w:w', 'w:kern', 'w:position', 'w:sz',
+  'w:szCs', 'w:highlight', 'w:u', 'w:effect', 'w:bdr', 'w:shd', 'w:fitText', 'w:vertAlign',
+  'w:rtl', 'w:cs', 'w:em', 'w:lang', 'w:eastAsianLayout', 'w:specVanish', 'w:oMath', 'w:rPrChange'
+];
+
+// Schema order of the w:pPr children, for the same purpose
+const PARAGRAPH_PROPERTY_ORDER = [
+  'w:pStyle', 'w:keepNext', 'w:keepLines', 'w:pageBreakBefore', 'w:framePr', 'w:widowControl',
+  'w:numPr', 'w:suppressLineNumbers', 'w:pBdr', 'w:shd', 'w:tabs', 'w:suppressAutoHyphens',
+  'w:kinsoku', 'w:wordWrap', 'w:overflowPunct', 'w:topLinePunct', 'w:autoSpaceDE', 'w:autoSpaceDN',
+  'w:bidi', 'w:adjustRightInd', 'w:snapToGrid', 'w:spacing', 'w:ind', 'w:contextualSpacing',
+  'w:mirrorIndents', 'w:suppressOverlap', 'w:jc', 'w:textDirection', 'w:textAlignment',
+  'w:textboxTightWrap', 'w:outlineLvl', 'w:divId', 'w:cnfStyle', 'w:rPr', 'w:sectPr', 'w:pPrChange'
+];
+
+// Width in twips shared by the columns of a re-created table (6.25in)
+const TABLE_WIDTH = 9000;
+
+// Paragraph formatting keys and the w:pPr elements holding them
+const PARAGRAPH_FORMAT_PROPERTIES: Record<string, string> = {
+  style: 'w:pStyle',
+  alignment: 'w:jc'
 };
 
 export interface ExportOptions {
@@ -19,11 +75,70 @@ export interface ExportOptions {
   includeComments: boolean;
   /** Include inline formatting (highlight/strikethrough) for changes (default: true) */
   includeInlineFormatting: boolean;
+  /** Emit insertions as w:ins revisions instead of highlighted plain runs (default: false) */
+  trackInsertions: boolean;
+  /** Review decision per change id; changes without one stay tracked (default: none) */
+  changeStates: ReadonlyMap<string, ChangeState>;
+  /** Author of revisions and comments; empty uses the default (default: 'Document Comparison') */
+  author: string;
+  /**
+   * Date of revisions and comments, e.g. the current document's modified
+   * date; an invalid date uses the default (default: export time)
+   */
+  revisionDate?: Date;
+  /**
+   * Comment text, with placeholders {description}, {type}, {heading},
+   * {wordsAdded} and {wordsRemoved}; empty uses the default (default: '{description}')
+   */
+  commentTemplate: string;
+  /**
+   * Document the redline is built on, keeping its formatting and template.
+   * With 'original' the exported file must be the original document, and
+   * insertions are always tracked (default: 'current')
+   */
+  baseDocument: 'current' | 'original';
 }
 
 const DEFAULT_OPTIONS: ExportOptions = {
   includeComments: true,
-  includeInlineFormatting: true
+  includeInlineFormatting: true,
+  trackInsertions: false,
+  changeStates: new Map(),
+  author: 'Document Comparison',
+  commentTemplate: '{description}',
+  baseDocument: 'current'
+};
+
+// A redline built on the original exports the reversed diff; its revisions
+// stand for the opposite ones of the real change
+const REVERSED_REVISIONS: Record<string, string> = {
+  'w:ins': 'w:del',
+  'w:del': 'w:ins',
+  'w:moveFrom': 'w:moveTo',
+  'w:moveTo': 'w:moveFrom',
+  'w:moveFromRangeStart': 'w:moveToRangeStart',
+  'w:moveToRangeStart': 'w:moveFromRangeStart',
+  'w:moveFromRangeEnd': 'w:moveToRangeEnd',
+  'w:moveToRangeEnd': 'w:moveFromRangeEnd'
+};
+
+// Review decisions on the reversed diff: the original already holds rejected changes
+const REVERSED_STATES: Record<ChangeState, ChangeState> = {
+  pending: 'pending',
+  accepted: 'rejected',
+  rejected: 'accepted'
+};
+
+// Change type names for the {type} comment placeholder
+const CHANGE_TYPE_LABELS: Record<DiffType, string> = {
+  insert: 'Insertion',
+  delete: 'Deletion',
+  modify: 'Modification',
+  unchanged: '',
+  move: 'Move',
+  split: 'Split',
+  merge: 'Merge',
+  renumbering: 'Renumbering'
 };
 
 interface CommentData {
@@ -31,26 +146,64 @@ interface CommentData {
   text: string;
 }
 
+/**
+ * The change being exported, for filling in comment templates
+ */
+interface CommentContext {
+  blockDiff: BlockDiff;
+  /** Text of the closest heading at or before the change */
+  heading: string;
+}
+
+/**
+ * A comment part already in the current document
+ */
+interface CommentPart {
+  path: string;
+  xml: Document;
+}
+
 export class DocxInPlaceExporter {
   private zip: JSZip | null = null;
   private documentXml: Document | null = null;
   private comments: CommentData[] = [];
   private nextCommentId = 0;
+  private commentContext: CommentContext | null = null;
+  /** Comment parts of the current document, kept so new comments are appended */
+  private commentParts = new Map<CommentPartType, CommentPart>();
   private nextRevisionId = 0;
-  private author = 'Document Comparison';
+  private author = DEFAULT_OPTIONS.author;
   private date = new Date().toISOString();
   private options: ExportOptions = DEFAULT_OPTIONS;
+  /** Grid positions already added to each table for restored cells */
+  private addedGridColumns = new Map<Element, Set<number>>();
+  /** Container of the part being processed: w:body, a header/footer root or a note */
+  private storyRoot: Element | null = null;
+  /** False while processing headers and footers, which cannot hold comments */
+  private commentsAllowed = true;
+  /** True when the redline is built on the original from the reversed diff */
+  private reversed = false;
 
+  /**
+   * Export a redline of `diff` built on `fileBuffer`, which holds the
+   * document named by the baseDocument option
+   */
   async export(
     diff: DocumentDiff,
-    currentFileBuffer: ArrayBuffer,
+    fileBuffer: ArrayBuffer,
     originalFileName: string,
     options: Partial<ExportOptions> = {}
   ): Promise<void> {
     // Merge provided options with defaults
     this.options = { ...DEFAULT_OPTIONS, ...options };
-    // Load the current DOCX file
-    this.zip = await JSZip.loadAsync(currentFileBuffer);
+    this.reversed = this.options.baseDocument === 'original';
+    if (this.reversed) {
+      // Deleted text stays in the original, so it must be a tracked revision
+      this.options.trackInsertions = true;
+      diff = reverseDiff(diff);
+    }
+    // Load the DOCX file the redline is built on
+    this.zip = await JSZip.loadAsync(fileBuffer);
 
     // Parse document.xml
     const documentXmlString = await this.zip.file('word/document.xml')?.async('string');
@@ -59,26 +212,29 @@ export class DocxInPlaceExporter {
     }
 
     const parser = new DOMParser();
-    this.documentXml = parser.parseFromString(documentXmlString, 'application/xml');
+    const documentXml = parser.parseFromString(documentXmlString, 'application/xml');
 
     // Reset state
     this.comments = [];
     this.nextCommentId = 0;
     this.nextRevisionId = 0;
-    this.date = new Date().toISOString();
-
-    // Get all paragraphs from the document
-    const paragraphs = Array.from(this.documentXml.getElementsByTagName('w:p'));
-
-    // Get all table rows from the document
-    const tableRows = Array.from(this.documentXml.getElementsByTagName('w:tr'));
+    this.addedGridColumns.clear();
+    this.author = this.options.author || DEFAULT_OPTIONS.author;
+    const revisionDate = this.options.revisionDate;
+    this.date = (revisionDate && !isNaN(revisionDate.getTime()) ? revisionDate : new Date()).toISOString();
+    await this.loadCommentParts();
 
     // Process each block diff
-    this.processBlockDiffs(diff.blockDiffs, paragraphs, tableRows);
+    this.processPart(documentXml, documentXml.getElementsByTagName('w:body')[0] || null, diff.blockDiffs);
+
+    // Track header, footer and note changes in their own parts
+    for (const storyDiff of diff.storyDiffs || []) {
+      await this.processStory(storyDiff);
+    }
 
     // Update the document XML
     const serializer = new XMLSerializer();
-    const updatedDocumentXml = serializer.serializeToString(this.documentXml);
+    const updatedDocumentXml = serializer.serializeToString(documentXml);
     this.zip.file('word/document.xml', updatedDocumentXml);
 
     // Build and add comments.xml if we have comments
@@ -91,6 +247,77 @@ export class DocxInPlaceExporter {
     this.downloadBlob(blob, `${this.getBaseName(originalFileName)}_redlined.docx`);
   }
 
+  /**
+   * Apply block diffs to one part. `root` receives re-created paragraphs
+   * that have no following paragraph to be inserted before.
+   */
+  private processPart(xml: Document, root: Element | null, blockDiffs: BlockDiff[]): void {
+    this.documentXml = xml;
+    this.storyRoot = root;
+
+    // Get all paragraphs and table rows from the part
+    const paragraphs = Array.from(xml.getElementsByTagName('w:p'));
+    const tableRows = Array.from(xml.getElementsByTagName('w:tr'));
+
+    this.processBlockDiffs(blockDiffs, paragraphs, tableRows);
+    if (this.reversed) {
+      this.matchTextToRevisions(xml);
+    }
+  }
+
+  /**
+   * Give text the element its revision calls for: text of the original
+   * marked as deleted becomes w:delText, re-created insertions use w:t
+   */
+  private matchTextToRevisions(xml: Document): void {
+    const textElements = [...Array.from(xml.getElementsByTagName('w:t')), ...Array.from(xml.getElementsByTagName('w:delText'))];
+    for (const textElement of textElements) {
+      let deleted = false;
+      for (let el = textElement.parentNode; el && el.nodeName !== 'w:p'; el = el.parentNode) {
+        if (['w:ins', 'w:moveTo', 'w:del', 'w:moveFrom'].includes(el.nodeName)) {
+          deleted = el.nodeName === 'w:del' || el.nodeName === 'w:moveFrom';
+          break;
+        }
+      }
+
+      const tagName = deleted ? 'w:delText' : 'w:t';
+      if (textElement.nodeName === tagName) continue;
+      const replacement = xml.createElementNS(NS.w, tagName);
+      Array.from(textElement.attributes).forEach(attr => replacement.setAttribute(attr.name, attr.value));
+      replacement.textContent = textElement.textContent;
+      textElement.parentNode!.replaceChild(replacement, textElement);
+    }
+  }
+
+  /**
+   * Apply a story's changes to its part in the exported package. A story
+   * that only exists in the other document has no part to hold it and is skipped.
+   * Word does not allow comments in headers and footers, so changes there
+   * are tracked without them.
+   */
+  private async processStory(storyDiff: StoryDiff): Promise<void> {
+    if (!storyDiff.currentPart || storyDiff.changeCount === 0) {
+      return;
+    }
+    const partXml = await this.zip!.file(storyDiff.currentPart)?.async('string');
+    if (!partXml) {
+      return;
+    }
+
+    const xml = new DOMParser().parseFromString(partXml, 'application/xml');
+    const isNotes = storyDiff.type === 'footnotes' || storyDiff.type === 'endnotes';
+    // Note paragraphs live inside w:footnote/w:endnote; use the last real note
+    const root = isNotes
+      ? Array.from(xml.documentElement.children).filter(note => !note.getAttribute('w:type')).pop() || null
+      : xml.documentElement;
+
+    this.commentsAllowed = isNotes;
+    this.processPart(xml, root, storyDiff.blockDiffs);
+    this.commentsAllowed = true;
+
+    this.zip!.file(storyDiff.currentPart, new XMLSerializer().serializeToString(xml));
+  }
+
   private processBlockDiffs(blockDiffs: BlockDiff[], paragraphs: Element[], tableRows: Element[]): void {
     // Track which elements have been matched to avoid double-processing
     const matchedParagraphs = new Set<Element>();
@@ -100,10 +327,11 @@ export class DocxInPlaceExporter {
     // This builds a map so we know where to insert deletions
     const blockToParagraph = new Map<BlockDiff, Element>();
     const blockToTableRow = new Map<BlockDiff, Element>();
+    const blockToSplitParagraphs = new Map<BlockDiff, Element[]>();
 
     for (const blockDiff of blockDiffs) {
-      if (blockDiff.type === 'delete') {
-        continue; // Handle deletions in second pass
+      if (blockDiff.type === 'delete' || blockDiff.move?.role === 'from') {
+        continue; // Handle deletions and moved-from blocks in second pass
       }
 
       const block = blockDiff.currentBlock;
@@ -121,6 +349,23 @@ export class DocxInPlaceExporter {
         continue;
       }
 
+      // A split spans several current paragraphs
+      if (blockDiff.type === 'split' && blockDiff.currentBlocks) {
+        const splitParas: Element[] = [];
+        for (const part of blockDiff.currentBlocks) {
+          const matchedPara = this.matchBlockToParagraph(part, paragraphs, matchedParagraphs);
+          if (matchedPara) {
+            matchedParagraphs.add(matchedPara);
+            splitParas.push(matchedPara);
+          }
+        }
+        if (splitParas.length > 0) {
+          blockToParagraph.set(blockDiff, splitParas[0]);
+          blockToSplitParagraphs.set(blockDiff, splitParas);
+        }
+        continue;
+      }
+
       const matchedPara = this.matchBlockToParagraph(block, paragraphs, matchedParagraphs);
       if (matchedPara) {
         matchedParagraphs.add(matchedPara);
@@ -128,13 +373,77 @@ export class DocxInPlaceExporter {
       }
     }
 
+    // Original blocks are re-created before the next located paragraph or
+    // table row, so deletions keep their place around tables
+    const findNextAnchor = (index: number): Element | null => {
+      for (let j = index + 1; j < blockDiffs.length; j++) {
+        const anchor = blockToParagraph.get(blockDiffs[j]) || blockToTableRow.get(blockDiffs[j]);
+        if (anchor) return anchor;
+      }
+      return null;
+    };
+
+    // A note paragraph goes back into the note it came from: before the next
+    // located paragraph of that note, else at the note's end. A note removed
+    // as a whole is re-created, so its text never joins a neighbouring note.
+    const noteElements = new Map<string, Element>();
+    const findDeletionAnchor = (index: number): Element | null => {
+      const noteId = blockDiffs[index].originalBlock!.noteId;
+      if (noteId === undefined) {
+        return this.getBodyAnchor(findNextAnchor(index));
+      }
+      const sameNote = (j: number) =>
+        blockDiffs[j].originalBlock?.noteId === noteId ? blockToParagraph.get(blockDiffs[j]) : undefined;
+
+      let note = noteElements.get(noteId);
+      if (!note) {
+        const located = blockDiffs.map((_, j) => sameNote(j)).find(para => para !== undefined);
+        note = located
+          ? this.getNoteElement(located)!
+          : this.insertRemovedNote(this.getNoteElement(findNextAnchor(index)));
+        noteElements.set(noteId, note);
+      }
+      this.storyRoot = note;
+
+      for (let j = index + 1; j < blockDiffs.length; j++) {
+        const para = sameNote(j);
+        if (para) return para;
+      }
+      return null;
+    };
+
+    // The closest located row of the same original table, in either direction
+    const findTableRow = (index: number, step: 1 | -1): Element | null => {
+      const tableId = blockDiffs[index].originalBlock!.tableId;
+      for (let j = index + step; j >= 0 && j < blockDiffs.length; j += step) {
+        if (blockDiffs[j].originalBlock?.tableId !== tableId) continue;
+        const row = blockToTableRow.get(blockDiffs[j]);
+        if (row) return row;
+      }
+      return null;
+    };
+
     // Second pass: process all blocks in order, inserting deletions at correct positions
+    let heading = '';
     for (let i = 0; i < blockDiffs.length; i++) {
       const blockDiff = blockDiffs[i];
+      const headingBlock = blockDiff.currentBlock || blockDiff.originalBlock;
+      if (headingBlock?.type.startsWith('heading')) {
+        heading = headingBlock.text;
+      }
+      this.commentContext = { blockDiff, heading };
+
+      // Renumbered text already reads correctly in the current document
+      if (blockDiff.type === 'unchanged' || blockDiff.type === 'renumbering') {
+        continue;
+      }
 
-      if (blockDiff.type === 'unchanged') {
+      // The document being marked up already holds accepted changes
+      const state = this.getChangeState(blockDiff);
+      if (state === 'accepted') {
         continue;
       }
+      const tracked = state === 'pending';
 
       if (blockDiff.type === 'delete') {
         const block = blockDiff.originalBlock;
@@ -144,21 +453,43 @@ export class DocxInPlaceExporter {
 
         // Handle table-row deletions differently
         if (block.type === 'table-row') {
-          this.insertDeletedTableRow(block);
+          const row = this.insertDeletedTableRow(block, findTableRow(i, 1), findTableRow(i, -1), findNextAnchor(i), tracked);
+          if (row) {
+            blockToTableRow.set(blockDiff, row);
+          }
+          continue;
+        }
+
+        const anchor = findDeletionAnchor(i);
+        if (tracked) {
+          this.insertDeletedParagraph(block, anchor);
+        } else {
+          this.insertRestoredParagraph(block, anchor);
+        }
+        continue;
+      }
+
+      if (blockDiff.move?.role === 'from') {
+        const block = blockDiff.originalBlock!;
+        if (block.type === 'page-break') {
           continue;
         }
 
-        // Find the next non-deleted block's paragraph to insert before
-        let insertBefore: Element | null = null;
-        for (let j = i + 1; j < blockDiffs.length; j++) {
-          const nextDiff = blockDiffs[j];
-          if (nextDiff.type !== 'delete') {
-            insertBefore = blockToParagraph.get(nextDiff) || null;
-            if (insertBefore) break;
+        // Moved table rows are shown as a plain row deletion
+        if (block.type === 'table-row') {
+          const row = this.insertDeletedTableRow(block, findTableRow(i, 1), findTableRow(i, -1), findNextAnchor(i), tracked);
+          if (row) {
+            blockToTableRow.set(blockDiff, row);
           }
+          continue;
         }
 
-        this.insertDeletedParagraph(block, insertBefore);
+        const anchor = findDeletionAnchor(i);
+        if (tracked) {
+          this.insertMovedFromParagraph(blockDiff, anchor);
+        } else {
+          this.insertRestoredParagraph(block, anchor);
+        }
         continue;
       }
 
@@ -167,9 +498,12 @@ export class DocxInPlaceExporter {
       // Handle table-row blocks
       if (block.type === 'table-row') {
         const matchedRow = blockToTableRow.get(blockDiff);
-        if (matchedRow) {
+        if (matchedRow && !tracked) {
+          this.rejectTableRowChange(matchedRow, blockDiff);
+        } else if (matchedRow) {
           switch (blockDiff.type) {
             case 'insert':
+            case 'move':
               this.markTableRowAsInserted(matchedRow, block);
               break;
             case 'modify':
@@ -186,17 +520,174 @@ export class DocxInPlaceExporter {
         continue;
       }
 
+      if (!tracked) {
+        this.rejectParagraphChange(matchedPara, blockDiff, blockToSplitParagraphs.get(blockDiff));
+        continue;
+      }
+
       switch (blockDiff.type) {
         case 'insert':
           this.markParagraphAsInserted(matchedPara, block);
           break;
         case 'modify':
+          this.applyParagraphFormatChange(matchedPara, blockDiff);
           this.applyWordLevelChanges(matchedPara, blockDiff);
           break;
+        case 'move':
+          this.markParagraphAsMovedTo(matchedPara, blockDiff);
+          break;
+        case 'split':
+          this.applySplitChanges(blockToSplitParagraphs.get(blockDiff)!, blockDiff);
+          break;
+        case 'merge':
+          this.applyMergeChanges(matchedPara, blockDiff);
+          break;
+      }
+    }
+  }
+
+  private getChangeState(blockDiff: BlockDiff): ChangeState {
+    const state = (blockDiff.changeId && this.options.changeStates.get(blockDiff.changeId)) || 'pending';
+    return this.reversed ? REVERSED_STATES[state] : state;
+  }
+
+  /**
+   * Revert a rejected change to a located paragraph of the current document:
+   * inserted and moved-to paragraphs are removed, the others get their
+   * original text and run formatting back without revision marks
+   */
+  private rejectParagraphChange(para: Element, blockDiff: BlockDiff, splitParas?: Element[]): void {
+    switch (blockDiff.type) {
+      case 'insert':
+      case 'move':
+        this.removeParagraph(para);
+        break;
+      case 'modify':
+        this.clearParagraphContent(para);
+        this.appendOriginalRuns(para, blockDiff.originalBlock!.runs);
+        if (blockDiff.paragraphFormatChange) {
+          this.setParagraphFormatting(this.getParagraphProperties(para), blockDiff.paragraphFormatChange, 'from');
+        }
+        break;
+      case 'split':
+        // Join the parts back into the first paragraph
+        (splitParas || [para]).slice(1).forEach(part => this.removeParagraph(part));
+        this.clearParagraphContent(para);
+        this.appendOriginalRuns(para, blockDiff.originalBlock!.runs);
+        break;
+      case 'merge': {
+        // Break the merged paragraph back into the original ones
+        const originals = blockDiff.originalBlocks || [blockDiff.originalBlock!];
+        const pPr = para.getElementsByTagName('w:pPr')[0];
+        for (const original of originals.slice(0, -1)) {
+          const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
+          if (pPr) {
+            const pPrClone = pPr.cloneNode(true) as Element;
+            Array.from(pPrClone.getElementsByTagName('w:sectPr')).forEach(el => el.parentNode?.removeChild(el));
+            newPara.appendChild(pPrClone);
+          }
+          this.appendOriginalRuns(newPara, original.runs);
+          para.parentNode?.insertBefore(newPara, para);
+        }
+        this.clearParagraphContent(para);
+        this.appendOriginalRuns(para, originals[originals.length - 1].runs);
+        break;
       }
     }
   }
 
+  /**
+   * Revert a rejected change to a located table row. Cells of an inserted
+   * column are emptied rather than removed so the table grid stays intact.
+   */
+  private rejectTableRowChange(tr: Element, blockDiff: BlockDiff): void {
+    if (blockDiff.type !== 'modify') {
+      // Inserted and moved-to rows
+      this.removeTableRow(tr);
+      return;
+    }
+
+    const cells = Array.from(tr.children).filter(child => child.tagName === 'w:tc');
+    const cellDiffs = blockDiff.cellDiffs;
+    if (cellDiffs && cells.length === blockDiff.currentBlock!.cells?.length) {
+      cellDiffs.forEach((cellDiff, k) => {
+        switch (cellDiff.type) {
+          case 'modify':
+          case 'insert':
+            this.replaceCellContent(cells[cellDiff.currentIndex!], cellDiff.originalCell?.runs || []);
+            break;
+          case 'delete': {
+            const next = cellDiffs.slice(k + 1).find(later => later.currentIndex !== undefined);
+            const restoredCell = this.createRestoredCell(cellDiff.originalCell!);
+            tr.insertBefore(restoredCell, next ? cells[next.currentIndex!] : null);
+            this.addGridColumn(tr, restoredCell);
+            break;
+          }
+        }
+      });
+      return;
+    }
+
+    // Without cell diffs the cells can only be restored when they line up
+    const originalCells = blockDiff.originalBlock!.cells;
+    if (originalCells?.length === cells.length) {
+      cells.forEach((tc, k) => this.replaceCellContent(tc, originalCells[k].runs));
+    }
+  }
+
+  /**
+   * Rewrite a cell with the given runs, folding its paragraphs into the
+   * first one; cells holding a nested table are left as they are
+   */
+  private replaceCellContent(tc: Element, runs: TextRun[]): void {
+    if (tc.getElementsByTagName('w:tbl').length > 0) {
+      return;
+    }
+
+    const paras = Array.from(tc.children).filter(child => child.tagName === 'w:p');
+    if (paras.length === 0) {
+      return;
+    }
+    paras.slice(1).forEach(para => tc.removeChild(para));
+
+    this.clearParagraphContent(paras[0]);
+    this.appendOriginalRuns(paras[0], runs);
+  }
+
+  /**
+   * Build a w:tc holding the original text of a cell from a column whose
+   * deletion was rejected
+   */
+  private createRestoredCell(cell: TableCell): Element {
+    const tc = this.createDeletedCell({ ...cell, text: '' });
+    this.appendOriginalRuns(tc.getElementsByTagName('w:p')[0], cell.runs);
+    return tc;
+  }
+
+  /**
+   * Remove a paragraph of the current document. A paragraph carrying the
+   * section properties is emptied instead, so the section is kept.
+   */
+  private removeParagraph(para: Element): void {
+    const pPr = Array.from(para.children).find(child => child.tagName === 'w:pPr');
+    if (pPr?.getElementsByTagName('w:sectPr').length) {
+      this.clearParagraphContent(para);
+    } else {
+      para.parentNode?.removeChild(para);
+    }
+  }
+
+  /**
+   * Remove a table row, and its table once no rows are left
+   */
+  private removeTableRow(tr: Element): void {
+    const tbl = tr.parentNode as Element | null;
+    tbl?.removeChild(tr);
+    if (tbl && !Array.from(tbl.children).some(child => child.tagName === 'w:tr')) {
+      tbl.parentNode?.removeChild(tbl);
+    }
+  }
+
   private matchBlockToParagraph(
     block: Block,
     paragraphs: Element[],
@@ -292,7 +783,7 @@ export class DocxInPlaceExporter {
 
   private markTableRowAsInserted(tr: Element, _block: Block): void {
     // Add comment for this insertion
-    const commentId = this.addComment(`Added: New table row`);
+    const commentId = this.addComment(this.byDirection('Added: New table row', 'Removed: Deleted table row'));
 
     // Get all cells in the row
     const cells = tr.getElementsByTagName('w:tc');
@@ -300,6 +791,9 @@ export class DocxInPlaceExporter {
       return;
     }
 
+    // Row-level revision, so Word accepts or rejects the row as a whole
+    this.addRowRevision(tr, this.createRevisionElement('w:ins'));
+
     // Mark the first cell with comment start (if comments enabled)
     if (commentId >= 0) {
       const firstCell = cells[0];
@@ -315,11 +809,7 @@ export class DocxInPlaceExporter {
 
     // Apply insertion formatting to all cells
     for (let i = 0; i < cells.length; i++) {
-      const cell = cells[i];
-      const runs = cell.getElementsByTagName('w:r');
-      for (let j = 0; j < runs.length; j++) {
-        this.applyInsertionFormatting(runs[j]);
-      }
+      this.markContentAsInserted(cells[i]);
     }
 
     // Mark the last cell with comment end (if comments enabled)
@@ -329,7 +819,7 @@ export class DocxInPlaceExporter {
       if (lastPara) {
         const runs = lastPara.getElementsByTagName('w:r');
         if (runs.length > 0) {
-          const lastRun = runs[runs.length - 1];
+          const lastRun = this.getInsertionEnd(runs[runs.length - 1]);
           const commentEnd = this.createCommentRangeEnd(commentId);
           const commentRef = this.createCommentReference(commentId);
           lastRun.parentNode?.insertBefore(commentEnd, lastRun.nextSibling);
@@ -339,170 +829,448 @@ export class DocxInPlaceExporter {
     }
   }
 
-  private insertDeletedTableRow(block: Block): void {
-    // For deleted table rows, we insert them as a deleted paragraph
-    // since inserting into table structure is complex
-    // This is a simplified approach that shows the deletion as text
-    const body = this.documentXml?.getElementsByTagName('w:body')[0];
-    if (!body) return;
-
-    const commentId = this.addComment(`Removed: Deleted table row`);
-
-    // Create a new paragraph with deletion markup
-    const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
-
-    // Add comment range start (if comments enabled)
-    if (commentId >= 0) {
-      newPara.appendChild(this.createCommentRangeStart(commentId));
+  /**
+   * Mark a table row as inserted or deleted with a revision element in its
+   * w:trPr, which is created after any w:tblPrEx when missing
+   */
+  private addRowRevision(tr: Element, revision: Element): void {
+    let trPr = Array.from(tr.children).find(child => child.tagName === 'w:trPr');
+    if (!trPr) {
+      trPr = this.documentXml!.createElementNS(NS.w, 'w:trPr');
+      const tblPrEx = Array.from(tr.children).find(child => child.tagName === 'w:tblPrEx');
+      tr.insertBefore(trPr, tblPrEx ? tblPrEx.nextSibling : tr.firstChild);
     }
+    // Revisions precede a recorded property change (w:trPrChange)
+    const trPrChange = Array.from(trPr.children).find(child => child.tagName === 'w:trPrChange') || null;
+    trPr.insertBefore(revision, trPrChange);
+  }
 
-    // Create del element with the deleted text
-    const delElement = this.createDelElement();
-
-    // Create run with deleted text (prefix with [Table Row] to indicate it was a table)
-    const run = this.createRunWithText(`[Table Row] ${block.text}`, true);
-    delElement.appendChild(run);
-    newPara.appendChild(delElement);
+  /**
+   * Re-create a deleted table row at its original position: before the next
+   * surviving row of its table, or after the previous one when the table
+   * ended there. A row whose whole table is gone starts a new table before
+   * the anchor. Returns the new row.
+   */
+  private insertDeletedTableRow(
+    block: Block,
+    next: Element | null,
+    previous: Element | null,
+    anchor: Element | null,
+    tracked: boolean = true
+  ): Element | null {
+    const body = this.storyRoot;
+    if (!body) return null;
 
-    // Add comment range end and reference (if comments enabled)
-    if (commentId >= 0) {
-      newPara.appendChild(this.createCommentRangeEnd(commentId));
-      newPara.appendChild(this.createCommentReference(commentId));
+    let tbl = (next || previous)?.parentNode as Element | null;
+    if (!tbl) {
+      tbl = this.createTable(block);
+      this.insertBodyParagraph(body, tbl, this.getBodyAnchor(anchor));
     }
 
-    // Insert at end of body (before sectPr if it's a direct child)
-    const sectPr = body.getElementsByTagName('w:sectPr')[0];
-    if (sectPr && sectPr.parentNode === body) {
-      body.insertBefore(newPara, sectPr);
-    } else {
-      body.appendChild(newPara);
-    }
+    // A rejected deletion restores the row as plain content
+    const row = tracked
+      ? this.createDeletedTableRow(block, tbl, this.addComment(this.byDirection('Removed: Deleted table row', 'Added: New table row')))
+      : this.createRestoredTableRow(block, tbl);
+    tbl.insertBefore(row, next || previous?.nextSibling || null);
+    return row;
   }
 
-  private applyTableRowChanges(tr: Element, blockDiff: BlockDiff): void {
-    // Prefer groupedDiff if available, fall back to wordDiff
-    const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
-    if (!changes || changes.length === 0) {
-      return;
+  /**
+   * Build an empty w:tbl with a grid for the cells of a row, for rows whose
+   * table no longer exists in the current document
+   */
+  private createTable(block: Block): Element {
+    const tbl = this.documentXml!.createElementNS(NS.w, 'w:tbl');
+
+    const tblPr = this.documentXml!.createElementNS(NS.w, 'w:tblPr');
+    const tblW = this.documentXml!.createElementNS(NS.w, 'w:tblW');
+    tblW.setAttribute('w:w', '0');
+    tblW.setAttribute('w:type', 'auto');
+    tblPr.appendChild(tblW);
+    const tblBorders = this.documentXml!.createElementNS(NS.w, 'w:tblBorders');
+    for (const side of ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']) {
+      const border = this.documentXml!.createElementNS(NS.w, `w:${side}`);
+      border.setAttribute('w:val', 'single');
+      border.setAttribute('w:sz', '4');
+      border.setAttribute('w:space', '0');
+      border.setAttribute('w:color', 'auto');
+      tblBorders.appendChild(border);
     }
-
-    // For table rows with modifications, we apply changes to the cells
-    // This is a simplified approach - we clear all cell content and rebuild it
-
-    const cells = tr.getElementsByTagName('w:tc');
-    if (cells.length === 0) {
-      return;
+    tblPr.appendChild(tblBorders);
+    tbl.appendChild(tblPr);
+
+    const tblGrid = this.documentXml!.createElementNS(NS.w, 'w:tblGrid');
+    const columns = Math.max(1, (block.cells || []).reduce((width, cell) => width + cell.gridSpan, 0));
+    for (let column = 0; column < columns; column++) {
+      const gridCol = this.documentXml!.createElementNS(NS.w, 'w:gridCol');
+      gridCol.setAttribute('w:w', String(Math.floor(TABLE_WIDTH / columns)));
+      tblGrid.appendChild(gridCol);
     }
+    tbl.appendChild(tblGrid);
+    return tbl;
+  }
 
-    // Apply changes to the first cell's first paragraph (simplified approach)
-    const firstCell = cells[0];
-    const firstPara = firstCell.getElementsByTagName('w:p')[0];
+  /**
+   * Build a w:tr holding deleted row text. The original cells are restored
+   * when they fill the table grid, otherwise a single spanning cell is used.
+   */
+  private createDeletedTableRow(block: Block, tbl: Element, commentId: number): Element {
+    const gridColumns = tbl.getElementsByTagName('w:gridCol').length;
+    const cellWidth = (block.cells || []).reduce((width, cell) => width + cell.gridSpan, 0);
+    const cells = cellWidth === gridColumns
+      ? block.cells!.map(cell => ({ text: cell.text, gridSpan: cell.gridSpan }))
+      : [{ text: block.text, gridSpan: gridColumns }];
+
+    const row = this.documentXml!.createElementNS(NS.w, 'w:tr');
+    this.addRowRevision(row, this.createDelElement());
+    cells.forEach(({ text: cellText, gridSpan: span }, k) => {
+      const tc = this.documentXml!.createElementNS(NS.w, 'w:tc');
+      if (span > 1) {
+        const tcPr = this.documentXml!.createElementNS(NS.w, 'w:tcPr');
+        const gridSpan = this.documentXml!.createElementNS(NS.w, 'w:gridSpan');
+        gridSpan.setAttribute('w:val', String(span));
+        tcPr.appendChild(gridSpan);
+        tc.appendChild(tcPr);
+      }
 
-    if (firstPara) {
-      // Clear existing content (except pPr)
-      const pPr = firstPara.getElementsByTagName('w:pPr')[0];
-      while (firstPara.firstChild) {
-        firstPara.removeChild(firstPara.firstChild);
+      const para = this.documentXml!.createElementNS(NS.w, 'w:p');
+      if (k === 0 && commentId >= 0) {
+        para.appendChild(this.createCommentRangeStart(commentId));
       }
-      if (pPr) {
-        firstPara.appendChild(pPr);
+      const delElement = this.createDelElement();
+      delElement.appendChild(this.createRunWithText(cellText, true));
+      para.appendChild(delElement);
+      if (k === cells.length - 1 && commentId >= 0) {
+        para.appendChild(this.createCommentRangeEnd(commentId));
+        para.appendChild(this.createCommentReference(commentId));
       }
 
-      // Add changes
-      for (const change of changes) {
-        if (this.isPhraseReplacement(change)) {
-          // Phrase replacement in table
-          const commentId = this.addComment(`Replaced in table: "${change.deletedText}" → "${change.insertedText}"`);
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeStart(commentId));
-          }
+      tc.appendChild(para);
+      row.appendChild(tc);
+    });
 
-          // Add deleted phrase
-          const delElement = this.createDelElement();
-          const delRun = this.createRunWithText(change.deletedText + ' ', true);
-          delElement.appendChild(delRun);
-          firstPara.appendChild(delElement);
+    return row;
+  }
 
-          // Add inserted phrase
-          const insRun = this.createRunWithText(change.insertedText + ' ', false, true);
-          firstPara.appendChild(insRun);
+  /**
+   * Build a w:tr with the original cells of a row whose deletion was
+   * rejected, or a single spanning cell when they do not fill the grid
+   */
+  private createRestoredTableRow(block: Block, tbl: Element): Element {
+    const gridColumns = tbl.getElementsByTagName('w:gridCol').length;
+    const cellWidth = (block.cells || []).reduce((width, cell) => width + cell.gridSpan, 0);
+    const cells: TableCell[] = cellWidth === gridColumns
+      ? block.cells!
+      : [{ text: block.text, runs: block.runs, gridSpan: gridColumns }];
+
+    const row = this.documentXml!.createElementNS(NS.w, 'w:tr');
+    cells.forEach(cell => row.appendChild(this.createRestoredCell(cell)));
+    return row;
+  }
 
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeEnd(commentId));
-            firstPara.appendChild(this.createCommentReference(commentId));
-          }
-        } else if (change.added) {
-          const commentId = this.addComment(`Added in table: "${change.value.trim()}"`);
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeStart(commentId));
-          }
-          const run = this.createRunWithText(change.value, false, true);
-          firstPara.appendChild(run);
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeEnd(commentId));
-            firstPara.appendChild(this.createCommentReference(commentId));
-          }
-        } else if (change.removed) {
-          const commentId = this.addComment(`Removed from table: "${change.value.trim()}"`);
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeStart(commentId));
-          }
-          const delElement = this.createDelElement();
-          const run = this.createRunWithText(change.value, true);
-          delElement.appendChild(run);
-          firstPara.appendChild(delElement);
-          if (commentId >= 0) {
-            firstPara.appendChild(this.createCommentRangeEnd(commentId));
-            firstPara.appendChild(this.createCommentReference(commentId));
-          }
-        } else {
-          const run = this.createRunWithText(change.value, false, false);
-          firstPara.appendChild(run);
-        }
+  /**
+   * Body-level element to insert a paragraph before: a table row anchor is
+   * replaced by the table that holds it.
+   */
+  private getBodyAnchor(anchor: Element | null): Element | null {
+    let el = anchor;
+    while (el && el.nodeName !== 'w:p' && el.nodeName !== 'w:tbl') {
+      el = el.parentNode as Element | null;
+    }
+    if (el?.nodeName === 'w:tbl') {
+      // Nested tables: climb to the table that is a direct body child
+      while (el.parentNode && !STORY_CONTAINERS.has((el.parentNode as Element).nodeName)) {
+        el = el.parentNode as Element;
       }
     }
+    return el;
   }
 
-  private getParagraphText(para: Element): string {
-    const textElements = para.getElementsByTagName('w:t');
-    let text = '';
-    for (let i = 0; i < textElements.length; i++) {
-      text += textElements[i].textContent || '';
+  /**
+   * The footnote or endnote holding an element, if any
+   */
+  private getNoteElement(el: Element | null): Element | null {
+    while (el && el.nodeName !== 'w:footnote' && el.nodeName !== 'w:endnote') {
+      el = el.parentNode as Element | null;
     }
-    return text;
+    return el;
   }
 
-  private normalizeText(text: string): string {
-    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+  /**
+   * Re-create a note the current document no longer has, under a new id,
+   * before `nextNote` or at the end of the notes part
+   */
+  private insertRemovedNote(nextNote: Element | null): Element {
+    const notes = this.documentXml!.documentElement;
+    const ids = Array.from(notes.children).map(note => parseInt(note.getAttribute('w:id') || '', 10) || 0);
+    const note = this.documentXml!.createElementNS(NS.w, notes.nodeName.replace(/s$/, ''));
+    note.setAttribute('w:id', String(Math.max(0, ...ids) + 1));
+    notes.insertBefore(note, nextNote);
+    return note;
   }
 
-  private markParagraphAsInserted(para: Element, block: Block): void {
-    // Add comment for this insertion
-    const commentId = this.addComment(`Added: New ${block.type}`);
+  /**
+   * Apply a modified row cell by cell: changed cells are rewritten with their
+   * word changes, cells of inserted columns are marked as inserted and cells
+   * of deleted columns are restored holding deleted text. Rows whose cells do
+   * not line up with the document get the row-level changes in the first cell.
+   */
+  private applyTableRowChanges(tr: Element, blockDiff: BlockDiff): void {
+    const cells = Array.from(tr.children).filter(child => child.tagName === 'w:tc');
+    const cellDiffs = blockDiff.cellDiffs;
+    if (!cellDiffs || cells.length !== blockDiff.currentBlock!.cells?.length) {
+      this.applyRowChangesToFirstCell(cells[0], blockDiff.groupedDiff || blockDiff.wordDiff || []);
+      return;
+    }
 
-    // Get all runs in the paragraph
-    const runs = Array.from(para.getElementsByTagName('w:r'));
+    cellDiffs.forEach((cellDiff, k) => {
+      switch (cellDiff.type) {
+        case 'modify':
+          this.applyCellChanges(cells[cellDiff.currentIndex!], cellDiff.groupedDiff || cellDiff.wordDiff || []);
+          break;
+        case 'insert':
+          this.markCellAsInserted(cells[cellDiff.currentIndex!]);
+          break;
+        case 'delete': {
+          // Restore the cell before the next cell that still exists
+          const next = cellDiffs.slice(k + 1).find(later => later.currentIndex !== undefined);
+          const deletedCell = this.createDeletedCell(cellDiff.originalCell!);
+          tr.insertBefore(deletedCell, next ? cells[next.currentIndex!] : null);
+          this.addGridColumn(tr, deletedCell);
+          break;
+        }
+      }
+    });
+  }
 
-    if (runs.length === 0) {
+  /**
+   * Rewrite a cell with word-level changes. The cell text spans all of its
+   * paragraphs, so they are folded into the first one; cells holding a
+   * nested table are left as they are.
+   */
+  private applyCellChanges(tc: Element, changes: GroupedChange[]): void {
+    if (changes.length === 0 || tc.getElementsByTagName('w:tbl').length > 0) {
       return;
     }
 
-    const firstRun = runs[0];
+    const paras = Array.from(tc.children).filter(child => child.tagName === 'w:p');
+    if (paras.length === 0) {
+      return;
+    }
+    paras.slice(1).forEach(para => tc.removeChild(para));
 
-    // Insert comment range start before first run (if comments enabled)
-    if (commentId >= 0) {
-      const commentStart = this.createCommentRangeStart(commentId);
-      firstRun.parentNode?.insertBefore(commentStart, firstRun);
+    this.clearParagraphContent(paras[0]);
+    this.appendTableChanges(paras[0], changes);
+  }
+
+  /**
+   * Mark every run of a cell in an inserted column
+   */
+  private markCellAsInserted(tc: Element): void {
+    const runs = Array.from(tc.getElementsByTagName('w:r'));
+    if (runs.length === 0) {
+      return;
     }
 
-    // Apply insertion formatting to each run directly
-    for (const run of runs) {
-      this.applyInsertionFormatting(run);
+    const commentId = this.addComment(this.byDirection('Added: New table column', 'Removed: Deleted table column'));
+    if (commentId >= 0) {
+      runs[0].parentNode?.insertBefore(this.createCommentRangeStart(commentId), runs[0]);
     }
 
-    // Add comment range end and reference after the last run (if comments enabled)
+    this.markContentAsInserted(tc);
+
     if (commentId >= 0) {
-      const lastRun = runs[runs.length - 1];
+      const lastRun = this.getInsertionEnd(runs[runs.length - 1]);
+      const commentEnd = this.createCommentRangeEnd(commentId);
+      lastRun.parentNode?.insertBefore(commentEnd, lastRun.nextSibling);
+      commentEnd.parentNode?.insertBefore(this.createCommentReference(commentId), commentEnd.nextSibling);
+    }
+  }
+
+  /**
+   * Build a w:tc holding the deleted text of a cell from a removed column
+   */
+  private createDeletedCell(cell: TableCell): Element {
+    const tc = this.documentXml!.createElementNS(NS.w, 'w:tc');
+    if (cell.gridSpan > 1) {
+      const tcPr = this.documentXml!.createElementNS(NS.w, 'w:tcPr');
+      const gridSpan = this.documentXml!.createElementNS(NS.w, 'w:gridSpan');
+      gridSpan.setAttribute('w:val', String(cell.gridSpan));
+      tcPr.appendChild(gridSpan);
+      tc.appendChild(tcPr);
+    }
+
+    const para = this.documentXml!.createElementNS(NS.w, 'w:p');
+    if (cell.text) {
+      const commentId = this.addComment(this.byDirection(
+        `Removed: Deleted table column "${cell.text}"`,
+        `Added: New table column "${cell.text}"`
+      ));
+      if (commentId >= 0) {
+        para.appendChild(this.createCommentRangeStart(commentId));
+      }
+      const delElement = this.createDelElement();
+      delElement.appendChild(this.createRunWithText(cell.text, true));
+      para.appendChild(delElement);
+      if (commentId >= 0) {
+        para.appendChild(this.createCommentRangeEnd(commentId));
+        para.appendChild(this.createCommentReference(commentId));
+      }
+    }
+
+    tc.appendChild(para);
+    return tc;
+  }
+
+  /**
+   * Widen the table grid for a restored cell. Each grid position is added
+   * once per table, copying the width of the column it is inserted before.
+   */
+  private addGridColumn(tr: Element, tc: Element): void {
+    const tbl = tr.parentNode as Element | null;
+    const tblGrid = tbl ? Array.from(tbl.children).find(child => child.tagName === 'w:tblGrid') : undefined;
+    if (!tbl || !tblGrid) {
+      return;
+    }
+
+    let position = 0;
+    for (let cell = tc.previousElementSibling; cell; cell = cell.previousElementSibling) {
+      if (cell.tagName === 'w:tc') {
+        position += this.getCellGridSpan(cell);
+      }
+    }
+
+    const added = this.addedGridColumns.get(tbl) || new Set<number>();
+    this.addedGridColumns.set(tbl, added);
+    for (let column = position; column < position + this.getCellGridSpan(tc); column++) {
+      if (added.has(column)) continue;
+      added.add(column);
+
+      const gridCols = Array.from(tblGrid.children).filter(child => child.tagName === 'w:gridCol');
+      const reference = gridCols[column] || null;
+      const gridCol = this.documentXml!.createElementNS(NS.w, 'w:gridCol');
+      const width = (reference || gridCols[gridCols.length - 1])?.getAttribute('w:w');
+      if (width) {
+        gridCol.setAttribute('w:w', width);
+      }
+      tblGrid.insertBefore(gridCol, reference);
+    }
+  }
+
+  private getCellGridSpan(tc: Element): number {
+    const span = parseInt(tc.getElementsByTagName('w:gridSpan')[0]?.getAttribute('w:val') || '', 10);
+    return span > 0 ? span : 1;
+  }
+
+  /**
+   * Fallback for rows without matching cells: rewrite the first cell's first
+   * paragraph with the changes of the whole row
+   */
+  private applyRowChangesToFirstCell(tc: Element | undefined, changes: GroupedChange[]): void {
+    const firstPara = tc?.getElementsByTagName('w:p')[0];
+    if (!firstPara || changes.length === 0) {
+      return;
+    }
+
+    this.clearParagraphContent(firstPara);
+    this.appendTableChanges(firstPara, changes);
+  }
+
+  /**
+   * Append word-level or grouped changes to a paragraph inside a table
+   */
+  private appendTableChanges(para: Element, changes: GroupedChange[]): void {
+    for (const change of changes) {
+      if (this.isPhraseReplacement(change)) {
+        // Phrase replacement in table
+        const commentId = this.addComment(this.describeReplacement('Replaced in table', change.deletedText, change.insertedText));
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeStart(commentId));
+        }
+
+        // Add deleted phrase
+        const delElement = this.createDelElement();
+        const delRun = this.createRunWithText(change.deletedText + ' ', true);
+        delElement.appendChild(delRun);
+        para.appendChild(delElement);
+
+        // Add inserted phrase
+        para.appendChild(this.createInsertedContent(change.insertedText + ' '));
+
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeEnd(commentId));
+          para.appendChild(this.createCommentReference(commentId));
+        }
+      } else if (this.isTokenEdit(change)) {
+        this.appendTokenEdit(para, change, 'Changed in table');
+      } else if (change.added) {
+        const commentId = this.addComment(this.byDirection('Added in table', 'Removed from table') + `: "${change.value.trim()}"`);
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeStart(commentId));
+        }
+        para.appendChild(this.createInsertedContent(change.value));
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeEnd(commentId));
+          para.appendChild(this.createCommentReference(commentId));
+        }
+      } else if (change.removed) {
+        const commentId = this.addComment(this.byDirection('Removed from table', 'Added in table') + `: "${change.value.trim()}"`);
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeStart(commentId));
+        }
+        const delElement = this.createDelElement();
+        const run = this.createRunWithText(change.value, true);
+        delElement.appendChild(run);
+        para.appendChild(delElement);
+        if (commentId >= 0) {
+          para.appendChild(this.createCommentRangeEnd(commentId));
+          para.appendChild(this.createCommentReference(commentId));
+        }
+      } else {
+        const run = this.createRunWithText(change.value, false, false);
+        para.appendChild(run);
+      }
+    }
+  }
+
+  private getParagraphText(para: Element): string {
+    const textElements = para.getElementsByTagName('w:t');
+    let text = '';
+    for (let i = 0; i < textElements.length; i++) {
+      text += textElements[i].textContent || '';
+    }
+    return text;
+  }
+
+  private normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private markParagraphAsInserted(para: Element, block: Block): void {
+    // Add comment for this insertion
+    const commentId = this.addComment(this.byDirection(`Added: New ${block.type}`, `Removed: Deleted ${block.type}`));
+
+    // Get all runs in the paragraph
+    const runs = Array.from(para.getElementsByTagName('w:r'));
+
+    if (runs.length === 0) {
+      return;
+    }
+
+    const firstRun = runs[0];
+
+    // Insert comment range start before first run (if comments enabled)
+    if (commentId >= 0) {
+      const commentStart = this.createCommentRangeStart(commentId);
+      firstRun.parentNode?.insertBefore(commentStart, firstRun);
+    }
+
+    // Apply insertion formatting to each run directly
+    this.markContentAsInserted(para);
+
+    // Add comment range end and reference after the last run (if comments enabled)
+    if (commentId >= 0) {
+      const lastRun = this.getInsertionEnd(runs[runs.length - 1]);
       const commentEnd = this.createCommentRangeEnd(commentId);
       const commentRef = this.createCommentReference(commentId);
       lastRun.parentNode?.insertBefore(commentEnd, lastRun.nextSibling);
@@ -510,12 +1278,75 @@ export class DocxInPlaceExporter {
     }
   }
 
+  /**
+   * Mark the runs and paragraph marks of inserted content: as w:ins
+   * revisions when tracking insertions, otherwise with highlighting only
+   */
+  private markContentAsInserted(container: Element): void {
+    this.markRunsAsInserted(Array.from(container.getElementsByTagName('w:r')));
+    if (!this.options.trackInsertions) {
+      return;
+    }
+
+    const paras = container.nodeName === 'w:p' ? [container] : Array.from(container.getElementsByTagName('w:p'));
+    paras.forEach(para => this.addParagraphMarkRevision(para, this.createRevisionElement('w:ins')));
+  }
+
+  /**
+   * Mark inserted runs: wrapped in w:ins when tracking insertions,
+   * otherwise highlighted
+   */
+  private markRunsAsInserted(runs: Element[]): void {
+    if (!this.options.trackInsertions) {
+      runs.forEach(run => this.applyInsertionFormatting(run));
+      return;
+    }
+
+    // Wrap consecutive sibling runs together; runs already inside a
+    // revision (e.g. prior tracked changes) are left alone
+    let wrapper: Element | null = null;
+    for (const run of runs) {
+      if (run.parentNode && ['w:ins', 'w:del', 'w:moveTo', 'w:moveFrom'].includes(run.parentNode.nodeName)) {
+        continue;
+      }
+      if (!wrapper || run.previousSibling !== wrapper) {
+        wrapper = this.createRevisionElement('w:ins');
+        run.parentNode?.insertBefore(wrapper, run);
+      }
+      this.applyInsertionFormatting(run);
+      wrapper.appendChild(run);
+    }
+  }
+
+  /**
+   * The element comment markers follow for an inserted run: the w:ins
+   * wrapping it, so the comment reference is not part of the insertion
+   */
+  private getInsertionEnd(run: Element): Element {
+    const parent = run.parentNode as Element | null;
+    return parent?.nodeName === this.getRevisionTag('w:ins') ? parent : run;
+  }
+
+  /**
+   * Inserted text for a rewritten paragraph: a w:ins revision when tracking
+   * insertions, otherwise a highlighted run
+   */
+  private createInsertedContent(text: string): Element {
+    const run = this.createRunWithText(text, false, true);
+    if (!this.options.trackInsertions) {
+      return run;
+    }
+    const insElement = this.createRevisionElement('w:ins');
+    insElement.appendChild(run);
+    return insElement;
+  }
+
   private insertDeletedParagraph(block: Block, insertBefore: Element | null): void {
-    const body = this.documentXml?.getElementsByTagName('w:body')[0];
+    const body = this.storyRoot;
     if (!body) return;
 
     // Add comment for this deletion
-    const commentId = this.addComment(`Removed: Deleted ${block.type}`);
+    const commentId = this.addComment(this.byDirection(`Removed: Deleted ${block.type}`, `Added: New ${block.type}`));
 
     // Create a new paragraph with deletion markup
     const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
@@ -540,6 +1371,67 @@ export class DocxInPlaceExporter {
     }
 
     // Insert at the correct position
+    this.insertBodyParagraph(body, newPara, insertBefore);
+  }
+
+  /**
+   * Re-create an original paragraph whose removal was rejected, with its
+   * own runs and no revision marks
+   */
+  private insertRestoredParagraph(block: Block, insertBefore: Element | null): void {
+    const body = this.storyRoot;
+    if (!body) return;
+
+    const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
+    this.appendOriginalRuns(newPara, block.runs);
+    this.insertBodyParagraph(body, newPara, insertBefore);
+  }
+
+  /**
+   * Append runs of a parsed block, carrying their formatting over to w:rPr
+   */
+  private appendOriginalRuns(para: Element, runs: TextRun[]): void {
+    for (const { text, formatting } of runs) {
+      const run = this.createRunWithText(text, false, false);
+      const rPr = this.documentXml!.createElementNS(NS.w, 'w:rPr');
+
+      // Children in the schema order of w:rPr
+      if (formatting.font) {
+        const fonts = this.documentXml!.createElementNS(NS.w, 'w:rFonts');
+        fonts.setAttribute('w:ascii', formatting.font);
+        fonts.setAttribute('w:hAnsi', formatting.font);
+        rPr.appendChild(fonts);
+      }
+      if (formatting.bold) rPr.appendChild(this.documentXml!.createElementNS(NS.w, 'w:b'));
+      if (formatting.italic) rPr.appendChild(this.documentXml!.createElementNS(NS.w, 'w:i'));
+      if (formatting.color) {
+        const color = this.documentXml!.createElementNS(NS.w, 'w:color');
+        color.setAttribute('w:val', formatting.color.replace(/^#/, ''));
+        rPr.appendChild(color);
+      }
+      if (formatting.fontSize) {
+        const size = this.documentXml!.createElementNS(NS.w, 'w:sz');
+        size.setAttribute('w:val', String(Math.round(formatting.fontSize * 2)));
+        rPr.appendChild(size);
+      }
+      if (formatting.underline) {
+        const underline = this.documentXml!.createElementNS(NS.w, 'w:u');
+        underline.setAttribute('w:val', 'single');
+        rPr.appendChild(underline);
+      }
+
+      if (rPr.childNodes.length > 0) {
+        run.insertBefore(rPr, run.firstChild);
+      }
+      para.appendChild(run);
+    }
+  }
+
+  /**
+   * Insert a generated paragraph before the given paragraph, or at the end of
+   * the body (before a trailing sectPr) when there is no following paragraph.
+   */
+  private insertBodyParagraph(body: Element, newPara: Element, insertBefore: Element | null): void {
     if (insertBefore) {
       // Insert before the next paragraph
       insertBefore.parentNode?.insertBefore(newPara, insertBefore);
@@ -554,6 +1446,125 @@ export class DocxInPlaceExporter {
     }
   }
 
+  /**
+   * Re-create a moved block at its old position as a native w:moveFrom range.
+   * The paragraph mark is part of the move so Word removes the whole paragraph
+   * when the move is accepted.
+   */
+  private insertMovedFromParagraph(blockDiff: BlockDiff, insertBefore: Element | null): void {
+    const body = this.storyRoot;
+    if (!body) return;
+
+    const block = blockDiff.originalBlock!;
+    const moveName = blockDiff.move!.moveId;
+    const commentId = this.addComment(`Moved: ${block.type} moved ${this.byDirection('from', 'to')} here`);
+
+    const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
+    const pPr = this.documentXml!.createElementNS(NS.w, 'w:pPr');
+    newPara.appendChild(pPr);
+    this.addParagraphMarkRevision(newPara, this.createRevisionElement('w:moveFrom'));
+
+    const rangeId = this.nextRevisionId++;
+    newPara.appendChild(this.createMoveRangeStart('w:moveFromRangeStart', rangeId, moveName));
+
+    if (commentId >= 0) {
+      newPara.appendChild(this.createCommentRangeStart(commentId));
+    }
+
+    const moveFrom = this.createRevisionElement('w:moveFrom');
+    moveFrom.appendChild(this.createRunWithText(block.text, false));
+    newPara.appendChild(moveFrom);
+
+    if (commentId >= 0) {
+      newPara.appendChild(this.createCommentRangeEnd(commentId));
+      newPara.appendChild(this.createCommentReference(commentId));
+    }
+
+    newPara.appendChild(this.createMoveRangeEnd('w:moveFromRangeEnd', rangeId));
+
+    this.insertBodyParagraph(body, newPara, insertBefore);
+  }
+
+  /**
+   * Mark a paragraph of the current document as the destination of a move.
+   * Edits made to the moved text are applied first; the remaining runs are
+   * then wrapped in w:moveTo inside a named range matching the moveFrom side.
+   */
+  private markParagraphAsMovedTo(para: Element, blockDiff: BlockDiff): void {
+    if (blockDiff.wordDiff) {
+      this.applyWordLevelChanges(para, blockDiff);
+    }
+
+    const block = blockDiff.currentBlock!;
+    const moveName = blockDiff.move!.moveId;
+    const commentId = this.addComment(`Moved: ${block.type} moved ${this.byDirection('to', 'from')} here`);
+
+    // Group consecutive direct-child runs into w:moveTo containers
+    let currentMoveTo: Element | null = null;
+    for (const child of Array.from(para.childNodes)) {
+      if (child.nodeType === 1 && (child as Element).tagName === 'w:r') {
+        if (!currentMoveTo) {
+          currentMoveTo = this.createRevisionElement('w:moveTo');
+          para.insertBefore(currentMoveTo, child);
+        }
+        currentMoveTo.appendChild(child);
+      } else {
+        currentMoveTo = null;
+      }
+    }
+
+    if (commentId >= 0) {
+      this.wrapParagraphInComment(para, commentId);
+    }
+
+    const rangeId = this.nextRevisionId++;
+    const pPr = para.getElementsByTagName('w:pPr')[0];
+    const firstContent = pPr && pPr.parentNode === para ? pPr.nextSibling : para.firstChild;
+    para.insertBefore(this.createMoveRangeStart('w:moveToRangeStart', rangeId, moveName), firstContent);
+    para.appendChild(this.createMoveRangeEnd('w:moveToRangeEnd', rangeId));
+    this.addParagraphMarkRevision(para, this.createRevisionElement('w:moveTo'));
+  }
+
+  /**
+   * Attach a revision marker (w:ins, w:del, w:moveFrom, w:moveTo) to the
+   * paragraph mark via w:pPr/w:rPr, keeping the schema order of both elements.
+   */
+  private addParagraphMarkRevision(para: Element, revision: Element): void {
+    let pPr = Array.from(para.children).find(child => child.tagName === 'w:pPr') || null;
+    if (!pPr) {
+      pPr = this.documentXml!.createElementNS(NS.w, 'w:pPr');
+      para.insertBefore(pPr, para.firstChild);
+    }
+
+    let rPr = Array.from(pPr.children).find(child => child.tagName === 'w:rPr') || null;
+    if (!rPr) {
+      rPr = this.documentXml!.createElementNS(NS.w, 'w:rPr');
+      // rPr precedes sectPr and pPrChange in w:pPr
+      const following = Array.from(pPr.children).find(
+        child => child.tagName === 'w:sectPr' || child.tagName === 'w:pPrChange'
+      ) || null;
+      pPr.insertBefore(rPr, following);
+    }
+
+    // Revision markers come first in the paragraph mark's run properties
+    rPr.insertBefore(revision, rPr.firstChild);
+  }
+
+  private createMoveRangeStart(tagName: 'w:moveFromRangeStart' | 'w:moveToRangeStart', id: number, name: string): Element {
+    const el = this.documentXml!.createElementNS(NS.w, this.getRevisionTag(tagName));
+    el.setAttribute('w:id', String(id));
+    el.setAttribute('w:author', this.author);
+    el.setAttribute('w:date', this.date);
+    el.setAttribute('w:name', name);
+    return el;
+  }
+
+  private createMoveRangeEnd(tagName: 'w:moveFromRangeEnd' | 'w:moveToRangeEnd', id: number): Element {
+    const el = this.documentXml!.createElementNS(NS.w, this.getRevisionTag(tagName));
+    el.setAttribute('w:id', String(id));
+    return el;
+  }
+
   private applyWordLevelChanges(para: Element, blockDiff: BlockDiff): void {
     // Prefer groupedDiff if available, fall back to wordDiff
     const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
@@ -561,20 +1572,452 @@ export class DocxInPlaceExporter {
       return;
     }
 
-    // Clear the paragraph content (keeping properties)
+    // Mark the changed spans in place so the paragraph keeps its runs,
+    // hyperlinks, fields and references, as long as the diff lines up with
+    // the paragraph's text
+    const cursor = new ParagraphCursor(para);
+    const stripWhitespace = (text: string) => text.replace(/\s+/g, '');
+    if (stripWhitespace(this.getCurrentText(changes)) === stripWhitespace(cursor.getText())) {
+      this.applyRunFormatChanges(cursor, blockDiff);
+      this.applyChangesInPlace(new ParagraphCursor(para), changes);
+      return;
+    }
+
+    // Otherwise rebuild the paragraph from the diff (keeping properties)
+    this.clearParagraphContent(para);
+    this.appendChanges(para, changes);
+  }
+
+  /**
+   * Record run formatting changes as w:rPrChange on the runs holding the
+   * restyled text, with the run properties they had before
+   */
+  private applyRunFormatChanges(cursor: ParagraphCursor, blockDiff: BlockDiff): void {
+    const text = blockDiff.currentBlock!.text;
+    let position = 0;
+
+    for (const change of blockDiff.formatDiff || []) {
+      if (change.type !== 'format-change') continue;
+
+      cursor.skip(text.slice(position, change.currentOffset));
+      position = change.currentOffset + change.text.length;
+
+      const runs = cursor.take(change.text);
+      if (runs.length === 0) continue;
+
+      const commentId = this.addComment(`Formatted: ${this.describeFormatting(change.changes)}`);
+      if (commentId >= 0) {
+        runs[0].parentNode?.insertBefore(this.createCommentRangeStart(commentId), runs[0]);
+      }
+
+      for (const run of runs) {
+        let rPr = Array.from(run.children).find(child => child.tagName === 'w:rPr');
+        if (!rPr) {
+          rPr = this.documentXml!.createElementNS(NS.w, 'w:rPr');
+          run.insertBefore(rPr, run.firstChild);
+        }
+        // Keep a revision the document already records
+        if (Array.from(rPr.children).some(child => child.tagName === 'w:rPrChange')) continue;
+
+        // The run holds the formatting after the change; in a reversed
+        // export it has the original's and takes the current one
+        const previous = copyElement(rPr);
+        Object.entries(change.changes)
+          .forEach(([key, { from }]) => this.setRunFormatting(this.reversed ? rPr! : previous, key, from));
+        const rPrChange = this.createRevisionElement('w:rPrChange');
+        rPrChange.appendChild(previous);
+        rPr.appendChild(rPrChange);
+      }
+
+      if (commentId >= 0) {
+        const last = runs[runs.length - 1];
+        last.parentNode?.insertBefore(this.createCommentReference(commentId), last.nextSibling);
+        last.parentNode?.insertBefore(this.createCommentRangeEnd(commentId), last.nextSibling);
+      }
+    }
+  }
+
+  /**
+   * Set one run formatting value, as read by the parser, on a w:rPr;
+   * an unset value removes the property
+   */
+  private setRunFormatting(rPr: Element, key: string, value: any): void {
+    const tagName = ({
+      bold: 'w:b', italic: 'w:i', underline: 'w:u', color: 'w:color', font: 'w:rFonts', fontSize: 'w:sz'
+    } as Record<string, string>)[key];
+    if (!tagName) return;
+
+    if (value === undefined || value === false) {
+      this.removeProperty(rPr, tagName);
+      return;
+    }
+
+    const property = this.setProperty(rPr, RUN_PROPERTY_ORDER, tagName);
+    switch (key) {
+      case 'underline':
+        property.setAttribute('w:val', 'single');
+        break;
+      case 'color':
+        property.setAttribute('w:val', String(value).replace(/^#/, ''));
+        break;
+      case 'font':
+        property.setAttribute('w:ascii', value);
+        property.setAttribute('w:hAnsi', value);
+        break;
+      case 'fontSize':
+        property.setAttribute('w:val', String(Math.round(value * 2)));
+        break;
+      default:
+        property.removeAttribute('w:val');
+    }
+  }
+
+  /**
+   * Record a paragraph style or alignment change as w:pPrChange holding the
+   * paragraph properties from before, anchoring a comment on the paragraph
+   */
+  private applyParagraphFormatChange(para: Element, blockDiff: BlockDiff): void {
+    const changes = blockDiff.paragraphFormatChange;
+    if (!changes) {
+      return;
+    }
+
+    const pPr = this.getParagraphProperties(para);
+    if (Array.from(pPr.children).some(child => child.tagName === 'w:pPrChange')) {
+      return;
+    }
+
+    // The previous properties hold only the base properties of the paragraph
+    const previous = this.documentXml!.createElementNS(NS.w, 'w:pPr');
+    Array.from(pPr.children)
+      .filter(child => child.tagName !== 'w:rPr' && child.tagName !== 'w:sectPr')
+      .forEach(child => previous.appendChild(copyElement(child)));
+    this.setParagraphFormatting(this.reversed ? pPr : previous, changes, 'from');
+
+    const pPrChange = this.createRevisionElement('w:pPrChange');
+    pPrChange.appendChild(previous);
+    pPr.appendChild(pPrChange);
+
+    const commentId = this.addComment(`Formatted: ${this.describeFormatting(changes)}`);
+    if (commentId >= 0) {
+      para.insertBefore(this.createCommentRangeStart(commentId), pPr.nextSibling);
+      para.appendChild(this.createCommentRangeEnd(commentId));
+      para.appendChild(this.createCommentReference(commentId));
+    }
+  }
+
+  /**
+   * Set the style and alignment of a w:pPr to one side of a paragraph
+   * formatting change
+   */
+  private setParagraphFormatting(pPr: Element, changes: Record<string, { from: any; to: any }>, side: 'from' | 'to'): void {
+    Object.entries(changes).forEach(([key, change]) => {
+      const tagName = PARAGRAPH_FORMAT_PROPERTIES[key];
+      if (!tagName) return;
+      if (change[side] === undefined) {
+        this.removeProperty(pPr, tagName);
+      } else {
+        this.setProperty(pPr, PARAGRAPH_PROPERTY_ORDER, tagName, change[side]);
+      }
+    });
+  }
+
+  /**
+   * The w:pPr of a paragraph, created if missing
+   */
+  private getParagraphProperties(para: Element): Element {
+    let pPr = Array.from(para.children).find(child => child.tagName === 'w:pPr');
+    if (!pPr) {
+      pPr = this.documentXml!.createElementNS(NS.w, 'w:pPr');
+      para.insertBefore(pPr, para.firstChild);
+    }
+    return pPr;
+  }
+
+  private describeFormatting(changes: Record<string, { from: any; to: any }>): string {
+    const describeValue = (value: unknown) => value === undefined || value === false ? 'none' : value === true ? 'on' : String(value);
+    return Object.entries(changes)
+      .map(([key, change]) => {
+        const [from, to] = this.reversed ? [change.to, change.from] : [change.from, change.to];
+        return `${key}: ${describeValue(from)} → ${describeValue(to)}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Text of the current document covered by a list of changes
+   */
+  private getCurrentText(changes: GroupedChange[]): string {
+    return changes.map(change => {
+      if (this.isPhraseReplacement(change) || this.isTokenEdit(change)) {
+        return change.insertedText;
+      }
+      return change.removed ? '' : change.value;
+    }).join('');
+  }
+
+  /**
+   * Apply changes to the existing runs of a paragraph: unchanged text is
+   * left alone, inserted text keeps its runs and is marked as inserted, and
+   * deleted text is added in w:del runs formatted like the text around it
+   */
+  private applyChangesInPlace(cursor: ParagraphCursor, changes: GroupedChange[]): void {
+    for (const change of changes) {
+      if (this.isPhraseReplacement(change)) {
+        this.withComment(cursor, this.describeReplacement('Replaced', change.deletedText, change.insertedText), () => {
+          cursor.insert(this.createDeletedRun(change.deletedText, cursor.getRunProperties()));
+          this.markRunsAsInserted(cursor.take(change.insertedText));
+        });
+      } else if (this.isTokenEdit(change)) {
+        const label = this.describeReplacement('Changed', change.deletedText.trim(), change.insertedText.trim());
+        this.withComment(cursor, label, () => {
+          for (const part of change.parts) {
+            if (part.removed) {
+              cursor.insert(this.createDeletedRun(part.value, cursor.getRunProperties()));
+            } else if (part.added) {
+              this.markRunsAsInserted(cursor.take(part.value));
+            } else {
+              cursor.skip(part.value);
+            }
+          }
+        });
+      } else if (change.added) {
+        this.withComment(cursor, this.byDirection('Added', 'Removed') + `: "${change.value.trim()}"`, () => {
+          this.markRunsAsInserted(cursor.take(change.value));
+        });
+      } else if (change.removed) {
+        this.withComment(cursor, this.byDirection('Removed', 'Added') + `: "${change.value.trim()}"`, () => {
+          cursor.insert(this.createDeletedRun(change.value, cursor.getRunProperties()));
+        });
+      } else {
+        cursor.skip(change.value);
+      }
+    }
+  }
+
+  /**
+   * Anchor a comment around the content applied by `apply`
+   */
+  private withComment(cursor: ParagraphCursor, text: string, apply: () => void): void {
+    const commentId = this.addComment(text);
+    if (commentId >= 0) {
+      cursor.insert(this.createCommentRangeStart(commentId));
+    }
+    apply();
+    if (commentId >= 0) {
+      cursor.insert(this.createCommentRangeEnd(commentId));
+      cursor.insert(this.createCommentReference(commentId));
+    }
+  }
+
+  /**
+   * A w:del holding deleted text in a run with the given properties
+   */
+  private createDeletedRun(text: string, rPr: Element | null): Element {
+    const run = this.documentXml!.createElementNS(NS.w, 'w:r');
+    const properties = rPr || this.documentXml!.createElementNS(NS.w, 'w:rPr');
+    // In a reversed export this is inserted text, which tracking leaves unformatted
+    if (this.options.includeInlineFormatting && !this.reversed) {
+      this.setProperty(properties, RUN_PROPERTY_ORDER, 'w:strike');
+      this.setProperty(properties, RUN_PROPERTY_ORDER, 'w:color', 'FF0000');
+    }
+    if (properties.childNodes.length > 0) {
+      run.appendChild(properties);
+    }
+
+    const textElement = this.documentXml!.createElementNS(NS.w, 'w:delText');
+    textElement.setAttribute('xml:space', 'preserve');
+    textElement.textContent = text;
+    run.appendChild(textElement);
+
+    const delElement = this.createDelElement();
+    delElement.appendChild(run);
+    return delElement;
+  }
+
+  /**
+   * Set a run or paragraph property, replacing an existing one and keeping
+   * the schema order given for w:rPr or w:pPr
+   */
+  private setProperty(properties: Element, order: string[], tagName: string, val?: string): Element {
+    let property = Array.from(properties.children).find(child => child.tagName === tagName);
+    if (!property) {
+      property = this.documentXml!.createElementNS(NS.w, tagName);
+      const position = order.indexOf(tagName);
+      const following = Array.from(properties.children).find(child => order.indexOf(child.tagName) > position) || null;
+      properties.insertBefore(property, following);
+    }
+    if (val !== undefined) {
+      property.setAttribute('w:val', val);
+    }
+    return property;
+  }
+
+  private removeProperty(properties: Element, tagName: string): void {
+    Array.from(properties.children)
+      .filter(child => child.tagName === tagName)
+      .forEach(child => properties.removeChild(child));
+  }
+
+  /**
+   * Remove every child of a paragraph except its w:pPr and the note
+   * reference mark that numbers a footnote or endnote
+   */
+  private clearParagraphContent(para: Element): void {
     const pPr = para.getElementsByTagName('w:pPr')[0];
+    const noteMarks = Array.from(para.children).filter(child =>
+      child.tagName === 'w:r' &&
+      (child.getElementsByTagName('w:footnoteRef').length > 0 || child.getElementsByTagName('w:endnoteRef').length > 0)
+    );
     while (para.firstChild) {
       para.removeChild(para.firstChild);
     }
     if (pPr) {
       para.appendChild(pPr);
     }
+    noteMarks.forEach(mark => para.appendChild(mark));
+  }
+
+  /**
+   * Apply a split: each current paragraph receives its share of the word diff
+   * and every paragraph mark but the last is marked as inserted, which is how
+   * Word records splitting a paragraph.
+   */
+  private applySplitChanges(paras: Element[], blockDiff: BlockDiff): void {
+    const segments = this.splitChangesAtParagraphMarks(blockDiff.wordDiff || []);
+    // Only rewrite when every part of the split was located
+    if (segments.length !== paras.length) {
+      this.applyAsDeleteAndInsert(paras, blockDiff);
+      return;
+    }
+
+    const commentId = this.addComment(this.byDirection(
+      `Split: paragraph split into ${paras.length} paragraphs`,
+      `Merged: ${paras.length} paragraphs merged into one`
+    ));
 
+    paras.forEach((para, k) => {
+      this.clearParagraphContent(para);
+      this.appendChanges(para, segments[k]);
+      if (k < paras.length - 1) {
+        this.addParagraphMarkRevision(para, this.createRevisionElement('w:ins'));
+      }
+    });
+
+    if (commentId >= 0) {
+      this.wrapParagraphInComment(paras[0], commentId);
+    }
+  }
+
+  /**
+   * Apply a merge: the merged current paragraph is broken back into one
+   * paragraph per original block, and each restored paragraph mark except
+   * the last is marked as deleted, which is how Word records joining paragraphs.
+   */
+  private applyMergeChanges(para: Element, blockDiff: BlockDiff): void {
+    const segments = this.splitChangesAtParagraphMarks(blockDiff.wordDiff || []);
+    // Only rewrite when the word diff has a part for every original paragraph
+    if (segments.length !== (blockDiff.originalBlocks || [blockDiff.originalBlock]).length) {
+      this.applyAsDeleteAndInsert([para], blockDiff);
+      return;
+    }
+
+    const commentId = this.addComment(this.byDirection(
+      `Merged: ${segments.length} paragraphs merged into one`,
+      `Split: paragraph split into ${segments.length} paragraphs`
+    ));
+
+    const pPr = para.getElementsByTagName('w:pPr')[0];
+    let firstPara = para;
+
+    for (let k = 0; k < segments.length - 1; k++) {
+      const newPara = this.documentXml!.createElementNS(NS.w, 'w:p');
+      if (pPr) {
+        const pPrClone = pPr.cloneNode(true) as Element;
+        // A section break belongs only to the last paragraph
+        Array.from(pPrClone.getElementsByTagName('w:sectPr')).forEach(el => el.parentNode?.removeChild(el));
+        newPara.appendChild(pPrClone);
+      }
+      this.appendChanges(newPara, segments[k]);
+      this.addParagraphMarkRevision(newPara, this.createRevisionElement('w:del'));
+      para.parentNode?.insertBefore(newPara, para);
+      if (k === 0) {
+        firstPara = newPara;
+      }
+    }
+
+    this.clearParagraphContent(para);
+    this.appendChanges(para, segments[segments.length - 1] || []);
+
+    if (commentId >= 0) {
+      this.wrapParagraphInComment(firstPara, commentId);
+    }
+  }
+
+  /**
+   * Record a split or merge whose paragraphs can't be lined up with its word
+   * diff as a plain replacement: the original paragraphs are deleted before
+   * the located current ones, which are marked as inserted.
+   */
+  private applyAsDeleteAndInsert(paras: Element[], blockDiff: BlockDiff): void {
+    for (const block of blockDiff.originalBlocks || [blockDiff.originalBlock!]) {
+      this.insertDeletedParagraph(block, paras[0]);
+    }
+    paras.forEach(para => this.markParagraphAsInserted(para, blockDiff.currentBlock!));
+  }
+
+  /**
+   * Break a split/merge word diff into one change list per paragraph at the
+   * boundary tokens, dropping the spaces that surround each boundary.
+   */
+  private splitChangesAtParagraphMarks(changes: Change[]): Change[][] {
+    const segments: Change[][] = [[]];
+
+    for (const change of changes) {
+      change.value.split(PARAGRAPH_BOUNDARY).forEach((part, k) => {
+        if (k > 0) {
+          segments.push([]);
+        }
+        if (part) {
+          segments[segments.length - 1].push({ ...change, value: part });
+        }
+      });
+    }
+
+    // Trim the whitespace that joined each paragraph to its neighbour
+    segments.forEach((segment, k) => {
+      if (k > 0 && segment.length > 0) {
+        segment[0] = { ...segment[0], value: segment[0].value.replace(/^\s+/, '') };
+      }
+      if (k < segments.length - 1 && segment.length > 0) {
+        const lastIndex = segment.length - 1;
+        segment[lastIndex] = { ...segment[lastIndex], value: segment[lastIndex].value.replace(/\s+$/, '') };
+      }
+    });
+
+    return segments.map(segment => segment.filter(change => change.value.length > 0));
+  }
+
+  /**
+   * Anchor a comment around the whole content of a paragraph
+   */
+  private wrapParagraphInComment(para: Element, commentId: number): void {
+    const pPr = para.getElementsByTagName('w:pPr')[0];
+    const firstContent = pPr && pPr.parentNode === para ? pPr.nextSibling : para.firstChild;
+    para.insertBefore(this.createCommentRangeStart(commentId), firstContent);
+    para.appendChild(this.createCommentRangeEnd(commentId));
+    para.appendChild(this.createCommentReference(commentId));
+  }
+
+  /**
+   * Append runs for a list of word-level or grouped changes to a paragraph
+   */
+  private appendChanges(para: Element, changes: GroupedChange[]): void {
     // Build new content based on changes
     for (const change of changes) {
       if (this.isPhraseReplacement(change)) {
         // Phrase replacement - show deleted phrase then inserted phrase
-        const commentId = this.addComment(`Replaced: "${change.deletedText}" → "${change.insertedText}"`);
+        const commentId = this.addComment(this.describeReplacement('Replaced', change.deletedText, change.insertedText));
 
         if (commentId >= 0) {
           para.appendChild(this.createCommentRangeStart(commentId));
@@ -587,25 +2030,26 @@ export class DocxInPlaceExporter {
         para.appendChild(delElement);
 
         // Add inserted phrase with highlight
-        const insRun = this.createRunWithText(change.insertedText + ' ', false, true);
-        para.appendChild(insRun);
+        para.appendChild(this.createInsertedContent(change.insertedText + ' '));
 
         if (commentId >= 0) {
           para.appendChild(this.createCommentRangeEnd(commentId));
           para.appendChild(this.createCommentReference(commentId));
         }
 
+      } else if (this.isTokenEdit(change)) {
+        this.appendTokenEdit(para, change, 'Changed');
+
       } else if (change.added) {
-        // Insertion - use visual formatting only (no w:ins to avoid Word overriding colors)
-        const commentId = this.addComment(`Added: "${change.value.trim()}"`);
+        // Insertion - visual formatting only unless insertions are tracked,
+        // since Word's own insertion markup overrides the highlight colors
+        const commentId = this.addComment(this.byDirection('Added', 'Removed') + `: "${change.value.trim()}"`);
 
         if (commentId >= 0) {
           para.appendChild(this.createCommentRangeStart(commentId));
         }
 
-        // Create run with highlight formatting (no track change wrapper)
-        const run = this.createRunWithText(change.value, false, true);
-        para.appendChild(run);
+        para.appendChild(this.createInsertedContent(change.value));
 
         if (commentId >= 0) {
           para.appendChild(this.createCommentRangeEnd(commentId));
@@ -614,7 +2058,7 @@ export class DocxInPlaceExporter {
 
       } else if (change.removed) {
         // Deletion
-        const commentId = this.addComment(`Removed: "${change.value.trim()}"`);
+        const commentId = this.addComment(this.byDirection('Removed', 'Added') + `: "${change.value.trim()}"`);
 
         if (commentId >= 0) {
           para.appendChild(this.createCommentRangeStart(commentId));
@@ -638,6 +2082,43 @@ export class DocxInPlaceExporter {
     }
   }
 
+  /**
+   * Append a character-level token edit: kept characters as plain runs,
+   * removed characters in w:del and added characters in w:ins, so Word shows
+   * exactly which digits or letters changed.
+   */
+  private appendTokenEdit(para: Element, change: TokenEdit, label: string): void {
+    const commentId = this.addComment(this.describeReplacement(label, change.deletedText.trim(), change.insertedText.trim()));
+
+    if (commentId >= 0) {
+      para.appendChild(this.createCommentRangeStart(commentId));
+    }
+
+    for (const part of change.parts) {
+      if (part.removed) {
+        const delElement = this.createDelElement();
+        delElement.appendChild(this.createRunWithText(part.value, true));
+        para.appendChild(delElement);
+      } else if (part.added) {
+        para.appendChild(this.createInsertedContent(part.value));
+      } else {
+        para.appendChild(this.createRunWithText(part.value, false, false));
+      }
+    }
+
+    if (commentId >= 0) {
+      para.appendChild(this.createCommentRangeEnd(commentId));
+      para.appendChild(this.createCommentReference(commentId));
+    }
+  }
+
+  /**
+   * Type guard to check if a change is a TokenEdit
+   */
+  private isTokenEdit(change: GroupedChange): change is TokenEdit {
+    return 'type' in change && change.type === 'token-edit';
+  }
+
   /**
    * Type guard to check if a change is a PhraseReplacement
    */
@@ -646,15 +2127,46 @@ export class DocxInPlaceExporter {
   }
 
   private createDelElement(): Element {
-    const del = this.documentXml!.createElementNS(NS.w, 'w:del');
-    del.setAttribute('w:id', String(this.nextRevisionId++));
-    del.setAttribute('w:author', this.author);
-    del.setAttribute('w:date', this.date);
-    return del;
+    return this.createRevisionElement('w:del');
+  }
+
+  /**
+   * Create a revision element (w:del, w:ins, w:moveFrom, w:moveTo) stamped
+   * with the next revision id, author and date
+   */
+  private createRevisionElement(tagName: string): Element {
+    const el = this.documentXml!.createElementNS(NS.w, this.getRevisionTag(tagName));
+    el.setAttribute('w:id', String(this.nextRevisionId++));
+    el.setAttribute('w:author', this.author);
+    el.setAttribute('w:date', this.date);
+    return el;
+  }
+
+  /**
+   * The revision element that records a change of the exported diff
+   */
+  private getRevisionTag(tagName: string): string {
+    return this.reversed ? REVERSED_REVISIONS[tagName] || tagName : tagName;
+  }
+
+  /**
+   * Comment wording for the direction of the export: the reversed diff's
+   * insertions are really deletions, so its descriptions swap too
+   */
+  private byDirection(forward: string, reversed: string): string {
+    return this.reversed ? reversed : forward;
+  }
+
+  private describeReplacement(label: string, deletedText: string, insertedText: string): string {
+    const [from, to] = this.reversed ? [insertedText, deletedText] : [deletedText, insertedText];
+    return `${label}: "${from}" → "${to}"`;
   }
 
   private createRunWithText(text: string, isDeleted: boolean, isInserted: boolean = false): Element {
     const run = this.documentXml!.createElementNS(NS.w, 'w:r');
+    if (this.reversed) {
+      [isDeleted, isInserted] = [isInserted, isDeleted];
+    }
 
     // Add run properties for formatting (only if inline formatting is enabled)
     const rPr = this.documentXml!.createElementNS(NS.w, 'w:rPr');
@@ -670,8 +2182,9 @@ export class DocxInPlaceExporter {
         const strike = this.documentXml!.createElementNS(NS.w, 'w:strike');
         rPr.appendChild(strike);
         hasFormatting = true;
-      } else if (isInserted) {
-        // Yellow highlight for insertions (keeps normal text color)
+      } else if (isInserted && !this.options.trackInsertions) {
+        // Yellow highlight for insertions (keeps normal text color); a
+        // tracked insertion would keep it after being accepted
         const highlight = this.documentXml!.createElementNS(NS.w, 'w:highlight');
         highlight.setAttribute('w:val', 'yellow');
         rPr.appendChild(highlight);
@@ -694,25 +2207,28 @@ export class DocxInPlaceExporter {
   }
 
   private applyInsertionFormatting(run: Element): void {
-    // Skip if inline formatting is disabled
-    if (!this.options.includeInlineFormatting) {
+    // Skip if inline formatting is disabled or insertions are tracked; text
+    // of the original marked as inserted is deleted text and always formatted
+    if (!this.options.includeInlineFormatting || (this.options.trackInsertions && !this.reversed)) {
       return;
     }
 
     // Get or create run properties
-    let rPr = run.getElementsByTagName('w:rPr')[0];
+    let rPr = Array.from(run.children).find(child => child.tagName === 'w:rPr');
     if (!rPr) {
       rPr = this.documentXml!.createElementNS(NS.w, 'w:rPr');
       run.insertBefore(rPr, run.firstChild);
     }
 
-    // Add yellow highlight (keeps normal text color)
-    let highlight = rPr.getElementsByTagName('w:highlight')[0];
-    if (!highlight) {
-      highlight = this.documentXml!.createElementNS(NS.w, 'w:highlight');
-      rPr.appendChild(highlight);
+    if (this.reversed) {
+      // Red strikethrough, as for re-created deletions
+      this.setProperty(rPr, RUN_PROPERTY_ORDER, 'w:strike');
+      this.setProperty(rPr, RUN_PROPERTY_ORDER, 'w:color', 'FF0000');
+      return;
     }
-    highlight.setAttribute('w:val', 'yellow');
+
+    // Add yellow highlight (keeps normal text color)
+    this.setProperty(rPr, RUN_PROPERTY_ORDER, 'w:highlight', 'yellow');
   }
 
   private createCommentRangeStart(commentId: number): Element {
@@ -736,17 +2252,117 @@ export class DocxInPlaceExporter {
   }
 
   private addComment(text: string): number {
-    // Return -1 if comments are disabled
-    if (!this.options.includeComments) {
+    // Return -1 if comments are disabled or not allowed in this part
+    if (!this.options.includeComments || !this.commentsAllowed) {
       return -1;
     }
     const id = this.nextCommentId++;
-    this.comments.push({ id, text });
+    this.comments.push({ id, text: this.formatComment(text) });
     return id;
   }
 
+  /**
+   * Fill in the comment template for the change being exported
+   */
+  private formatComment(description: string): string {
+    const template = this.options.commentTemplate || DEFAULT_OPTIONS.commentTemplate;
+    const context = this.commentContext;
+    const counts = context ? this.countChangedWords(context.blockDiff) : { added: 0, removed: 0 };
+    const [added, removed] = this.reversed ? [counts.removed, counts.added] : [counts.added, counts.removed];
+    const values: Record<string, string> = {
+      description,
+      type: context ? this.getChangeTypeLabel(context.blockDiff) : '',
+      heading: context?.heading || '',
+      wordsAdded: String(added),
+      wordsRemoved: String(removed)
+    };
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder).trim();
+  }
+
+  private getChangeTypeLabel(blockDiff: BlockDiff): string {
+    if (blockDiff.type === 'modify') {
+      const counts = this.countChangedWords(blockDiff);
+      if (counts.added === 0 && counts.removed === 0 && !blockDiff.listLabelChange) {
+        return 'Formatting';
+      }
+    }
+    return CHANGE_TYPE_LABELS[this.reversed ? reverseDiffType(blockDiff.type) : blockDiff.type];
+  }
+
+  /**
+   * Words inserted and deleted by a change; moved blocks count only the
+   * edits made to the moved text
+   */
+  private countChangedWords(blockDiff: BlockDiff): { added: number; removed: number } {
+    const countWords = (text: string) => text.split(/\s+/).filter(word => word && word !== PARAGRAPH_BOUNDARY).length;
+
+    switch (blockDiff.type) {
+      case 'insert':
+        return { added: countWords(blockDiff.currentBlock!.text), removed: 0 };
+      case 'delete':
+        return { added: 0, removed: countWords(blockDiff.originalBlock!.text) };
+    }
+
+    const counts = { added: 0, removed: 0 };
+    const countChanges = (changes: Change[]) => changes.forEach(change => {
+      if (change.added) counts.added += countWords(change.value);
+      if (change.removed) counts.removed += countWords(change.value);
+    });
+    if (blockDiff.cellDiffs) {
+      for (const cellDiff of blockDiff.cellDiffs) {
+        if (cellDiff.type === 'insert') counts.added += countWords(cellDiff.currentCell!.text);
+        if (cellDiff.type === 'delete') counts.removed += countWords(cellDiff.originalCell!.text);
+        countChanges(cellDiff.wordDiff || []);
+      }
+    } else {
+      countChanges(blockDiff.wordDiff || []);
+    }
+    return counts;
+  }
+
+
+  /**
+   * Read the comment parts the current document already has. New comment
+   * ids continue after the highest existing one so reviewer comments and
+   * their anchors stay intact.
+   */
+  private async loadCommentParts(): Promise<void> {
+    this.commentParts.clear();
+    const relsXml = await this.zip!.file(DOCUMENT_RELS_PATH)?.async('string');
+    if (!relsXml) {
+      return;
+    }
+
+    const parser = new DOMParser();
+    const rels = parser.parseFromString(relsXml, 'application/xml');
+    const partTypes = Object.keys(COMMENT_PART_TYPES) as CommentPartType[];
+    for (const rel of Array.from(rels.getElementsByTagName('Relationship'))) {
+      const partType = partTypes.find(key => COMMENT_PART_TYPES[key] === rel.getAttribute('Type'));
+      const target = rel.getAttribute('Target');
+      if (!partType || !target || rel.getAttribute('TargetMode') === 'External') continue;
+
+      const path = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+      const partXml = await this.zip!.file(path)?.async('string');
+      if (partXml) {
+        this.commentParts.set(partType, { path, xml: parser.parseFromString(partXml, 'application/xml') });
+      }
+    }
+
+    const comments = this.commentParts.get('comments');
+    if (comments) {
+      const ids = Array.from(comments.xml.getElementsByTagName('w:comment'))
+        .map(comment => parseInt(comment.getAttribute('w:id') || '', 10))
+        .filter(id => !isNaN(id));
+      this.nextCommentId = Math.max(-1, ...ids) + 1;
+    }
+  }
 
   private async addCommentsToZip(): Promise<void> {
+    if (this.commentParts.has('comments')) {
+      await this.appendToCommentParts();
+      return;
+    }
+
     // Build comments.xml
     const commentsXml = this.buildCommentsXml();
     this.zip!.file('word/comments.xml', commentsXml);
@@ -758,9 +2374,82 @@ export class DocxInPlaceExporter {
     await this.updateContentTypes();
   }
 
+  /**
+   * Append the change comments to the document's existing comment parts.
+   * When it has commentsExtended or commentsIds parts, each new comment
+   * paragraph gets a unique w14:paraId with an entry in those parts, which
+   * leaves the threads and resolved states of existing comments untouched.
+   */
+  private async appendToCommentParts(): Promise<void> {
+    const comments = this.commentParts.get('comments')!;
+    const extended = this.commentParts.get('commentsExtended');
+    const ids = this.commentParts.get('commentsIds');
+    const root = comments.xml.documentElement;
+
+    // Ids must be unique across every part that carries paragraphs: the body,
+    // headers, footers, notes and the comment parts being appended to
+    const serializer = new XMLSerializer();
+    const usedIds = new Set<string>();
+    const partXmls = await Promise.all(this.zip!.file(/^word\/[^/]+\.xml$/).map(file => file.async('string')));
+    for (const xml of [...partXmls, ...Array.from(this.commentParts.values()).map(part => serializer.serializeToString(part.xml))]) {
+      for (const match of xml.matchAll(/(?:paraId|durableId)="([0-9A-Fa-f]{8})"/g)) {
+        usedIds.add(match[1].toUpperCase());
+      }
+    }
+    let nextHexId = 1;
+    const createHexId = (): string => {
+      let id: string;
+      do {
+        id = (nextHexId++).toString(16).toUpperCase().padStart(8, '0');
+      } while (usedIds.has(id));
+      return id;
+    };
+
+    if ((extended || ids) && !root.getAttribute('xmlns:w14')) {
+      root.setAttribute('xmlns:w14', NS.w14);
+    }
+
+    for (const comment of this.comments) {
+      const commentElement = comments.xml.createElementNS(NS.w, 'w:comment');
+      commentElement.setAttribute('w:id', String(comment.id));
+      commentElement.setAttribute('w:author', this.author);
+      commentElement.setAttribute('w:date', this.date);
+
+      const para = comments.xml.createElementNS(NS.w, 'w:p');
+      const run = comments.xml.createElementNS(NS.w, 'w:r');
+      const text = comments.xml.createElementNS(NS.w, 'w:t');
+      text.textContent = comment.text;
+      run.appendChild(text);
+      para.appendChild(run);
+      commentElement.appendChild(para);
+      root.appendChild(commentElement);
+
+      if (!extended && !ids) continue;
+
+      const paraId = createHexId();
+      para.setAttribute('w14:paraId', paraId);
+      if (extended) {
+        const commentEx = extended.xml.createElementNS(NS.w15, 'w15:commentEx');
+        commentEx.setAttribute('w15:paraId', paraId);
+        commentEx.setAttribute('w15:done', '0');
+        extended.xml.documentElement.appendChild(commentEx);
+      }
+      if (ids) {
+        const commentId = ids.xml.createElementNS(NS.w16cid, 'w16cid:commentId');
+        commentId.setAttribute('w16cid:paraId', paraId);
+        commentId.setAttribute('w16cid:durableId', createHexId());
+        ids.xml.documentElement.appendChild(commentId);
+      }
+    }
+
+    for (const part of this.commentParts.values()) {
+      this.zip!.file(part.path, serializer.serializeToString(part.xml));
+    }
+  }
+
   private buildCommentsXml(): string {
     const commentElements = this.comments.map(comment => `
-    <w:comment w:id="${comment.id}" w:author="${this.author}" w:date="${this.date}">
+    <w:comment w:id="${comment.id}" w:author="${this.escapeXml(this.author)}" w:date="${this.date}">
       <w:p>
         <w:r>
           <w:t>${this.escapeXml(comment.text)}</w:t>
@@ -777,7 +2466,7 @@ ${commentElements}
   }
 
   private async updateRelationships(): Promise<void> {
-    const relsPath = 'word/_rels/document.xml.rels';
+    const relsPath = DOCUMENT_RELS_PATH;
     let relsXml = await this.zip!.file(relsPath)?.async('string');
 
     if (!relsXml) {
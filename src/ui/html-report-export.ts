@@ -0,0 +1,202 @@
+// HTML Report Export - Standalone redline report that opens offline
+
+import diffHighlightsCss from '../styles/diff-highlights.css?inline';
+import type { DocumentAST } from '../types/ast.types';
+import type { DocumentDiff } from '../types/diff.types';
+import type { DiffRenderer } from '../renderer/diff-renderer';
+import { CATEGORY_LABELS, type ChangeCategory, type ChangeEntry } from '../renderer/change-summary';
+
+// Styles for the cover and change index; the redline uses diff-highlights.css
+const REPORT_CSS = `
+body {
+  margin: 0 auto;
+  max-width: 900px;
+  padding: 32px 24px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  color: #24292f;
+  line-height: 1.5;
+}
+h1 { font-size: 24px; margin: 0 0 4px; }
+h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #d0d7de; }
+.report-generated { color: #57606a; font-size: 13px; margin: 0 0 24px; }
+.report-files { border-collapse: collapse; width: 100%; font-size: 14px; }
+.report-files th, .report-files td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; vertical-align: top; }
+.report-files thead th { background: #f6f8fa; }
+.report-counts { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 16px; padding: 0; list-style: none; }
+.report-counts li { padding: 6px 12px; border-radius: 6px; font-size: 14px; }
+.report-counts strong { margin-left: 6px; }
+.change-type-total { background: #f6f8fa; }
+.change-type { display: inline-block; padding: 1px 6px; border-radius: 4px; font-size: 12px; }
+.change-type-insert { background: #dafbe1; }
+.change-type-delete { background: #ffdce0; }
+.change-type-modify { background: #fff8c5; }
+.change-type-format { background: #fbefff; }
+.change-type-move { background: #ddf4ff; }
+.change-index { padding-left: 24px; font-size: 14px; }
+.change-index li { margin-bottom: 8px; }
+.change-index a { color: inherit; text-decoration: none; }
+.change-index a:hover .change-snippet { text-decoration: underline; }
+.change-heading { margin-left: 8px; color: #57606a; font-size: 12px; }
+.change-snippet { display: block; }
+.change-snippet del { color: #82071e; }
+.change-snippet ins { color: #116329; text-decoration: none; margin-left: 6px; }
+:target { outline: 2px solid #0969da; outline-offset: 2px; }
+@media print { .change-index a { color: inherit; } h2 { break-after: avoid; } }
+`;
+
+export class HtmlReportExporter {
+  /**
+   * Build a self-contained HTML document with a cover summary, an index
+   * linking to every change and the redline itself
+   */
+  generateReport(
+    diff: DocumentDiff,
+    renderer: DiffRenderer,
+    entries: ChangeEntry[],
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    originalFileName: string,
+    currentFileName: string
+  ): string {
+    const redline = document.createElement('div');
+    redline.innerHTML = renderer.getRedlinedHtml(diff);
+    const anchors = this.addChangeAnchors(redline, entries);
+    const title = `Comparison of ${originalFileName} and ${currentFileName}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<style>${diffHighlightsCss}${REPORT_CSS}</style>
+</head>
+<body>
+<header class="report-cover">
+<h1>Document Comparison</h1>
+<p class="report-generated">Generated ${this.escapeHtml(new Date().toLocaleString())}</p>
+${this.renderFileTable(originalAST, currentAST, originalFileName, currentFileName)}
+${this.renderCounts(entries)}
+</header>
+<section class="report-index">
+<h2>Changes</h2>
+${this.renderIndex(entries, anchors)}
+</section>
+<section class="report-redline">
+<h2>Redline</h2>
+${redline.innerHTML}
+</section>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Download the report as <original>_comparison.html
+   */
+  exportToFile(html: string, originalFileName: string): void {
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${originalFileName.replace(/\.docx$/i, '')}_comparison.html`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Give the first element of every change an id the index can link to.
+   * Elements that already have one, such as moved blocks, keep it so move
+   * markers still find their partner.
+   */
+  private addChangeAnchors(redline: HTMLElement, entries: ChangeEntry[]): Map<string, string> {
+    const anchors = new Map<string, string>();
+
+    for (const entry of entries) {
+      const el = redline.querySelector(`[data-change-id="${entry.changeId}"]`);
+      if (!el) continue;
+      if (!el.id) {
+        el.id = entry.changeId;
+      }
+      anchors.set(entry.changeId, el.id);
+    }
+
+    return anchors;
+  }
+
+  private renderFileTable(
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    originalFileName: string,
+    currentFileName: string
+  ): string {
+    const rows: [string, string | undefined, string | undefined][] = [
+      ['File', originalFileName, currentFileName],
+      ['Title', originalAST.metadata.title, currentAST.metadata.title],
+      ['Author', originalAST.metadata.author, currentAST.metadata.author],
+      ['Created', this.formatDate(originalAST.metadata.created), this.formatDate(currentAST.metadata.created)],
+      ['Modified', this.formatDate(originalAST.metadata.modified), this.formatDate(currentAST.metadata.modified)]
+    ];
+
+    const body = rows
+      .filter(([, original, current]) => original || current)
+      .map(([label, original, current]) =>
+        `<tr><th scope="row">${label}</th><td>${this.escapeHtml(original || '')}</td><td>${this.escapeHtml(current || '')}</td></tr>`
+      ).join('\n');
+
+    return `<table class="report-files">
+<thead><tr><th></th><th>Original</th><th>Current</th></tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>`;
+  }
+
+  private renderCounts(entries: ChangeEntry[]): string {
+    const counts = new Map<ChangeCategory, number>();
+    entries.forEach(entry => counts.set(entry.category, (counts.get(entry.category) || 0) + 1));
+
+    const items = (Object.keys(CATEGORY_LABELS) as ChangeCategory[]).map(category =>
+      `<li class="change-type-${category}">${CATEGORY_LABELS[category]}<strong>${counts.get(category) || 0}</strong></li>`
+    );
+    items.push(`<li class="change-type-total">Total<strong>${entries.length}</strong></li>`);
+
+    return `<ul class="report-counts">${items.join('')}</ul>`;
+  }
+
+  private renderIndex(entries: ChangeEntry[], anchors: Map<string, string>): string {
+    if (entries.length === 0) {
+      return '<p>The documents are identical.</p>';
+    }
+
+    const items = entries.map(entry => {
+      const heading = entry.heading
+        ? `<span class="change-heading">${this.escapeHtml(entry.heading)}</span>`
+        : '';
+      const before = entry.before ? `<del>${this.escapeHtml(entry.before)}</del>` : '';
+      const after = entry.after ? `<ins>${this.escapeHtml(entry.after)}</ins>` : '';
+      const content = `<span class="change-type change-type-${entry.category}">${CATEGORY_LABELS[entry.category]}</span>${heading}
+<span class="change-snippet">${before}${after}</span>`;
+      const anchor = anchors.get(entry.changeId);
+
+      return anchor
+        ? `<li><a href="#${anchor}">${content}</a></li>`
+        : `<li>${content}</li>`;
+    });
+
+    return `<ol class="change-index">\n${items.join('\n')}\n</ol>`;
+  }
+
+  private formatDate(date: Date | undefined): string | undefined {
+    return date && !isNaN(date.getTime()) ? date.toLocaleString() : undefined;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,277 @@
+// Paragraph Cursor - Walks the text of a w:p so changes can be applied in place
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Paragraph-level wrappers whose runs belong to the paragraph text
+const RUN_CONTAINERS = new Set([
+  'w:hyperlink', 'w:smartTag', 'w:sdt', 'w:sdtContent', 'w:customXml',
+  'w:fldSimple', 'w:dir', 'w:bdo', 'w:ins', 'w:moveTo'
+]);
+
+// Tracked deletions already in the paragraph; their text is not current text
+const DELETED_CONTENT = new Set(['w:del', 'w:moveFrom']);
+
+// Revision wrappers that text added at the end of a paragraph must not join
+const REVISION_WRAPPERS = new Set(['w:ins', 'w:del', 'w:moveTo', 'w:moveFrom']);
+
+// Run children that read as a character, matching the parser
+const CHARACTER_ELEMENTS: Record<string, string> = {
+  'w:tab': '\t',
+  'w:ptab': '\t',
+  'w:br': '\n',
+  'w:cr': '\n',
+  'w:noBreakHyphen': '-'
+};
+
+/**
+ * Deep copy of an element that keeps namespace prefixes on every node
+ */
+export function copyElement(el: Element): Element {
+  const copy = el.ownerDocument.createElementNS(el.namespaceURI, el.nodeName);
+  Array.from(el.attributes).forEach(attr => copy.setAttribute(attr.name, attr.value));
+  el.childNodes.forEach(child => {
+    copy.appendChild(child.nodeType === 1 ? copyElement(child as Element) : child.cloneNode(true));
+  });
+  return copy;
+}
+
+/**
+ * A piece of run content holding text: a w:t with its text, or a single
+ * character element such as w:tab
+ */
+interface TextAtom {
+  node: Element;
+  text: string;
+}
+
+/**
+ * Position in the text of a paragraph. Text is consumed in order; runs are
+ * split only where a boundary is needed, so untouched content keeps its
+ * exact XML, including hyperlinks, fields, bookmarks and note references.
+ * Whitespace is matched loosely since diffed text is normalized.
+ */
+export class ParagraphCursor {
+  private para: Element;
+  private atoms: TextAtom[] = [];
+  private index = 0;
+  private offset = 0;
+  // Last node inserted at the end of the paragraph; the next goes after it
+  private tail: Node | null = null;
+
+  constructor(para: Element) {
+    this.para = para;
+    this.collectAtoms(para);
+  }
+
+  /**
+   * The current text of the paragraph, as the parser reads it before
+   * normalizing whitespace
+   */
+  getText(): string {
+    return this.atoms.map(atom => atom.text).join('');
+  }
+
+  /**
+   * Move past text that stays as it is
+   */
+  skip(text: string): void {
+    this.advance(text);
+  }
+
+  /**
+   * Move past text and return the runs holding it, split so that they hold
+   * nothing else
+   */
+  take(text: string): Element[] {
+    const start = this.boundary();
+    this.advance(text);
+    const end = this.boundary();
+    if (!start) {
+      return [];
+    }
+
+    const runs = this.getRuns();
+    const last = end ? runs.indexOf(end) : runs.indexOf(this.atoms[this.atoms.length - 1].node.parentNode as Element) + 1;
+    return runs.slice(runs.indexOf(start), last);
+  }
+
+  /**
+   * Insert a node at the current position, splitting a run if needed
+   */
+  insert(node: Node): void {
+    const next = this.boundary();
+    if (next) {
+      next.parentNode!.insertBefore(node, next);
+      return;
+    }
+
+    let after: Node | null = this.tail;
+    if (!after && this.atoms.length > 0) {
+      after = this.atoms[this.atoms.length - 1].node.parentNode;
+      // Step out of revision wrappers so the node follows them
+      while (after?.parentNode && after.parentNode !== this.para && REVISION_WRAPPERS.has(after.parentNode.nodeName)) {
+        after = after.parentNode;
+      }
+    }
+    if (after) {
+      after.parentNode!.insertBefore(node, after.nextSibling);
+    } else {
+      this.para.appendChild(node);
+    }
+    this.tail = node;
+  }
+
+  /**
+   * A copy of the run properties at the current position, for runs
+   * generated there, without any recorded formatting change
+   */
+  getRunProperties(): Element | null {
+    const atom = this.atoms[Math.min(this.index, this.atoms.length - 1)];
+    const rPr = atom ? this.childElement(atom.node.parentNode as Element, 'w:rPr') : null;
+    if (!rPr) {
+      return null;
+    }
+
+    const copy = copyElement(rPr);
+    const change = this.childElement(copy, 'w:rPrChange');
+    if (change) {
+      copy.removeChild(change);
+    }
+    return copy;
+  }
+
+  /**
+   * Consume the non-whitespace characters of `text` with any whitespace
+   * before them, and trailing whitespace when `text` ends with some
+   */
+  private advance(text: string): void {
+    this.tail = null;
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) continue;
+      while (this.isWhitespaceNext()) {
+        this.step();
+      }
+      this.step();
+    }
+    if (/\s$/.test(text)) {
+      while (this.isWhitespaceNext()) {
+        this.step();
+      }
+    }
+  }
+
+  private isWhitespaceNext(): boolean {
+    const atom = this.atoms[this.index];
+    return !!atom && /\s/.test(atom.text[this.offset]);
+  }
+
+  private step(): void {
+    if (this.index >= this.atoms.length) return;
+    this.offset++;
+    if (this.offset >= this.atoms[this.index].text.length) {
+      this.index++;
+      this.offset = 0;
+    }
+  }
+
+  /**
+   * Make the current position a run boundary and return the run that
+   * starts there, or null at the end of the text
+   */
+  private boundary(): Element | null {
+    if (this.index >= this.atoms.length) {
+      return null;
+    }
+    if (this.offset > 0) {
+      this.splitText(this.index, this.offset);
+      this.index++;
+      this.offset = 0;
+    }
+    return this.splitRunBefore(this.atoms[this.index].node);
+  }
+
+  /**
+   * Split a w:t in two; the second half follows it in the same run
+   */
+  private splitText(index: number, offset: number): void {
+    const atom = this.atoms[index];
+    const tail = atom.node.ownerDocument.createElementNS(W_NS, 'w:t');
+    tail.setAttribute('xml:space', 'preserve');
+    tail.textContent = atom.text.slice(offset);
+
+    atom.text = atom.text.slice(0, offset);
+    atom.node.textContent = atom.text;
+    atom.node.setAttribute('xml:space', 'preserve');
+    atom.node.parentNode!.insertBefore(tail, atom.node.nextSibling);
+
+    this.atoms.splice(index + 1, 0, { node: tail, text: tail.textContent });
+  }
+
+  /**
+   * Move a run child and everything after it into a copy of the run with
+   * the same properties. Returns the run that now starts with the child.
+   */
+  private splitRunBefore(node: Element): Element {
+    const run = node.parentNode as Element;
+    let previous = node.previousSibling;
+    while (previous && previous.nodeName === 'w:rPr') {
+      previous = previous.previousSibling;
+    }
+    if (!previous) {
+      return run;
+    }
+
+    const copy = run.ownerDocument.createElementNS(W_NS, 'w:r');
+    Array.from(run.attributes).forEach(attr => copy.setAttribute(attr.name, attr.value));
+    const rPr = this.childElement(run, 'w:rPr');
+    if (rPr) {
+      copy.appendChild(copyElement(rPr));
+    }
+    for (let child: Node | null = node; child; ) {
+      const next: Node | null = child.nextSibling;
+      copy.appendChild(child);
+      child = next;
+    }
+    run.parentNode!.insertBefore(copy, run.nextSibling);
+    return copy;
+  }
+
+  /**
+   * Runs of this paragraph in document order, leaving out tracked
+   * deletions and the content of nested paragraphs (text boxes)
+   */
+  private getRuns(): Element[] {
+    return Array.from(this.para.getElementsByTagName('w:r')).filter(run => {
+      for (let el = run.parentNode; el && el !== this.para; el = el.parentNode) {
+        if (el.nodeName === 'w:p' || DELETED_CONTENT.has(el.nodeName)) return false;
+      }
+      return true;
+    });
+  }
+
+  private collectAtoms(container: Element): void {
+    for (const child of this.childElements(container)) {
+      if (child.nodeName === 'w:r') {
+        for (const content of this.childElements(child)) {
+          const isPageBreak = content.nodeName === 'w:br' && content.getAttribute('w:type') === 'page';
+          const text = content.nodeName === 'w:t'
+            ? content.textContent || ''
+            : isPageBreak ? '' : CHARACTER_ELEMENTS[content.nodeName] || '';
+          if (text) {
+            this.atoms.push({ node: content, text });
+          }
+        }
+      } else if (RUN_CONTAINERS.has(child.nodeName)) {
+        this.collectAtoms(child);
+      }
+    }
+  }
+
+  private childElements(el: Element): Element[] {
+    return Array.from(el.childNodes).filter((node): node is Element => node.nodeType === 1);
+  }
+
+  private childElement(el: Element, tagName: string): Element | null {
+    return this.childElements(el).find(child => child.nodeName === tagName) || null;
+  }
+}
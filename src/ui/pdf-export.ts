@@ -0,0 +1,977 @@
+// PDF Export - Lays out the redline as a PDF in the browser, with no server
+
+import type { Block, DocumentAST, TableCell } from '../types/ast.types';
+import {
+  PARAGRAPH_BOUNDARY,
+  PARAGRAPH_MARK,
+  type BlockDiff,
+  type CellDiff,
+  type ChangeState,
+  type DocumentDiff,
+  type FormatChange,
+  type GroupedChange
+} from '../types/diff.types';
+import { describeFormatChange, getStoryLabel, groupTableRows } from '../renderer/diff-renderer';
+import { CATEGORY_LABELS, type ChangeCategory, type ChangeEntry } from '../renderer/change-summary';
+import { PdfPage, buildPdf, measureText, type PdfFont } from './pdf-writer';
+
+export interface PdfExportOptions {
+  /** Paper size (default: 'a4') */
+  pageSize: 'a4' | 'letter';
+  /** Review decision per change id; decided changes are shown resolved (default: none) */
+  changeStates: ReadonlyMap<string, ChangeState>;
+}
+
+const DEFAULT_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  changeStates: new Map()
+};
+
+// Page sizes in points
+const PAGE_SIZES: Record<PdfExportOptions['pageSize'], { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+
+const LAYOUT = {
+  MARGIN_X: 64,        // Left and right margins
+  MARGIN_TOP: 76,      // Top margin, below the page header
+  MARGIN_BOTTOM: 64,   // Bottom margin, above the page number
+  HEADER_Y: 40,        // Page header baseline, from the top edge
+  FOOTER_Y: 36,        // Page number baseline, from the bottom edge
+  BAR_OFFSET: 16,      // Change bars sit this far left of the text
+  BAR_WIDTH: 2.5,
+  LINE_HEIGHT: 1.4,    // Line height as a multiple of the font size
+  BLOCK_SPACING: 6,    // Space after each paragraph or table
+  LIST_INDENT: 18,     // Indent per list level
+  CELL_PADDING: 4,
+  INDEX_PAGE_WIDTH: 36 // Room for page numbers in the change index
+};
+
+/**
+ * How a span of text is marked in the redline
+ */
+type SpanStyle = 'plain' | 'insert' | 'delete' | 'moveFrom' | 'moveTo' | 'format' | 'marker' | 'note';
+
+// Text colours, after the highlights of the redline pane
+const STYLE_COLORS: Record<SpanStyle, string> = {
+  plain: '#24292f',
+  insert: '#1a7f37',
+  delete: '#cf222e',
+  moveFrom: '#0969da',
+  moveTo: '#0969da',
+  format: '#24292f',
+  marker: '#0969da',
+  note: '#57606a'
+};
+
+// Change bar colours by change type
+const BAR_COLORS: Record<ChangeCategory, string> = {
+  insert: '#2da44e',
+  delete: '#cf222e',
+  modify: '#bf8700',
+  format: '#0969da',
+  move: '#0969da'
+};
+
+// Font size and weight of each block type
+const BLOCK_FONTS: Record<Block['type'], { size: number; bold: boolean }> = {
+  paragraph: { size: 10, bold: false },
+  heading1: { size: 16, bold: true },
+  heading2: { size: 13.5, bold: true },
+  heading3: { size: 11.5, bold: true },
+  'list-item': { size: 10, bold: false },
+  table: { size: 10, bold: false },
+  'table-row': { size: 9, bold: false },
+  'page-break': { size: 10, bold: false }
+};
+
+/**
+ * A run of text in one style and font. `link` names an anchor the text
+ * jumps to when clicked.
+ */
+interface Span {
+  text: string;
+  style: SpanStyle;
+  font: PdfFont;
+  link?: string;
+}
+
+/**
+ * A laid out line; piece positions are relative to the start of the line
+ */
+interface Line {
+  pieces: (Span & { x: number; width: number })[];
+}
+
+/**
+ * Where laid out lines can be linked to, and the change bar drawn beside
+ * them, if any
+ */
+interface LineTarget {
+  anchors: string[];
+  bar?: ChangeCategory;
+}
+
+/**
+ * A spot in the layout that links jump to
+ */
+interface Anchor {
+  page: PdfPage;
+  y: number;
+}
+
+/**
+ * A clickable area whose anchor may not be laid out yet
+ */
+interface PendingLink {
+  page: PdfPage;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  anchor: string;
+}
+
+/**
+ * A table cell ready for layout
+ */
+interface RowCell {
+  gridSpan: number;
+  spans: Span[];
+}
+
+export class PdfExporter {
+  private options: PdfExportOptions = DEFAULT_OPTIONS;
+  private pages: PdfPage[] = [];
+  private y = 0;
+  private anchors = new Map<string, Anchor>();
+  private links: PendingLink[] = [];
+  private pageNumbers: { page: PdfPage; right: number; baseline: number; anchor: string }[] = [];
+  private categories = new Map<string, ChangeCategory>();
+  private unsupportedCharacters: string[] = [];
+
+  /**
+   * Lay out a summary page with a linked change index, followed by the
+   * redline with coloured underline and strikethrough and change bars in
+   * the margin. Every page is headed with both file names.
+   */
+  generateReport(
+    diff: DocumentDiff,
+    entries: ChangeEntry[],
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    originalFileName: string,
+    currentFileName: string,
+    options: Partial<PdfExportOptions> = {}
+  ): Uint8Array<ArrayBuffer> {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.anchors = new Map();
+    this.links = [];
+    this.pageNumbers = [];
+    this.categories = new Map(entries.map(entry => [entry.changeId, entry.category]));
+
+    // The redline goes first, so the summary knows where each change landed
+    this.pages = [];
+    this.addPage();
+    this.layoutBlockDiffs(diff.blockDiffs);
+    for (const storyDiff of diff.storyDiffs || []) {
+      if (storyDiff.blockDiffs.length === 0) continue;
+      this.layoutSectionHeading(getStoryLabel(storyDiff));
+      this.layoutBlockDiffs(storyDiff.blockDiffs);
+    }
+    const redlinePages = this.pages;
+
+    this.pages = [];
+    this.addPage();
+    this.layoutSummary(entries, originalAST, currentAST, originalFileName, currentFileName);
+
+    const pages = [...this.pages, ...redlinePages];
+    this.resolveLinks(pages);
+    pages.forEach((page, i) => this.drawPageFrame(page, i + 1, pages.length, originalFileName, currentFileName));
+    this.unsupportedCharacters = [...new Set(pages.flatMap(page => page.getUnsupportedCharacters()))];
+
+    return buildPdf(pages, `Comparison of ${originalFileName} and ${currentFileName}`);
+  }
+
+  /**
+   * Characters of the last report that the PDF's standard fonts cannot
+   * show; they are printed as '?', so the PDF misstates that text
+   */
+  getUnsupportedCharacters(): string[] {
+    return this.unsupportedCharacters;
+  }
+
+  /**
+   * Download the PDF as <original>_comparison.pdf
+   */
+  exportToFile(pdf: Uint8Array<ArrayBuffer>, originalFileName: string): void {
+    const blob = new Blob([pdf], { type: 'application/pdf' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${originalFileName.replace(/\.docx$/i, '')}_comparison.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private get contentWidth(): number {
+    return this.page.width - 2 * LAYOUT.MARGIN_X;
+  }
+
+  private addPage(): void {
+    const { width, height } = PAGE_SIZES[this.options.pageSize];
+    this.pages.push(new PdfPage(width, height));
+    this.y = height - LAYOUT.MARGIN_TOP;
+  }
+
+  /**
+   * Start a new page unless the current one has room left. Content taller
+   * than a page stays where it is rather than leaving empty pages behind.
+   */
+  private ensureSpace(height: number): void {
+    if (this.y - height < LAYOUT.MARGIN_BOTTOM && !this.isPageEmpty()) {
+      this.addPage();
+    }
+  }
+
+  private breakPage(): void {
+    if (!this.isPageEmpty()) {
+      this.addPage();
+    }
+  }
+
+  private isPageEmpty(): boolean {
+    return this.y >= this.page.height - LAYOUT.MARGIN_TOP;
+  }
+
+  private setAnchor(name: string): void {
+    if (!this.anchors.has(name)) {
+      this.anchors.set(name, { page: this.page, y: this.y });
+    }
+  }
+
+  private layoutBlockDiffs(blockDiffs: BlockDiff[]): void {
+    for (const segment of groupTableRows(blockDiffs)) {
+      if (Array.isArray(segment)) {
+        this.layoutTable(segment);
+      } else {
+        this.layoutBlockDiff(segment);
+      }
+    }
+  }
+
+  private layoutBlockDiff(blockDiff: BlockDiff): void {
+    const plainBlocks = this.getPlainBlocks(blockDiff);
+    if (plainBlocks) {
+      const target = this.getTarget(blockDiff, false);
+      for (const block of plainBlocks) {
+        if (block.type === 'page-break') {
+          this.breakPage();
+        } else {
+          this.layoutBlock(block, this.getTextSpans(block, 'plain'), target);
+        }
+      }
+      return;
+    }
+
+    const block = blockDiff.currentBlock ?? blockDiff.originalBlock!;
+    this.layoutBlock(block, this.getBlockSpans(blockDiff), this.getTarget(blockDiff, true), this.getFormatNotes(blockDiff));
+  }
+
+  /**
+   * Blocks shown as plain text: unchanged ones, and changes the reviewer
+   * accepted or rejected. Null for changes still shown as tracked.
+   */
+  private getPlainBlocks(blockDiff: BlockDiff): Block[] | null {
+    if (blockDiff.type === 'unchanged' || blockDiff.type === 'renumbering') {
+      return [blockDiff.currentBlock!];
+    }
+
+    const state = blockDiff.changeId ? this.options.changeStates.get(blockDiff.changeId) : undefined;
+    if (state !== 'accepted' && state !== 'rejected') {
+      return null;
+    }
+
+    const accepted = state === 'accepted';
+    switch (blockDiff.type) {
+      case 'insert':
+        return accepted ? [blockDiff.currentBlock!] : [];
+      case 'delete':
+        return accepted ? [] : [blockDiff.originalBlock!];
+      case 'move':
+        if (blockDiff.move!.role === 'to') {
+          return accepted ? [blockDiff.currentBlock!] : [];
+        }
+        return accepted ? [] : [blockDiff.originalBlock!];
+      default:
+        return accepted
+          ? blockDiff.currentBlocks ?? [blockDiff.currentBlock!]
+          : blockDiff.originalBlocks ?? [blockDiff.originalBlock!];
+    }
+  }
+
+  private getTarget(blockDiff: BlockDiff, tracked: boolean): LineTarget {
+    const anchors: string[] = [];
+    if (blockDiff.changeId) anchors.push(blockDiff.changeId);
+    if (blockDiff.move && tracked) anchors.push(`${blockDiff.move.moveId}-${blockDiff.move.role}`);
+
+    return {
+      anchors,
+      bar: tracked && blockDiff.changeId ? this.categories.get(blockDiff.changeId) ?? 'modify' : undefined
+    };
+  }
+
+  /**
+   * Text of a tracked change, marked up the way the redline pane shows it
+   */
+  private getBlockSpans(blockDiff: BlockDiff): Span[] {
+    switch (blockDiff.type) {
+      case 'insert':
+        return this.getTextSpans(blockDiff.currentBlock!, 'insert');
+
+      case 'delete':
+        return this.getTextSpans(blockDiff.originalBlock!, 'delete');
+
+      case 'move': {
+        const move = blockDiff.move!;
+        const isSource = move.role === 'from';
+        const block = isSource ? blockDiff.originalBlock! : blockDiff.currentBlock!;
+        const marker: Span = {
+          text: isSource ? 'Moved to ' : 'Moved from ',
+          style: 'marker',
+          font: 'bold',
+          link: `${move.moveId}-${isSource ? 'to' : 'from'}`
+        };
+
+        // The destination also shows edits made to the moved text
+        const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
+        const content = !isSource && changes
+          ? [...this.getLabelSpans(block, 'moveTo'), ...this.getChangeSpans(changes, block.text, this.getFont(block), [], 'moveTo')]
+          : this.getTextSpans(block, isSource ? 'moveFrom' : 'moveTo');
+        return [marker, ...content];
+      }
+
+      default: {
+        // Modified, split and merged paragraphs show their word changes in place
+        const block = blockDiff.currentBlock!;
+        const changes = blockDiff.groupedDiff || blockDiff.wordDiff;
+        if (!changes) {
+          return this.getTextSpans(block, 'plain');
+        }
+        const formatChanges = (blockDiff.formatDiff || []).filter(
+          (change): change is FormatChange => change.type === 'format-change'
+        );
+        return [
+          ...this.getLabelSpans(block, 'plain', blockDiff.listLabelChange),
+          ...this.getChangeSpans(changes, block.text, this.getFont(block), formatChanges)
+        ];
+      }
+    }
+  }
+
+  private getTextSpans(block: Block, style: SpanStyle): Span[] {
+    const text = block.type === 'page-break' ? 'Page break' : block.text;
+    const font = block.type === 'page-break' ? 'italic' : this.getFont(block);
+    return [...this.getLabelSpans(block, style), { text, style, font }];
+  }
+
+  private getLabelSpans(block: Block, style: SpanStyle, change?: BlockDiff['listLabelChange']): Span[] {
+    const font = this.getFont(block);
+    if (change) {
+      return [
+        { text: change.from || '', style: 'delete' as const, font },
+        { text: change.to || '', style: 'insert' as const, font },
+        { text: ' ', style, font }
+      ].filter(span => span.text);
+    }
+    return block.listLabel ? [{ text: `${block.listLabel} `, style, font }] : [];
+  }
+
+  /**
+   * Spans for word-level or grouped changes. Unchanged text takes the base
+   * style, or the formatting mark where its run formatting changed.
+   */
+  private getChangeSpans(
+    changes: GroupedChange[],
+    text: string,
+    font: PdfFont,
+    formatChanges: FormatChange[],
+    baseStyle: SpanStyle = 'plain'
+  ): Span[] {
+    const spans: Span[] = [];
+    // Position in the current text, used to place format changes
+    let cursor = 0;
+    const advance = (piece: string) => {
+      const index = text.indexOf(piece, cursor);
+      const start = index >= 0 ? index : cursor;
+      cursor = index >= 0 ? index + piece.length : cursor;
+      return start;
+    };
+    // Replaced words are kept apart so the deletion and insertion stay readable
+    const pushInsertion = (inserted: string) => {
+      const previous = spans[spans.length - 1];
+      if (previous?.style === 'delete' && !/\s$/.test(previous.text) && !/^\s/.test(inserted)) {
+        spans.push({ text: ' ', style: baseStyle, font });
+      }
+      spans.push({ text: inserted, style: 'insert', font });
+    };
+
+    for (const change of changes) {
+      if ('type' in change) {
+        if (change.type === 'token-edit') {
+          change.parts.forEach(part => spans.push({
+            text: part.value,
+            style: part.added ? 'insert' : part.removed ? 'delete' : baseStyle,
+            font
+          }));
+        } else {
+          spans.push({ text: change.deletedText, style: 'delete', font });
+          pushInsertion(change.insertedText);
+        }
+        advance(change.insertedText);
+      } else if (change.removed) {
+        spans.push({ text: change.value, style: 'delete', font });
+      } else if (change.added) {
+        pushInsertion(change.value);
+        advance(change.value);
+      } else {
+        const start = advance(change.value);
+        spans.push(...this.getUnchangedSpans(change.value, start, formatChanges, baseStyle, font));
+      }
+    }
+
+    // Split and merged paragraphs show their changed boundary as a pilcrow
+    return spans.map(span => ({ ...span, text: span.text.split(PARAGRAPH_BOUNDARY).join(PARAGRAPH_MARK) }));
+  }
+
+  private getUnchangedSpans(
+    text: string,
+    start: number,
+    formatChanges: FormatChange[],
+    style: SpanStyle,
+    font: PdfFont
+  ): Span[] {
+    const spans: Span[] = [];
+    const end = start + text.length;
+    let position = start;
+
+    const sorted = [...formatChanges].sort((a, b) => a.currentOffset - b.currentOffset);
+    for (const formatChange of sorted) {
+      const changeStart = Math.max(formatChange.currentOffset, position);
+      const changeEnd = Math.min(formatChange.currentOffset + formatChange.text.length, end);
+      if (changeStart >= changeEnd) continue;
+
+      if (changeStart > position) {
+        spans.push({ text: text.slice(position - start, changeStart - start), style, font });
+      }
+      spans.push({ text: text.slice(changeStart - start, changeEnd - start), style: 'format', font });
+      position = changeEnd;
+    }
+    if (position < end) {
+      spans.push({ text: text.slice(position - start), style, font });
+    }
+
+    return spans;
+  }
+
+  /**
+   * What changed in the formatting of a block, printed below it
+   */
+  private getFormatNotes(blockDiff: BlockDiff): string[] {
+    const notes = (blockDiff.formatDiff || [])
+      .filter((change): change is FormatChange => change.type === 'format-change')
+      .map(change => `Formatting of "${this.truncate(change.text.trim(), 40)}": ${describeFormatChange(change)}`);
+
+    if (blockDiff.paragraphFormatChange) {
+      notes.push(`Paragraph formatting: ${describeFormatChange({ changes: blockDiff.paragraphFormatChange })}`);
+    }
+    return notes;
+  }
+
+  private getFont(block: Block): PdfFont {
+    const bold = BLOCK_FONTS[block.type].bold || !!block.formatting?.bold;
+    const italic = !!block.formatting?.italic;
+    if (bold) return italic ? 'boldItalic' : 'bold';
+    return italic ? 'italic' : 'regular';
+  }
+
+  private layoutBlock(block: Block, spans: Span[], target: LineTarget, notes: string[] = []): void {
+    const { size } = BLOCK_FONTS[block.type];
+    const indent = block.type === 'list-item' ? ((block.listLevel ?? 0) + 1) * LAYOUT.LIST_INDENT : 0;
+
+    if (block.type.startsWith('heading')) {
+      this.y -= size * 0.5;
+    }
+    this.layoutLines(spans, size, indent, target);
+    notes.forEach(note => this.layoutLines([{ text: note, style: 'note', font: 'italic' }], 8, indent, target));
+    this.y -= LAYOUT.BLOCK_SPACING;
+  }
+
+  /**
+   * Wrap spans to the text width and draw them line by line, breaking pages
+   * as needed. Empty paragraphs keep a blank line.
+   */
+  private layoutLines(spans: Span[], size: number, indent: number, target: LineTarget): void {
+    const lineHeight = size * LAYOUT.LINE_HEIGHT;
+    const lines = this.wrapSpans(spans, this.contentWidth - indent, size);
+    if (lines.length === 0) {
+      lines.push({ pieces: [] });
+    }
+
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      target.anchors.forEach(anchor => this.setAnchor(anchor));
+      this.drawLine(line, LAYOUT.MARGIN_X + indent, this.y - size, size);
+      if (target.bar) {
+        this.drawChangeBar(this.y - lineHeight, lineHeight, target.bar);
+      }
+      this.y -= lineHeight;
+    }
+  }
+
+  private layoutSectionHeading(label: string): void {
+    const size = 11;
+    this.ensureSpace(size * LAYOUT.LINE_HEIGHT * 3);
+    this.y -= 12;
+    this.page.drawLine(LAYOUT.MARGIN_X, this.y, this.page.width - LAYOUT.MARGIN_X, this.y, 0.75, '#d0d7de');
+    this.y -= 6;
+    this.drawTextLine(label, 'bold', size, '#57606a');
+    this.y -= LAYOUT.BLOCK_SPACING;
+  }
+
+  /**
+   * Lay out consecutive rows of a table with equal grid columns
+   */
+  private layoutTable(rowDiffs: BlockDiff[]): void {
+    const gridWidth = Math.max(1, ...rowDiffs.flatMap(rowDiff =>
+      [rowDiff.originalBlock, rowDiff.currentBlock].map(block =>
+        (block?.cells || []).reduce((width, cell) => width + cell.gridSpan, 0)
+      )
+    ));
+
+    for (const rowDiff of rowDiffs) {
+      const plainBlocks = this.getPlainBlocks(rowDiff);
+      if (plainBlocks) {
+        const target = this.getTarget(rowDiff, false);
+        plainBlocks.forEach(block => this.layoutTableRow(this.getRowCells(block, 'plain', gridWidth), gridWidth, target));
+      } else {
+        this.layoutTableRow(this.getRowDiffCells(rowDiff, gridWidth), gridWidth, this.getTarget(rowDiff, true));
+      }
+    }
+    this.y -= LAYOUT.BLOCK_SPACING;
+  }
+
+  private getRowDiffCells(rowDiff: BlockDiff, gridWidth: number): RowCell[] {
+    switch (rowDiff.type) {
+      case 'insert':
+        return this.getRowCells(rowDiff.currentBlock!, 'insert', gridWidth);
+      case 'delete':
+        return this.getRowCells(rowDiff.originalBlock!, 'delete', gridWidth);
+      case 'modify':
+        if (rowDiff.cellDiffs) {
+          const font = this.getFont(rowDiff.currentBlock!);
+          return rowDiff.cellDiffs.map(cellDiff => ({
+            gridSpan: (cellDiff.currentCell ?? cellDiff.originalCell)!.gridSpan,
+            spans: this.getCellSpans(cellDiff, font)
+          }));
+        }
+        break;
+    }
+
+    // Moved rows, and modified rows without cells, span the whole table
+    return [{ gridSpan: gridWidth, spans: this.getBlockSpans(rowDiff) }];
+  }
+
+  private getRowCells(block: Block, style: SpanStyle, gridWidth: number): RowCell[] {
+    const font = this.getFont(block);
+    return block.cells
+      ? block.cells.map(cell => ({ gridSpan: cell.gridSpan, spans: [{ text: cell.text, style, font }] }))
+      : [{ gridSpan: gridWidth, spans: [{ text: block.text, style, font }] }];
+  }
+
+  private getCellSpans(cellDiff: CellDiff, font: PdfFont): Span[] {
+    const cellText = (cell: TableCell | undefined) => cell?.text || '';
+
+    switch (cellDiff.type) {
+      case 'insert':
+        return [{ text: cellText(cellDiff.currentCell), style: 'insert', font }];
+      case 'delete':
+        return [{ text: cellText(cellDiff.originalCell), style: 'delete', font }];
+      case 'modify': {
+        const changes = cellDiff.groupedDiff || cellDiff.wordDiff || [];
+        const formatChanges = (cellDiff.formatDiff || []).filter(
+          (change): change is FormatChange => change.type === 'format-change'
+        );
+        return this.getChangeSpans(changes, cellText(cellDiff.currentCell), font, formatChanges);
+      }
+      default:
+        return [{ text: cellText(cellDiff.currentCell), style: 'plain', font }];
+    }
+  }
+
+  private layoutTableRow(cells: RowCell[], gridWidth: number, target: LineTarget): void {
+    const { size } = BLOCK_FONTS['table-row'];
+    const lineHeight = size * LAYOUT.LINE_HEIGHT;
+    const padding = LAYOUT.CELL_PADDING;
+    const columnWidth = this.contentWidth / gridWidth;
+
+    const laidOut = cells.map(cell => ({
+      width: cell.gridSpan * columnWidth,
+      lines: this.wrapSpans(cell.spans, cell.gridSpan * columnWidth - 2 * padding, size)
+    }));
+    const height = Math.max(1, ...laidOut.map(cell => cell.lines.length)) * lineHeight + 2 * padding;
+
+    this.ensureSpace(height);
+    target.anchors.forEach(anchor => this.setAnchor(anchor));
+
+    const top = this.y;
+    let x = LAYOUT.MARGIN_X;
+    for (const cell of laidOut) {
+      this.page.strokeRect(x, top - height, cell.width, height, 0.5, '#d0d7de');
+      cell.lines.forEach((line, i) => this.drawLine(line, x + padding, top - padding - i * lineHeight - size, size));
+      x += cell.width;
+    }
+    if (target.bar) {
+      this.drawChangeBar(top - height, height, target.bar);
+    }
+    this.y -= height;
+  }
+
+  private layoutSummary(
+    entries: ChangeEntry[],
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    originalFileName: string,
+    currentFileName: string
+  ): void {
+    this.drawTextLine('Document Comparison', 'bold', 20, STYLE_COLORS.plain);
+    this.drawTextLine(`Generated ${new Date().toLocaleString()}`, 'regular', 9, STYLE_COLORS.note);
+    this.y -= 12;
+
+    this.layoutFileTable(originalAST, currentAST, originalFileName, currentFileName);
+    this.y -= 16;
+
+    this.drawTextLine('Changes by type', 'bold', 12, STYLE_COLORS.plain);
+    this.y -= 2;
+    this.layoutCounts(entries);
+    this.y -= 8;
+
+    const key: Span[] = [
+      { text: 'Key: ', style: 'plain', font: 'bold' },
+      { text: 'inserted text', style: 'insert', font: 'regular' },
+      { text: ', ', style: 'plain', font: 'regular' },
+      { text: 'deleted text', style: 'delete', font: 'regular' },
+      { text: ', ', style: 'plain', font: 'regular' },
+      { text: 'moved text', style: 'moveTo', font: 'regular' },
+      { text: ', ', style: 'plain', font: 'regular' },
+      { text: 'formatting changed', style: 'format', font: 'regular' },
+      { text: '. A bar in the margin marks every changed line.', style: 'plain', font: 'regular' }
+    ];
+    this.layoutLines(key, 9, 0, { anchors: [] });
+    this.y -= 16;
+
+    this.drawTextLine('Change index', 'bold', 12, STYLE_COLORS.plain);
+    this.y -= 2;
+    if (entries.length === 0) {
+      this.layoutLines([{ text: 'The documents are identical.', style: 'plain', font: 'regular' }], 10, 0, { anchors: [] });
+      return;
+    }
+    entries.forEach((entry, i) => this.layoutIndexEntry(entry, i + 1));
+  }
+
+  private layoutFileTable(
+    originalAST: DocumentAST,
+    currentAST: DocumentAST,
+    originalFileName: string,
+    currentFileName: string
+  ): void {
+    const size = 9;
+    const lineHeight = size * LAYOUT.LINE_HEIGHT;
+    const labelWidth = 70;
+    const valueWidth = (this.contentWidth - labelWidth) / 2;
+
+    const rows: [string, string | undefined, string | undefined][] = [
+      ['', 'Original', 'Current'],
+      ['File', originalFileName, currentFileName],
+      ['Title', originalAST.metadata.title, currentAST.metadata.title],
+      ['Author', originalAST.metadata.author, currentAST.metadata.author],
+      ['Created', this.formatDate(originalAST.metadata.created), this.formatDate(currentAST.metadata.created)],
+      ['Modified', this.formatDate(originalAST.metadata.modified), this.formatDate(currentAST.metadata.modified)]
+    ];
+
+    rows.filter(([, original, current]) => original || current).forEach(([label, original, current], i) => {
+      const font: PdfFont = i === 0 ? 'bold' : 'regular';
+      const values = [original, current].map(value =>
+        this.wrapSpans([{ text: value || '', style: 'plain', font }], valueWidth - 8, size)
+      );
+      const height = Math.max(1, ...values.map(lines => lines.length)) * lineHeight + 4;
+
+      this.ensureSpace(height);
+      const baseline = this.y - size - 2;
+      this.page.drawText(label, LAYOUT.MARGIN_X, baseline, 'bold', size, STYLE_COLORS.plain);
+      values.forEach((lines, column) => lines.forEach((line, j) =>
+        this.drawLine(line, LAYOUT.MARGIN_X + labelWidth + column * valueWidth, baseline - j * lineHeight, size)
+      ));
+      this.y -= height;
+      this.page.drawLine(LAYOUT.MARGIN_X, this.y, this.page.width - LAYOUT.MARGIN_X, this.y, 0.5, '#d0d7de');
+    });
+  }
+
+  private layoutCounts(entries: ChangeEntry[]): void {
+    const size = 10;
+    const countX = LAYOUT.MARGIN_X + 150;
+    const counts = new Map<ChangeCategory, number>();
+    entries.forEach(entry => counts.set(entry.category, (counts.get(entry.category) || 0) + 1));
+
+    const rows: [string, number, ChangeCategory | null][] = (Object.keys(CATEGORY_LABELS) as ChangeCategory[])
+      .map(category => [CATEGORY_LABELS[category], counts.get(category) || 0, category]);
+    rows.push(['Total', entries.length, null]);
+
+    for (const [label, count, category] of rows) {
+      const font: PdfFont = category ? 'regular' : 'bold';
+      const lineHeight = size * LAYOUT.LINE_HEIGHT;
+      this.ensureSpace(lineHeight);
+      const baseline = this.y - size;
+      if (category) {
+        this.page.fillRect(LAYOUT.MARGIN_X, baseline, 8, 8, BAR_COLORS[category]);
+      }
+      this.page.drawText(label, LAYOUT.MARGIN_X + 14, baseline, font, size, STYLE_COLORS.plain);
+      const countText = String(count);
+      this.page.drawText(countText, countX - measureText(countText, font, size), baseline, font, size, STYLE_COLORS.plain);
+      this.y -= lineHeight;
+    }
+  }
+
+  /**
+   * One change in the index: its number, type and heading, the before and
+   * after snippet, and the page it is on. The whole entry links to it.
+   */
+  private layoutIndexEntry(entry: ChangeEntry, number: number): void {
+    const size = 9;
+    const snippetSize = 8.5;
+    const indent = 16;
+    const width = this.contentWidth - LAYOUT.INDEX_PAGE_WIDTH;
+    const state = this.options.changeStates.get(entry.changeId);
+
+    const title: Span[] = [
+      { text: `${number}. `, style: 'plain', font: 'regular' },
+      { text: CATEGORY_LABELS[entry.category], style: 'plain', font: 'bold' }
+    ];
+    if (entry.heading) {
+      title.push({ text: `  ${entry.heading}`, style: 'note', font: 'regular' });
+    }
+    if (state === 'accepted' || state === 'rejected') {
+      title.push({ text: ` (${state})`, style: 'note', font: 'italic' });
+    }
+    const snippet: Span[] = [];
+    if (entry.before) snippet.push({ text: entry.before, style: 'delete', font: 'regular' });
+    if (entry.before && entry.after) snippet.push({ text: '  ', style: 'plain', font: 'regular' });
+    if (entry.after) snippet.push({ text: entry.after, style: 'insert', font: 'regular' });
+
+    const titleLines = this.wrapSpans(title, width, size);
+    const snippetLines = this.wrapSpans(snippet, width - indent, snippetSize);
+    const titleHeight = titleLines.length * size * LAYOUT.LINE_HEIGHT;
+    const height = titleHeight + snippetLines.length * snippetSize * LAYOUT.LINE_HEIGHT;
+
+    this.ensureSpace(height);
+    const top = this.y;
+    titleLines.forEach((line, i) => this.drawLine(line, LAYOUT.MARGIN_X, top - size - i * size * LAYOUT.LINE_HEIGHT, size));
+    snippetLines.forEach((line, i) => this.drawLine(
+      line,
+      LAYOUT.MARGIN_X + indent,
+      top - titleHeight - snippetSize - i * snippetSize * LAYOUT.LINE_HEIGHT,
+      snippetSize
+    ));
+
+    this.links.push({ page: this.page, x: LAYOUT.MARGIN_X, y: top - height, width: this.contentWidth, height, anchor: entry.changeId });
+    this.pageNumbers.push({ page: this.page, right: this.page.width - LAYOUT.MARGIN_X, baseline: top - size, anchor: entry.changeId });
+    this.y -= height + 5;
+  }
+
+  /**
+   * Break spans into lines no wider than `width`. Runs of whitespace collapse
+   * to a single space and are dropped at line ends; words wider than a line
+   * are broken anywhere. A newline in the text forces a break.
+   */
+  private wrapSpans(spans: Span[], width: number, size: number): Line[] {
+    const lines: Line[] = [];
+    let line: Line = { pieces: [] };
+    let lineWidth = 0;
+    let space: Span | null = null;
+
+    const endLine = () => {
+      lines.push(line);
+      line = { pieces: [] };
+      lineWidth = 0;
+      space = null;
+    };
+    const place = (span: Span, text: string) => {
+      const textWidth = measureText(text, span.font, size);
+      const last = line.pieces[line.pieces.length - 1];
+      if (last && last.style === span.style && last.font === span.font && last.link === span.link) {
+        last.text += text;
+        last.width += textWidth;
+      } else {
+        line.pieces.push({ ...span, text, x: lineWidth, width: textWidth });
+      }
+      lineWidth += textWidth;
+    };
+
+    for (const span of spans) {
+      for (const token of span.text.match(/\n|[^\S\n]+|\S+/g) || []) {
+        if (token === '\n') {
+          endLine();
+          continue;
+        }
+        if (/^\s/.test(token)) {
+          if (line.pieces.length > 0) space = span;
+          continue;
+        }
+
+        let word = token;
+        const spaceWidth = space ? measureText(' ', space.font, size) : 0;
+        if (line.pieces.length > 0 && lineWidth + spaceWidth + measureText(word, span.font, size) > width) {
+          endLine();
+        } else if (space) {
+          place(space, ' ');
+        }
+        space = null;
+
+        while (word.length > 1 && measureText(word, span.font, size) > width - lineWidth) {
+          let fit = 1;
+          while (fit < word.length - 1 && measureText(word.slice(0, fit + 1), span.font, size) <= width - lineWidth) {
+            fit++;
+          }
+          place(span, word.slice(0, fit));
+          word = word.slice(fit);
+          endLine();
+        }
+        place(span, word);
+      }
+    }
+    if (line.pieces.length > 0) {
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Draw a line of text with the marks of each style: single underline for
+   * insertions, strikethrough for deletions, double ones for moves and a
+   * dashed underline for formatting changes
+   */
+  private drawLine(line: Line, x: number, baseline: number, size: number): void {
+    const thickness = size * 0.06;
+    const underline = baseline - size * 0.15;
+    const strike = baseline + size * 0.3;
+
+    for (const piece of line.pieces) {
+      const left = x + piece.x;
+      const right = left + piece.width;
+      const color = STYLE_COLORS[piece.style];
+      this.page.drawText(piece.text, left, baseline, piece.font, size, color);
+
+      switch (piece.style) {
+        case 'insert':
+          this.page.drawLine(left, underline, right, underline, thickness, color);
+          break;
+        case 'delete':
+          this.page.drawLine(left, strike, right, strike, thickness, color);
+          break;
+        case 'moveTo':
+          this.page.drawLine(left, underline, right, underline, thickness, color);
+          this.page.drawLine(left, underline - thickness * 2.5, right, underline - thickness * 2.5, thickness, color);
+          break;
+        case 'moveFrom':
+          this.page.drawLine(left, strike - thickness * 1.25, right, strike - thickness * 1.25, thickness, color);
+          this.page.drawLine(left, strike + thickness * 1.25, right, strike + thickness * 1.25, thickness, color);
+          break;
+        case 'format':
+          this.page.drawLine(left, underline, right, underline, thickness, BAR_COLORS.format, [2, 1.5]);
+          break;
+      }
+
+      if (piece.link) {
+        this.links.push({ page: this.page, x: left, y: baseline - size * 0.25, width: piece.width, height: size * 1.2, anchor: piece.link });
+      }
+    }
+  }
+
+  private drawTextLine(text: string, font: PdfFont, size: number, color: string): void {
+    const lineHeight = size * LAYOUT.LINE_HEIGHT;
+    this.ensureSpace(lineHeight);
+    this.page.drawText(text, LAYOUT.MARGIN_X, this.y - size, font, size, color);
+    this.y -= lineHeight;
+  }
+
+  private drawChangeBar(bottom: number, height: number, category: ChangeCategory): void {
+    this.page.fillRect(LAYOUT.MARGIN_X - LAYOUT.BAR_OFFSET, bottom, LAYOUT.BAR_WIDTH, height, BAR_COLORS[category]);
+  }
+
+  /**
+   * Page header with both file names, and the page number below
+   */
+  private drawPageFrame(page: PdfPage, number: number, total: number, originalFileName: string, currentFileName: string): void {
+    const size = 8;
+    const top = page.height - LAYOUT.HEADER_Y;
+    const half = (page.width - 2 * LAYOUT.MARGIN_X) / 2 - 8;
+
+    const original = this.fitText(`Original: ${originalFileName}`, size, half);
+    const current = this.fitText(`Current: ${currentFileName}`, size, half);
+    page.drawText(original, LAYOUT.MARGIN_X, top, 'regular', size, STYLE_COLORS.note);
+    page.drawText(current, page.width - LAYOUT.MARGIN_X - measureText(current, 'regular', size), top, 'regular', size, STYLE_COLORS.note);
+    page.drawLine(LAYOUT.MARGIN_X, top - 6, page.width - LAYOUT.MARGIN_X, top - 6, 0.5, '#d0d7de');
+
+    const footer = `Page ${number} of ${total}`;
+    page.drawText(footer, (page.width - measureText(footer, 'regular', size)) / 2, LAYOUT.FOOTER_Y, 'regular', size, STYLE_COLORS.note);
+  }
+
+  /**
+   * Turn pending links into annotations, and print the page each index
+   * entry links to. Links whose anchor was never laid out, such as changes
+   * the reviewer removed, are dropped.
+   */
+  private resolveLinks(pages: PdfPage[]): void {
+    for (const link of this.links) {
+      const anchor = this.anchors.get(link.anchor);
+      if (anchor) {
+        link.page.addLink(link.x, link.y, link.width, link.height, anchor.page, anchor.y + 4);
+      }
+    }
+
+    for (const { page, right, baseline, anchor } of this.pageNumbers) {
+      const target = this.anchors.get(anchor);
+      if (!target) continue;
+      const text = String(pages.indexOf(target.page) + 1);
+      page.drawText(text, right - measureText(text, 'regular', 9), baseline, 'regular', 9, STYLE_COLORS.note);
+    }
+  }
+
+  private fitText(text: string, size: number, width: number): string {
+    if (measureText(text, 'regular', size) <= width) {
+      return text;
+    }
+    let fitted = text;
+    while (fitted.length > 1 && measureText(`${fitted}…`, 'regular', size) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+
+  private formatDate(date: Date | undefined): string | undefined {
+    return date && !isNaN(date.getTime()) ? date.toLocaleString() : undefined;
+  }
+}
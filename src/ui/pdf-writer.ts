@@ -0,0 +1,303 @@
+// PDF Writer - Builds PDF files in the browser with the standard Helvetica fonts
+
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+// The four Helvetica faces every PDF reader provides, so no font is embedded
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  boldItalic: 'Helvetica-BoldOblique'
+};
+
+const FONT_KEYS: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+  italic: 'F3',
+  boldItalic: 'F4'
+};
+
+// Advance widths of printable ASCII (32-126) in 1/1000 em, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Punctuation WinAnsiEncoding places at 0x80-0x9F: [code, regular width, bold width]
+const WIN_ANSI_PUNCTUATION: Record<string, [number, number, number]> = {
+  '€': [0x80, 556, 556],
+  '…': [0x85, 1000, 1000],
+  '‘': [0x91, 222, 278],
+  '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500],
+  '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350],
+  '–': [0x96, 556, 556],
+  '—': [0x97, 1000, 1000],
+  '™': [0x99, 1000, 1000]
+};
+
+// Latin-1 symbols whose width is not that of a base letter: [regular, bold]
+const LATIN1_WIDTHS: Record<string, [number, number]> = {
+  '\u00a0': [278, 278], '¡': [333, 333], '¢': [556, 556], '£': [556, 556], '¥': [556, 556],
+  '§': [556, 556], '©': [737, 737], '«': [556, 556], '®': [737, 737], '°': [400, 400],
+  '±': [584, 584], '¶': [537, 556], '·': [278, 278], '»': [556, 556], '½': [834, 834],
+  '¿': [611, 611], 'Æ': [1000, 1000], '×': [584, 584], 'Ø': [778, 778], 'ß': [611, 611],
+  'æ': [889, 889], '÷': [584, 584], 'ø': [611, 611]
+};
+
+// Characters WinAnsiEncoding lacks, spelled with ones it has
+const SUBSTITUTIONS: Record<string, string> = {
+  '\t': ' ',
+  '\u200b': '',
+  '\u2011': '-',
+  '\u2212': '-',
+  '→': '->',
+  '←': '<-',
+  '≤': '<=',
+  '≥': '>=',
+  '≠': '!='
+};
+
+// Inverse of WIN_ANSI_PUNCTUATION, by code
+const PUNCTUATION_BY_CODE = new Map(Object.values(WIN_ANSI_PUNCTUATION).map(entry => [entry[0], entry]));
+
+/**
+ * Text as WinAnsiEncoding bytes, one char per byte. Accented letters
+ * outside Latin-1 lose their accent; anything else becomes '?'.
+ */
+export function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    encoded += encodeChar(char) ?? '?';
+  }
+  return encoded;
+}
+
+/**
+ * Characters of text that the standard fonts cannot show, even simplified,
+ * in order of first appearance. encodeText prints each as '?'.
+ */
+export function findUnsupportedCharacters(text: string): string[] {
+  const unsupported = new Set<string>();
+  for (const char of text) {
+    if (encodeChar(char) === null) {
+      unsupported.add(char);
+    }
+  }
+  return [...unsupported];
+}
+
+function encodeChar(char: string): string | null {
+  const code = char.charCodeAt(0);
+  if (char in SUBSTITUTIONS) {
+    return SUBSTITUTIONS[char];
+  } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+    return char;
+  } else if (char in WIN_ANSI_PUNCTUATION) {
+    return String.fromCharCode(WIN_ANSI_PUNCTUATION[char][0]);
+  } else if (code < 32) {
+    return ' ';
+  }
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? String.fromCharCode(base) : null;
+}
+
+/**
+ * Width of text in points when set in a font at a size
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  const bold = font === 'bold' || font === 'boldItalic';
+  const encoded = encodeText(text);
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    width += charWidth(encoded.charCodeAt(i), bold);
+  }
+  return (width * size) / 1000;
+}
+
+function charWidth(code: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code <= 126) {
+    return widths[code - 32];
+  }
+  const punctuation = PUNCTUATION_BY_CODE.get(code);
+  if (punctuation) {
+    return bold ? punctuation[2] : punctuation[1];
+  }
+
+  const char = String.fromCharCode(code);
+  if (char in LATIN1_WIDTHS) {
+    return LATIN1_WIDTHS[char][bold ? 1 : 0];
+  }
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? widths[base - 32] : 556;
+}
+
+/**
+ * An internal link: a clickable area that jumps to a spot on another page
+ */
+interface PdfLink {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  target: PdfPage;
+  targetY: number;
+}
+
+/**
+ * One page. Coordinates are in points from the bottom-left corner, as in
+ * PDF itself; colours are '#rrggbb'.
+ */
+export class PdfPage {
+  readonly width: number;
+  readonly height: number;
+  private ops: string[] = [];
+  private links: PdfLink[] = [];
+  private unsupported = new Set<string>();
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Draw text with its baseline starting at (x, y)
+   */
+  drawText(text: string, x: number, y: number, font: PdfFont, size: number, color = '#000000'): void {
+    if (!text) return;
+    findUnsupportedCharacters(text).forEach(char => this.unsupported.add(char));
+    this.ops.push(
+      `BT /${FONT_KEYS[font]} ${num(size)} Tf ${this.color(color)} rg ${num(x)} ${num(y)} Td (${escapeString(encodeText(text))}) Tj ET`
+    );
+  }
+
+  drawLine(x1: number, y1: number, x2: number, y2: number, lineWidth: number, color: string, dash: number[] = []): void {
+    this.ops.push(
+      `q ${this.color(color)} RG ${num(lineWidth)} w [${dash.map(num).join(' ')}] 0 d ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S Q`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string): void {
+    this.ops.push(`q ${this.color(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f Q`);
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, lineWidth: number, color: string): void {
+    this.ops.push(`q ${this.color(color)} RG ${num(lineWidth)} w ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S Q`);
+  }
+
+  /**
+   * Make an area clickable, jumping to a height on the target page
+   */
+  addLink(x: number, y: number, width: number, height: number, target: PdfPage, targetY: number): void {
+    this.links.push({ x, y, width, height, target, targetY });
+  }
+
+  getContent(): string {
+    return this.ops.join('\n');
+  }
+
+  getLinks(): PdfLink[] {
+    return this.links;
+  }
+
+  /**
+   * Characters drawn on the page that were printed as '?'
+   */
+  getUnsupportedCharacters(): string[] {
+    return [...this.unsupported];
+  }
+
+  private color(hex: string): string {
+    const value = parseInt(hex.slice(1), 16);
+    return [value >> 16, (value >> 8) & 0xff, value & 0xff].map(c => num(c / 255)).join(' ');
+  }
+}
+
+/**
+ * Serialize pages into a PDF file
+ */
+export function buildPdf(pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> {
+  // Objects 1-7 are the catalog, page tree, fonts and document info; each
+  // page is followed by its content stream
+  const pageRef = (index: number) => `${8 + index * 2} 0 R`;
+  const fontRefs = (Object.keys(FONT_KEYS) as PdfFont[])
+    .map((font, i) => `/${FONT_KEYS[font]} ${3 + i} 0 R`)
+    .join(' ');
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => pageRef(i)).join(' ')}] /Count ${pages.length} >>`,
+    ...(Object.keys(FONT_NAMES) as PdfFont[]).map(font =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+    ),
+    `<< /Title (${escapeString(encodeText(title))}) /Producer (DocRedliner) /CreationDate (D:${formatPdfDate(new Date())}) >>`
+  ];
+
+  pages.forEach((page, i) => {
+    const annots = page.getLinks().map(link => {
+      const target = pages.indexOf(link.target);
+      const rect = [link.x, link.y, link.x + link.width, link.y + link.height].map(num).join(' ');
+      return `<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /Dest [${pageRef(target)} /XYZ 0 ${num(link.targetY)} null] >>`;
+    });
+    const content = page.getContent();
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << ${fontRefs} >> >> /Contents ${9 + i * 2} 0 R` +
+      (annots.length > 0 ? ` /Annots [${annots.join(' ')}]` : '') + ' >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every char is a single byte, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function escapeString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Numbers as PDF writes them: at most two decimals, no exponent
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
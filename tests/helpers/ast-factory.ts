@@ -1,6 +1,6 @@
 // AST Factory - Factory functions for creating test AST structures
 
-import type { DocumentAST, Block, TextRun, TextFormatting } from '../../src/types/ast.types';
+import type { DocumentAST, Block, TableCell, TextRun, TextFormatting } from '../../src/types/ast.types';
 
 /**
  * Create default text formatting
@@ -69,6 +69,33 @@ export function createHeading(
   };
 }
 
+/**
+ * Create a table-row block; cells are plain text or full TableCell objects
+ */
+export function createTableRow(
+  cells: (string | TableCell)[],
+  options: {
+    id?: string;
+    tableId?: string;
+    rowIndex?: number;
+  } = {}
+): Block {
+  const tableCells: TableCell[] = cells.map(cell =>
+    typeof cell === 'string' ? { text: cell, runs: [createTextRun(cell)], gridSpan: 1 } : cell
+  );
+  const text = tableCells.map(cell => cell.text).join(' | ');
+  return {
+    id: options.id || `block-${Math.random().toString(36).substr(2, 9)}`,
+    type: 'table-row',
+    text,
+    runs: [createTextRun(text)],
+    formatting: createFormatting(),
+    tableId: options.tableId || 'table-0',
+    rowIndex: options.rowIndex || 0,
+    cells: tableCells
+  };
+}
+
 /**
  * Create a page break block
  */
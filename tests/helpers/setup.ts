@@ -2,14 +2,6 @@
 
 import { vi } from 'vitest';
 
-// Mock window.officeParser for browser-dependent code
-Object.defineProperty(globalThis, 'officeParser', {
-  value: {
-    parseOffice: vi.fn()
-  },
-  writable: true
-});
-
 // Mock URL.createObjectURL and URL.revokeObjectURL for export tests
 if (typeof URL.createObjectURL === 'undefined') {
   URL.createObjectURL = vi.fn(() => 'blob:mock-url');
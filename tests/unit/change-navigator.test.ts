@@ -279,6 +279,87 @@ describe('ChangeNavigator', () => {
     });
   });
 
+  describe('goToChange()', () => {
+    it('should navigate to the element with a change id', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      const onNavigate = vi.fn();
+      navigator.onNavigate(onNavigate);
+
+      expect(navigator.goToChange('change-2')).toBe(true);
+
+      expect(changeElements[2].classList.contains('change-highlight')).toBe(true);
+      expect(counter.textContent).toBe('3 of 3 changes');
+      expect(onNavigate).toHaveBeenCalledWith('change-2');
+    });
+
+    it('should return false for an unknown change id', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+
+      expect(navigator.goToChange('change-9')).toBe(false);
+      expect(counter.textContent).toBe('0 of 3 changes');
+    });
+  });
+
+  describe('Decisions', () => {
+    it('should report a decision on the current change and move on', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      const onDecision = vi.fn();
+      navigator.onDecision(onDecision);
+      navigator.goToNext();
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'r' }));
+
+      expect(onDecision).toHaveBeenCalledWith('change-0', 'rejected');
+      expect(counter.textContent).toBe('2 of 3 changes');
+    });
+
+    it('should stay on the change when it is set back to pending', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      const onDecision = vi.fn();
+      navigator.onDecision(onDecision);
+      navigator.goToChange('change-1');
+
+      navigator.decideCurrent('pending');
+
+      expect(onDecision).toHaveBeenCalledWith('change-1', 'pending');
+      expect(counter.textContent).toBe('2 of 3 changes');
+    });
+
+    it('should ignore decisions before any change is selected', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      const onDecision = vi.fn();
+      navigator.onDecision(onDecision);
+
+      navigator.decideCurrent('accepted');
+
+      expect(onDecision).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setChangeElements()', () => {
+    it('should keep the current change when it is still listed', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      navigator.goToChange('change-2');
+
+      navigator.setChangeElements([changeElements[0], changeElements[2]]);
+
+      expect(changeElements[2].classList.contains('change-highlight')).toBe(true);
+      expect(counter.textContent).toBe('2 of 2 changes');
+      navigator.goToNext();
+      expect(changeElements[0].classList.contains('change-highlight')).toBe(true);
+    });
+
+    it('should drop the highlight of a change that is filtered out', () => {
+      const navigator = new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
+      navigator.goToChange('change-1');
+
+      navigator.setChangeElements([changeElements[0], changeElements[2]]);
+
+      expect(changeElements[1].classList.contains('change-highlight')).toBe(false);
+      expect(counter.textContent).toBe('0 of 2 changes');
+    });
+  });
+
   describe('Counter display', () => {
     it('should show "0 of Y changes" format initially', () => {
       new ChangeNavigator(changeElements, 'btn-prev', 'btn-next', 'change-counter');
@@ -0,0 +1,91 @@
+// Unit tests for ChangeSummary - sidebar entries and type filters
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChangeSummary } from '../../src/renderer/change-summary';
+import { DiffEngine } from '../../src/diff/diff-engine';
+import { createDocument, createHeading, createParagraph } from '../helpers/ast-factory';
+
+function createDiff() {
+  const original = createDocument([
+    createHeading('Payment'),
+    createParagraph('Payment is due within thirty days of the invoice date.'),
+    createParagraph('Late payments carry interest.'),
+    createHeading('Term'),
+    createParagraph('This agreement lasts one year.')
+  ]);
+  const current = createDocument([
+    createHeading('Payment'),
+    createParagraph('Payment is due within sixty days of the invoice date.'),
+    createParagraph('Late payments carry interest.', { formatting: { bold: true } }),
+    createHeading('Term'),
+    createParagraph('This agreement lasts one year.'),
+    createParagraph('Either party may renew it.')
+  ]);
+  return new DiffEngine().diffDocuments(original, current);
+}
+
+describe('ChangeSummary', () => {
+  let sidebar: HTMLElement;
+  let summary: ChangeSummary;
+
+  beforeEach(() => {
+    document.body.innerHTML = `<aside id="change-sidebar"></aside>`;
+    sidebar = document.getElementById('change-sidebar')!;
+    summary = new ChangeSummary('change-sidebar');
+  });
+
+  it('should throw error when container not found', () => {
+    expect(() => new ChangeSummary('nonexistent')).toThrow('Change summary container not found');
+  });
+
+  it('should list each change with its type, heading and snippet', () => {
+    summary.render(createDiff());
+
+    expect(summary.getEntries()).toEqual([
+      {
+        changeId: 'change-0',
+        category: 'modify',
+        heading: 'Payment',
+        before: 'Payment is due within thirty days of the invoice dat…',
+        after: 'Payment is due within sixty days of the invoice dat…'
+      },
+      expect.objectContaining({ changeId: 'change-1', category: 'format', heading: 'Payment' }),
+      { changeId: 'change-2', category: 'insert', heading: 'Term', after: 'Either party may renew it.' }
+    ]);
+
+    const items = sidebar.querySelectorAll('.change-entry');
+    expect(items).toHaveLength(3);
+    expect(items[2].getAttribute('data-change-id')).toBe('change-2');
+    expect(items[2].querySelector('.change-type')!.textContent).toBe('Inserted');
+    expect(items[2].querySelector('ins')!.textContent).toBe('Either party may renew it.');
+  });
+
+  it('should hide filtered types and report the ids left visible', () => {
+    const onFilterChange = vi.fn();
+    summary.onFilterChange(onFilterChange);
+    summary.render(createDiff());
+
+    const checkbox = sidebar.querySelector<HTMLInputElement>('input[data-category="format"]')!;
+    checkbox.checked = false;
+    checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+
+    const ids = Array.from(sidebar.querySelectorAll('.change-entry')).map(el => el.getAttribute('data-change-id'));
+    expect(ids).toEqual(['change-0', 'change-2']);
+    expect(onFilterChange).toHaveBeenCalledWith(new Set(['change-0', 'change-2']));
+
+    // The filter survives a new comparison
+    summary.render(createDiff());
+    expect(sidebar.querySelector<HTMLInputElement>('input[data-category="format"]')!.checked).toBe(false);
+    expect(summary.getVisibleChangeIds()).toEqual(new Set(['change-0', 'change-2']));
+  });
+
+  it('should report the change id of a clicked entry', () => {
+    const onSelect = vi.fn();
+    summary.onSelect(onSelect);
+    summary.render(createDiff());
+
+    sidebar.querySelector<HTMLElement>('[data-change-id="change-2"] .change-snippet')!.click();
+
+    expect(onSelect).toHaveBeenCalledWith('change-2');
+  });
+});
@@ -2,6 +2,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { DiffEngine } from '../../src/diff/diff-engine';
+import { PARAGRAPH_BOUNDARY, type FormatChange, type TokenEdit } from '../../src/types/diff.types';
 import {
   createSimpleDocument,
   createMultiParagraphDocument,
@@ -9,7 +10,9 @@ import {
   createLargeDocument,
   createDocument,
   createParagraph,
+  createTextRun,
   createHeading,
+  createTableRow,
   createUnicodeDocument
 } from '../helpers/ast-factory';
 
@@ -61,6 +64,204 @@ describe('DiffEngine', () => {
     });
   });
 
+  describe('Sequence alignment', () => {
+    it('should keep repeated boilerplate paired in document order', () => {
+      const doc1 = createMultiParagraphDocument([
+        'Reserved.',
+        'Section one covers payment terms for the services',
+        'Section two covers termination of the agreement'
+      ]);
+      const doc2 = createMultiParagraphDocument([
+        'Section one covers payment terms for the services',
+        'Section two covers termination of the agreement',
+        'Reserved.'
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      const texts = diff.blockDiffs.map(d => d.type + ':' + (d.originalBlock?.text || d.currentBlock?.text));
+      expect(texts).toEqual([
+        'delete:Reserved.',
+        'unchanged:Section one covers payment terms for the services',
+        'unchanged:Section two covers termination of the agreement',
+        'insert:Reserved.'
+      ]);
+    });
+
+    it('should place insertions at their position in the current document', () => {
+      const doc1 = createMultiParagraphDocument(['Alpha clause', 'Gamma clause']);
+      const doc2 = createMultiParagraphDocument(['Alpha clause', 'Beta clause inserted', 'Gamma clause']);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'insert', 'unchanged']);
+    });
+
+    it('should only fuzzy match within the gap between anchors', () => {
+      const doc1 = createMultiParagraphDocument([
+        'The supplier shall deliver the goods promptly',
+        'Anchor heading',
+        'Payment is due within thirty days'
+      ]);
+      const doc2 = createMultiParagraphDocument([
+        'Payment is due within sixty days',
+        'Anchor heading',
+        'The supplier shall deliver the goods quickly'
+      ]);
+
+      const result = diffEngine.diffDocumentsWithDebug(doc1, doc2);
+
+      expect(result.diff.blockDiffs.some(d => d.type === 'modify')).toBe(false);
+      expect(result.alignmentDecisions.every(d => d.reason.length > 0)).toBe(true);
+      expect(result.alignmentDecisions.filter(d => d.matchType === 'fuzzy').length).toBe(0);
+    });
+
+    it('should support the legacy greedy alignment mode', () => {
+      const engine = new DiffEngine();
+      engine.setAlignmentMode('greedy');
+      expect(engine.getAlignmentMode()).toBe('greedy');
+
+      const doc1 = createMultiParagraphDocument(['Alpha clause', 'Gamma clause']);
+      const doc2 = createMultiParagraphDocument(['Alpha clause', 'Beta clause inserted', 'Gamma clause']);
+
+      const diff = engine.diffDocuments(doc1, doc2);
+
+      // Greedy mode appends insertions after all original blocks
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'unchanged', 'insert']);
+    });
+  });
+
+  describe('Move detection', () => {
+    const moved = 'Either party may terminate this agreement with thirty days notice';
+
+    it('should report a relocated paragraph as linked move halves', () => {
+      const doc1 = createMultiParagraphDocument([moved, 'Payment terms apply', 'Governing law is California']);
+      const doc2 = createMultiParagraphDocument(['Payment terms apply', 'Governing law is California', moved]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      const moves = diff.blockDiffs.filter(d => d.type === 'move');
+      expect(moves.length).toBe(2);
+      expect(moves[0].move!.role).toBe('from');
+      expect(moves[1].move!.role).toBe('to');
+      expect(moves[0].move!.moveId).toBe(moves[1].move!.moveId);
+      expect(moves[0].move!.sourceIndex).toBe(0);
+      expect(moves[0].move!.destinationIndex).toBe(2);
+      expect(diff.blockDiffs.some(d => d.type === 'delete' || d.type === 'insert')).toBe(false);
+      expect(moves[1].wordDiff).toBeUndefined();
+    });
+
+    it('should carry an inner word diff when moved text was edited', () => {
+      const doc1 = createMultiParagraphDocument([moved, 'Payment terms apply', 'Governing law is California']);
+      const doc2 = createMultiParagraphDocument([
+        'Payment terms apply',
+        'Governing law is California',
+        'Either party may terminate this agreement with sixty days notice'
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      const moveTo = diff.blockDiffs.find(d => d.move?.role === 'to')!;
+      expect(moveTo).toBeDefined();
+      expect(moveTo.wordDiff!.some(c => c.removed && c.value.includes('thirty'))).toBe(true);
+      expect(moveTo.wordDiff!.some(c => c.added && c.value.includes('sixty'))).toBe(true);
+    });
+
+    it('should record a single move decision for each pair', () => {
+      const doc1 = createMultiParagraphDocument([moved, 'Payment terms apply', 'Governing law is California']);
+      const doc2 = createMultiParagraphDocument(['Payment terms apply', 'Governing law is California', moved]);
+
+      const result = diffEngine.diffDocumentsWithDebug(doc1, doc2);
+
+      const moveDecisions = result.alignmentDecisions.filter(d => d.matchType === 'move');
+      expect(moveDecisions.length).toBe(1);
+      expect(moveDecisions[0].originalIndex).toBe(0);
+      expect(moveDecisions[0].currentIndex).toBe(2);
+      expect(result.alignmentDecisions.some(d => d.matchType === 'delete' || d.matchType === 'insert')).toBe(false);
+    });
+  });
+
+  describe('Split and merge detection', () => {
+    const longClause = 'The supplier shall deliver the goods within ten days. The buyer shall pay the invoice within thirty days';
+
+    it('should report one paragraph split into two as a single split diff', () => {
+      const doc1 = createMultiParagraphDocument(['Intro', longClause, 'Closing']);
+      const doc2 = createMultiParagraphDocument([
+        'Intro',
+        'The supplier shall deliver the goods within ten days.',
+        'The buyer shall pay the invoice within thirty days',
+        'Closing'
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'split', 'unchanged']);
+      const split = diff.blockDiffs[1];
+      expect(split.currentBlocks!.length).toBe(2);
+      expect(split.originalBlocks!.length).toBe(1);
+      expect(split.wordDiff!.some(c => c.added && c.value.includes(PARAGRAPH_BOUNDARY))).toBe(true);
+      expect(diff.totalChanges).toBe(1);
+    });
+
+    it('should report two paragraphs merged into one as a single merge diff', () => {
+      const doc1 = createMultiParagraphDocument([
+        'Intro',
+        'The supplier shall deliver the goods within ten days.',
+        'The buyer shall pay the invoice within thirty days',
+        'Closing'
+      ]);
+      const doc2 = createMultiParagraphDocument(['Intro', longClause, 'Closing']);
+
+      const result = diffEngine.diffDocumentsWithDebug(doc1, doc2);
+
+      expect(result.diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'merge', 'unchanged']);
+      const merge = result.diff.blockDiffs[1];
+      expect(merge.originalBlocks!.length).toBe(2);
+      expect(merge.wordDiff!.some(c => c.removed && c.value.includes(PARAGRAPH_BOUNDARY))).toBe(true);
+
+      const mergeDecisions = result.alignmentDecisions.filter(d => d.matchType === 'merge');
+      expect(mergeDecisions.length).toBe(1);
+      expect(mergeDecisions[0].reason).toContain('Merge');
+    });
+
+    it('should not mistake a pilcrow in the text for a paragraph boundary', () => {
+      const doc1 = createMultiParagraphDocument([
+        'Intro',
+        'The supplier shall deliver the goods under ¶ 4 within ten days. The buyer shall pay the invoice within thirty days',
+        'Closing'
+      ]);
+      const doc2 = createMultiParagraphDocument([
+        'Intro',
+        'The supplier shall deliver the goods under ¶ 4 within ten days.',
+        'The buyer shall pay the invoice within thirty days',
+        'Closing'
+      ]);
+
+      const split = diffEngine.diffDocuments(doc1, doc2).blockDiffs[1];
+
+      expect(split.type).toBe('split');
+      const boundaries = split.wordDiff!.map(c => c.value.split(PARAGRAPH_BOUNDARY).length - 1);
+      expect(boundaries.reduce((sum, n) => sum + n, 0)).toBe(1);
+      expect(split.wordDiff!.filter(c => c.value.includes('¶')).every(c => !c.added && !c.removed)).toBe(true);
+    });
+
+    it('should carry word edits across the split boundary', () => {
+      const doc1 = createMultiParagraphDocument([longClause]);
+      const doc2 = createMultiParagraphDocument([
+        'The supplier shall deliver the goods within ten days.',
+        'The buyer shall pay the invoice within sixty days'
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.blockDiffs.length).toBe(1);
+      expect(diff.blockDiffs[0].type).toBe('split');
+      const wordDiff = diff.blockDiffs[0].wordDiff!;
+      expect(wordDiff.some(c => c.removed && c.value.includes('thirty'))).toBe(true);
+      expect(wordDiff.some(c => c.added && c.value.includes('sixty'))).toBe(true);
+    });
+  });
+
   describe('Word-level diffing', () => {
     it('should detect word insertions', () => {
       const doc1 = createSimpleDocument('Hello world');
@@ -119,6 +320,40 @@ describe('DiffEngine', () => {
       const changes = wordDiff.filter(c => c.added || c.removed);
       expect(changes.length).toBeGreaterThan(0);
     });
+
+    it('should refine a changed number into a character-level edit', () => {
+      const doc1 = createSimpleDocument('Notice is due within 30 days');
+      const doc2 = createSimpleDocument('Notice is due within 60 days');
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+      const edits = diff.blockDiffs[0].groupedDiff!.filter(
+        (c): c is TokenEdit => 'type' in c && c.type === 'token-edit'
+      );
+
+      expect(edits).toHaveLength(1);
+      expect(edits[0].deletedText).toBe('30');
+      expect(edits[0].insertedText).toBe('60');
+      expect(edits[0].parts.filter(p => p.removed).map(p => p.value)).toEqual(['3']);
+      expect(edits[0].parts.filter(p => p.added).map(p => p.value)).toEqual(['6']);
+    });
+
+    it('should refine a short typo fix into a character-level edit', () => {
+      const doc1 = createSimpleDocument('We recieve the goods');
+      const doc2 = createSimpleDocument('We receive the goods');
+
+      const grouped = diffEngine.diffDocuments(doc1, doc2).blockDiffs[0].groupedDiff!;
+
+      expect(grouped.some(c => 'type' in c && c.type === 'token-edit')).toBe(true);
+    });
+
+    it('should keep unrelated word replacements as whole words', () => {
+      const doc1 = createSimpleDocument('The cat sat on the mat');
+      const doc2 = createSimpleDocument('The dog sat on the mat');
+
+      const grouped = diffEngine.diffDocuments(doc1, doc2).blockDiffs[0].groupedDiff!;
+
+      expect(grouped.some(c => 'type' in c && c.type === 'token-edit')).toBe(false);
+    });
   });
 
   describe('Block insertions and deletions', () => {
@@ -239,6 +474,242 @@ describe('DiffEngine', () => {
 
       expect(diff.totalChanges).toBe(0);
     });
+
+    it('should report a single-word run formatting change as a span', () => {
+      const text = 'The quick brown fox';
+      const doc1 = createDocument([createParagraph(text)]);
+      const doc2 = createDocument([
+        createParagraph(text, {
+          runs: [
+            createTextRun('The quick '),
+            createTextRun('brown', { bold: true }),
+            createTextRun(' fox')
+          ]
+        })
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.totalChanges).toBe(1);
+      expect(diff.blockDiffs[0].type).toBe('modify');
+      const formatChanges = diff.blockDiffs[0].formatDiff!
+        .filter((change): change is FormatChange => change.type === 'format-change');
+      expect(formatChanges).toHaveLength(1);
+      expect(formatChanges[0].text).toBe('brown');
+      expect(formatChanges[0].originalOffset).toBe(10);
+      expect(formatChanges[0].currentOffset).toBe(10);
+      expect(formatChanges[0].changes.bold).toEqual({ from: undefined, to: true });
+    });
+
+    it('should report paragraph style and alignment changes', () => {
+      const original = createParagraph('Between the parties');
+      const current = { ...createParagraph('Between the parties'), paragraphFormatting: { style: 'Title', alignment: 'center' } };
+
+      const diff = diffEngine.diffDocuments(createDocument([original]), createDocument([current]));
+
+      expect(diff.totalChanges).toBe(1);
+      expect(diff.blockDiffs[0].type).toBe('modify');
+      expect(diff.blockDiffs[0].paragraphFormatChange).toEqual({
+        style: { from: undefined, to: 'Title' },
+        alignment: { from: undefined, to: 'center' }
+      });
+
+      const ignored = diffEngine.diffDocuments(createDocument([original]), createDocument([current]), { ignoreFormatting: true });
+      expect(ignored.totalChanges).toBe(0);
+    });
+
+    it('should not report changes when runs are split differently', () => {
+      const doc1 = createDocument([createParagraph('Hello world')]);
+      const doc2 = createDocument([
+        createParagraph('Hello world', {
+          runs: [createTextRun('Hello '), createTextRun('world')]
+        })
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.totalChanges).toBe(0);
+    });
+  });
+
+  describe('Diff options', () => {
+    it('should ignore case changes when ignoreCase is set', () => {
+      const doc1 = createSimpleDocument('Hello World');
+      const doc2 = createSimpleDocument('hello world');
+
+      expect(diffEngine.diffDocuments(doc1, doc2).totalChanges).toBeGreaterThan(0);
+      expect(diffEngine.diffDocuments(doc1, doc2, { ignoreCase: true }).totalChanges).toBe(0);
+    });
+
+    it('should keep document text in change values when folding case', () => {
+      const doc1 = createSimpleDocument('The Quick fox');
+      const doc2 = createSimpleDocument('the quick dog');
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { ignoreCase: true });
+      const wordDiff = diff.blockDiffs[0].wordDiff!;
+
+      expect(wordDiff.filter(c => c.removed).map(c => c.value)).toEqual(['fox']);
+      expect(wordDiff.filter(c => c.added).map(c => c.value)).toEqual(['dog']);
+      expect(wordDiff.filter(c => !c.added && !c.removed).map(c => c.value).join('')).toBe('the quick ');
+    });
+
+    it('should ignore punctuation-only edits when ignorePunctuation is set', () => {
+      const doc1 = createSimpleDocument('Hello, world');
+      const doc2 = createSimpleDocument('Hello world!');
+
+      expect(diffEngine.diffDocuments(doc1, doc2).totalChanges).toBeGreaterThan(0);
+      expect(diffEngine.diffDocuments(doc1, doc2, { ignorePunctuation: true }).totalChanges).toBe(0);
+    });
+
+    it('should treat smart and straight quotes and dashes as equal', () => {
+      const doc1 = createSimpleDocument('It\u2019s a \u201Ctest\u201D \u2014 really');
+      const doc2 = createSimpleDocument('It\'s a "test" - really');
+
+      expect(diffEngine.diffDocuments(doc1, doc2).totalChanges).toBeGreaterThan(0);
+      expect(diffEngine.diffDocuments(doc1, doc2, { normalizeQuotesAndDashes: true }).totalChanges).toBe(0);
+    });
+
+    it('should skip formatting-only changes when ignoreFormatting is set', () => {
+      const doc1 = createSimpleDocument('Text');
+      const doc2 = createSimpleDocument('Text', { bold: true });
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { ignoreFormatting: true });
+
+      expect(diff.totalChanges).toBe(0);
+      expect(diff.blockDiffs[0].type).toBe('unchanged');
+    });
+
+    it('should pair blocks according to the fuzzy threshold', () => {
+      const doc1 = createSimpleDocument('The quick brown fox jumps');
+      const doc2 = createSimpleDocument('The quick brown cat sleeps');
+
+      const loose = diffEngine.diffDocuments(doc1, doc2);
+      expect(loose.blockDiffs.map(d => d.type)).toEqual(['modify']);
+
+      const strict = diffEngine.diffDocuments(doc1, doc2, { fuzzyThreshold: 0.9 });
+      expect(strict.blockDiffs.map(d => d.type).sort()).toEqual(['delete', 'insert']);
+    });
+
+    it('should group phrases according to the grouping density', () => {
+      const doc1 = createSimpleDocument('Alpha beta gamma delta epsilon zeta one two three four omega');
+      const doc2 = createSimpleDocument('Alpha beta gamma delta epsilon zeta five six seven eight omega');
+
+      const grouped = diffEngine.diffDocuments(doc1, doc2).blockDiffs[0].groupedDiff!;
+      expect(grouped.some(c => 'type' in c && c.type === 'phrase-replace')).toBe(true);
+
+      const ungrouped = diffEngine.diffDocuments(doc1, doc2, { groupingDensity: 1.01 }).blockDiffs[0].groupedDiff!;
+      expect(ungrouped.some(c => 'type' in c && c.type === 'phrase-replace')).toBe(false);
+    });
+
+    it('should return the resolved options with the debug result', () => {
+      const doc = createSimpleDocument('Text');
+
+      const result = diffEngine.diffDocumentsWithDebug(doc, doc, { ignoreCase: true });
+
+      expect(result.options).toEqual({
+        ignoreCase: true,
+        ignorePunctuation: false,
+        normalizeQuotesAndDashes: false,
+        ignoreFormatting: false,
+        fuzzyThreshold: 0.5,
+        groupingDensity: 0.6,
+        compareListLabels: false
+      });
+    });
+
+    it('should report changed list labels only when compareListLabels is set', () => {
+      const doc1 = createDocument([{ ...createParagraph('Payment terms'), listLabel: '3.', listLevel: 0 }]);
+      const doc2 = createDocument([{ ...createParagraph('Payment terms'), listLabel: '2.1', listLevel: 1 }]);
+
+      expect(diffEngine.diffDocuments(doc1, doc2).totalChanges).toBe(0);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { compareListLabels: true });
+      expect(diff.totalChanges).toBe(1);
+      expect(diff.blockDiffs[0].type).toBe('modify');
+      expect(diff.blockDiffs[0].listLabelChange).toEqual({ from: '3.', to: '2.1' });
+    });
+  });
+
+  describe('Renumbering', () => {
+    const clause = (label: string, text: string) => ({ ...createParagraph(text), listLabel: label, listLevel: 0 });
+
+    it('should classify shifted clause numbers and cross-references as renumbering', () => {
+      const doc1 = createDocument([
+        clause('1.', 'Definitions apply throughout.'),
+        clause('2.', 'Payment is due monthly.'),
+        clause('3.', 'Either party may terminate.'),
+        createParagraph('Fees are payable as set out in Section 2 unless stated otherwise.')
+      ]);
+      const doc2 = createDocument([
+        clause('1.', 'Definitions apply throughout.'),
+        clause('2.', 'The supplier shall provide the services.'),
+        clause('3.', 'Payment is due monthly.'),
+        clause('4.', 'Either party may terminate.'),
+        createParagraph('Fees are payable as set out in Section 3 unless stated otherwise.')
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { compareListLabels: true });
+
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'insert', 'renumbering', 'renumbering', 'renumbering']);
+      expect(diff.blockDiffs[2].listLabelChange).toEqual({ from: '2.', to: '3.' });
+      expect(diff.blockDiffs[4].changeId).toBeUndefined();
+      expect(diff.totalChanges).toBe(1);
+    });
+
+    it('should keep a changed plain number that happens to match a shifted label', () => {
+      const doc1 = createDocument([
+        clause('1.', 'Definitions apply throughout.'),
+        clause('2.', 'Payment is due monthly.'),
+        createParagraph('Notice must be given within 2 days of a breach.')
+      ]);
+      const doc2 = createDocument([
+        clause('1.', 'Definitions apply throughout.'),
+        clause('2.', 'The supplier shall provide the services.'),
+        clause('3.', 'Payment is due monthly.'),
+        createParagraph('Notice must be given within 3 days of a breach.')
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { compareListLabels: true });
+
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['unchanged', 'insert', 'renumbering', 'modify']);
+      expect(diff.blockDiffs[3].changeId).toBeDefined();
+      expect(diff.totalChanges).toBe(2);
+    });
+
+    it('should keep a cross-reference edit that does not follow its target', () => {
+      const doc1 = createDocument([
+        clause('1.', 'Payment is due monthly.'),
+        clause('2.', 'Either party may terminate.'),
+        createParagraph('Fees are payable as set out in Section 1 unless stated otherwise.')
+      ]);
+      const doc2 = createDocument([
+        clause('1.', 'Payment is due monthly.'),
+        clause('2.', 'Either party may terminate.'),
+        createParagraph('Fees are payable as set out in Section 2 unless stated otherwise.')
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.blockDiffs[2].type).toBe('modify');
+      expect(diff.totalChanges).toBe(1);
+    });
+
+    it('should keep a list label change that is not a clause number shift', () => {
+      const doc1 = createDocument([
+        clause('•', 'Definitions apply throughout.'),
+        clause('1.', 'Payment is due monthly.')
+      ]);
+      const doc2 = createDocument([
+        clause('1.', 'Definitions apply throughout.'),
+        clause('1)', 'Payment is due monthly.')
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2, { compareListLabels: true });
+
+      expect(diff.blockDiffs.map(d => d.type)).toEqual(['modify', 'modify']);
+      expect(diff.blockDiffs[1].listLabelChange).toEqual({ from: '1.', to: '1)' });
+      expect(diff.totalChanges).toBe(2);
+    });
   });
 
   describe('Edge cases', () => {
@@ -362,6 +833,124 @@ describe('DiffEngine', () => {
     });
   });
 
+  describe('Table diffing', () => {
+    it('should diff a modified row cell by cell', () => {
+      const doc1 = createDocument([
+        createTableRow(['Name', 'Amount'], { rowIndex: 0 }),
+        createTableRow(['Consulting fee', 'Payable monthly in arrears'], { rowIndex: 1 })
+      ]);
+      const doc2 = createDocument([
+        createTableRow(['Name', 'Amount'], { rowIndex: 0 }),
+        createTableRow(['Consulting fee', 'Payable weekly in arrears'], { rowIndex: 1 })
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      const modified = diff.blockDiffs.find(d => d.type === 'modify')!;
+      expect(modified.cellDiffs!.map(c => c.type)).toEqual(['unchanged', 'modify']);
+      const changed = modified.cellDiffs![1];
+      expect(changed.originalIndex).toBe(1);
+      expect(changed.wordDiff!.filter(c => c.removed).map(c => c.value)).toEqual(['monthly']);
+      expect(diff.tableDiffs).toEqual([]);
+    });
+
+    it('should detect an inserted column', () => {
+      const doc1 = createDocument([
+        createTableRow(['Item', 'Price'], { rowIndex: 0 }),
+        createTableRow(['Apples', '$3'], { rowIndex: 1 }),
+        createTableRow(['Pears', '$4'], { rowIndex: 2 })
+      ]);
+      const doc2 = createDocument([
+        createTableRow(['Item', 'Quantity', 'Price'], { rowIndex: 0 }),
+        createTableRow(['Apples', '12', '$3'], { rowIndex: 1 }),
+        createTableRow(['Pears', '6', '$4'], { rowIndex: 2 })
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.tableDiffs).toEqual([{
+        originalTableId: 'table-0',
+        currentTableId: 'table-0',
+        insertedColumns: [1],
+        deletedColumns: []
+      }]);
+      const rows = diff.blockDiffs.filter(d => d.type === 'modify');
+      expect(rows).toHaveLength(3);
+      rows.forEach(row => {
+        expect(row.cellDiffs!.map(c => c.type)).toEqual(['unchanged', 'insert', 'unchanged']);
+      });
+      expect(rows[1].cellDiffs![1].currentCell!.text).toBe('12');
+    });
+
+    it('should detect a deleted column and respect grid spans', () => {
+      const doc1 = createDocument([
+        createTableRow([{ text: 'Schedule A', runs: [createTextRun('Schedule A')], gridSpan: 3 }], { rowIndex: 0 }),
+        createTableRow(['Term', 'Notes', 'Value'], { rowIndex: 1 }),
+        createTableRow(['Duration', 'renewable', '12 months'], { rowIndex: 2 })
+      ]);
+      const doc2 = createDocument([
+        createTableRow([{ text: 'Schedule A revised', runs: [createTextRun('Schedule A revised')], gridSpan: 2 }], { rowIndex: 0 }),
+        createTableRow(['Term', 'Value'], { rowIndex: 1 }),
+        createTableRow(['Duration', '12 months'], { rowIndex: 2 })
+      ]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.tableDiffs![0].deletedColumns).toEqual([1]);
+      const rows = diff.blockDiffs.filter(d => d.type === 'modify');
+      // Columns covered by the spanning title cell produce no cell diffs
+      expect(rows.map(row => row.cellDiffs!.map(c => c.type))).toEqual([
+        ['modify'],
+        ['unchanged', 'delete', 'unchanged'],
+        ['unchanged', 'delete', 'unchanged']
+      ]);
+      expect(rows[2].cellDiffs![1].originalCell!.text).toBe('renewable');
+    });
+  });
+
+  describe('Story diffing', () => {
+    it('should diff headers and notes separately from the body', () => {
+      const doc1 = createDocument([createParagraph('Body text', { id: 'p1' })]);
+      doc1.stories = [
+        { key: 'header-default-1', type: 'header', variant: 'default', section: 1, part: 'word/header1.xml', blocks: [createParagraph('Confidential')] },
+        { key: 'footnotes', type: 'footnotes', part: 'word/footnotes.xml', blocks: [createParagraph('Affiliate means a controlled entity.')] }
+      ];
+      const doc2 = createDocument([createParagraph('Body text changed', { id: 'p1' })]);
+      doc2.stories = [
+        { key: 'header-default-1', type: 'header', variant: 'default', section: 1, part: 'word/header2.xml', blocks: [createParagraph('Strictly Confidential')] },
+        { key: 'footnotes', type: 'footnotes', part: 'word/footnotes.xml', blocks: [createParagraph('Affiliate means a controlled entity.')] }
+      ];
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      expect(diff.blockDiffs).toHaveLength(1);
+      expect(diff.storyDiffs!.map(story => [story.key, story.changeCount])).toEqual([
+        ['header-default-1', 1],
+        ['footnotes', 0]
+      ]);
+      const header = diff.storyDiffs![0];
+      expect(header.originalPart).toBe('word/header1.xml');
+      expect(header.currentPart).toBe('word/header2.xml');
+      // Change ids continue after the body's
+      expect(diff.blockDiffs[0].changeId).toBe('change-0');
+      expect(header.blockDiffs[0].changeId).toBe('change-1');
+      expect(diff.totalChanges).toBe(2);
+    });
+
+    it('should show a story found in one document only as deleted', () => {
+      const doc1 = createDocument([createParagraph('Body text')]);
+      doc1.stories = [{ key: 'footer-first-1', type: 'footer', variant: 'first', section: 1, part: 'word/footer1.xml', blocks: [createParagraph('Draft')] }];
+      const doc2 = createDocument([createParagraph('Body text')]);
+
+      const diff = diffEngine.diffDocuments(doc1, doc2);
+
+      const footer = diff.storyDiffs![0];
+      expect(footer.currentPart).toBeUndefined();
+      expect(footer.blockDiffs.map(d => d.type)).toEqual(['delete']);
+      expect(diff.totalChanges).toBe(1);
+    });
+  });
+
   describe('changeId assignment', () => {
     it('should assign changeIds to changed blocks', () => {
       const doc1 = createMultiParagraphDocument(['A', 'B']);
@@ -1,9 +1,9 @@
 // Unit tests for DiffRenderer - DOM-based tests (redlined view only)
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { DiffRenderer } from '../../src/renderer/diff-renderer';
-import type { DocumentDiff } from '../../src/types/diff.types';
-import { createParagraph } from '../helpers/ast-factory';
+import { PARAGRAPH_BOUNDARY, type ChangeState, type DocumentDiff } from '../../src/types/diff.types';
+import { createParagraph, createTableRow } from '../helpers/ast-factory';
 
 describe('DiffRenderer', () => {
   let redlinedPane: HTMLDivElement;
@@ -396,4 +396,534 @@ describe('DiffRenderer', () => {
       expect(pageBreak).not.toBeNull();
     });
   });
+
+  describe('Moved blocks', () => {
+    it('should render linked moved-from and moved-to markers', () => {
+      const original = createParagraph('Clause that was moved', { id: 'o1' });
+      const current = createParagraph('Clause that was moved', { id: 'c1' });
+      const diff: DocumentDiff = {
+        blockDiffs: [
+          {
+            type: 'move',
+            originalBlock: original,
+            currentBlock: current,
+            move: { moveId: 'move-0', role: 'from', sourceIndex: 0, destinationIndex: 1 },
+            changeId: 'change-0'
+          },
+          {
+            type: 'unchanged',
+            originalBlock: createParagraph('Stays put', { id: 'o2' }),
+            currentBlock: createParagraph('Stays put', { id: 'c2' })
+          },
+          {
+            type: 'move',
+            originalBlock: original,
+            currentBlock: current,
+            move: { moveId: 'move-0', role: 'to', sourceIndex: 0, destinationIndex: 1 },
+            changeId: 'change-1'
+          }
+        ],
+        totalChanges: 2
+      };
+
+      renderer.renderRedlined(diff);
+
+      const from = redlinedPane.querySelector('#move-0-from');
+      const to = redlinedPane.querySelector('#move-0-to');
+      expect(from!.classList.contains('block-moved-from')).toBe(true);
+      expect(to!.classList.contains('block-moved-to')).toBe(true);
+      expect(from!.querySelector('.move-marker')!.getAttribute('href')).toBe('#move-0-to');
+      expect(to!.querySelector('.move-marker')!.getAttribute('href')).toBe('#move-0-from');
+      expect(renderer.getChangeElements().length).toBe(2);
+    });
+
+    it('should show edits inside the moved-to block', () => {
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'move',
+          originalBlock: createParagraph('Notice within thirty days', { id: 'o1' }),
+          currentBlock: createParagraph('Notice within sixty days', { id: 'c1' }),
+          move: { moveId: 'move-0', role: 'to', sourceIndex: 3, destinationIndex: 0 },
+          wordDiff: [
+            { value: 'Notice within ', count: 2 },
+            { value: 'thirty', removed: true, count: 1 },
+            { value: 'sixty', added: true, count: 1 },
+            { value: ' days', count: 1 }
+          ],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      expect(redlinedPane.querySelector('.block-moved-to .diff-delete')!.textContent).toBe('thirty');
+      expect(redlinedPane.querySelector('.block-moved-to .diff-insert')!.textContent).toBe('sixty');
+    });
+  });
+
+  describe('Split and merged blocks', () => {
+    it('should render a split as one block with a pilcrow marker', () => {
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'split',
+          originalBlock: createParagraph('First part, see ¶ 2. Second part', { id: 'o1' }),
+          currentBlock: createParagraph('First part, see ¶ 2.', { id: 'c1' }),
+          currentBlocks: [
+            createParagraph('First part, see ¶ 2.', { id: 'c1' }),
+            createParagraph('Second part', { id: 'c2' })
+          ],
+          wordDiff: [
+            { value: 'First part, see ¶ 2. ', count: 10 },
+            { value: `${PARAGRAPH_BOUNDARY} `, added: true, count: 2 },
+            { value: 'Second part', count: 3 }
+          ],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      const block = redlinedPane.querySelector('.block-split');
+      expect(block).not.toBeNull();
+      expect(block!.getAttribute('data-change-id')).toBe('change-0');
+      const pilcrow = block!.querySelector('.diff-insert .pilcrow-marker');
+      expect(pilcrow).not.toBeNull();
+      expect(pilcrow!.getAttribute('title')).toBe('Paragraph split');
+      // A pilcrow in the text itself is not a paragraph boundary
+      expect(block!.querySelectorAll('.pilcrow-marker').length).toBe(1);
+      expect(block!.textContent).toContain('see ¶ 2.');
+    });
+  });
+
+  describe('Token edits', () => {
+    it('should emphasise only the changed characters', () => {
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'modify',
+          originalBlock: createParagraph('Within 30 days', { id: 'o1' }),
+          currentBlock: createParagraph('Within 60 days', { id: 'c1' }),
+          groupedDiff: [
+            { value: 'Within ', count: 2 },
+            {
+              type: 'token-edit',
+              deletedText: '30',
+              insertedText: '60',
+              parts: [
+                { value: '3', removed: true, count: 1 },
+                { value: '6', added: true, count: 1 },
+                { value: '0', count: 1 }
+              ]
+            },
+            { value: ' days', count: 2 }
+          ],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      const edit = redlinedPane.querySelector('.diff-token-edit');
+      expect(edit).not.toBeNull();
+      expect(edit!.getAttribute('title')).toBe('30 → 60');
+      expect(edit!.querySelector('.diff-delete.diff-char')!.textContent).toBe('3');
+      expect(edit!.querySelector('.diff-insert.diff-char')!.textContent).toBe('6');
+      expect(edit!.textContent).toBe('360');
+    });
+  });
+
+  describe('Run formatting changes', () => {
+    it('should outline a format-changed span with a tooltip', () => {
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'modify',
+          originalBlock: createParagraph('The quick brown fox', { id: 'o1' }),
+          currentBlock: createParagraph('The quick brown fox', { id: 'c1' }),
+          wordDiff: [{ value: 'The quick brown fox', count: 7 }],
+          formatDiff: [{
+            type: 'format-change',
+            text: 'brown',
+            originalOffset: 10,
+            currentOffset: 10,
+            from: { bold: false },
+            to: { bold: true },
+            changes: { bold: { from: false, to: true } }
+          }],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      const span = redlinedPane.querySelector('.diff-format-change');
+      expect(span).not.toBeNull();
+      expect(span!.textContent).toBe('brown');
+      expect(span!.getAttribute('title')).toBe('bold: off → on');
+      expect(span!.querySelector('strong')).not.toBeNull();
+    });
+  });
+
+  describe('List labels', () => {
+    it('should show the list number before the text', () => {
+      const block = { ...createParagraph('Payment terms'), listLabel: '3.2(b)', listLevel: 2 };
+      renderer.renderRedlined({
+        blockDiffs: [{ type: 'unchanged', originalBlock: block, currentBlock: block }],
+        totalChanges: 0
+      });
+
+      expect(redlinedPane.querySelector('.block .list-label')!.textContent).toBe('3.2(b)');
+    });
+
+    it('should show a changed list number as deleted and inserted', () => {
+      renderer.renderRedlined({
+        blockDiffs: [{
+          type: 'modify',
+          originalBlock: { ...createParagraph('Payment terms'), listLabel: '3.' },
+          currentBlock: { ...createParagraph('Payment terms'), listLabel: '4.' },
+          wordDiff: [{ value: 'Payment terms', count: 3 }],
+          listLabelChange: { from: '3.', to: '4.' },
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      });
+
+      const label = redlinedPane.querySelector('.list-label')!;
+      expect(label.querySelector('.diff-delete')!.textContent).toBe('3.');
+      expect(label.querySelector('.diff-insert')!.textContent).toBe('4.');
+    });
+  });
+
+  describe('Renumbering', () => {
+    const diff: DocumentDiff = {
+      blockDiffs: [{
+        type: 'renumbering',
+        originalBlock: createParagraph('As set out in Section 2.'),
+        currentBlock: createParagraph('As set out in Section 3.'),
+        wordDiff: [
+          { value: 'As set out in Section ', count: 10 },
+          { value: '2', count: 1, removed: true },
+          { value: '3', count: 1, added: true },
+          { value: '.', count: 1 }
+        ]
+      }],
+      totalChanges: 0
+    };
+
+    it('should render renumbering as unchanged text by default', () => {
+      renderer.renderRedlined(diff);
+
+      const block = redlinedPane.querySelector('.block')!;
+      expect(block.classList.contains('block-unchanged')).toBe(true);
+      expect(block.textContent).toBe('As set out in Section 3.');
+      expect(renderer.getChangeElements()).toHaveLength(0);
+    });
+
+    it('should show renumbering muted when enabled', () => {
+      renderer.setShowRenumbering(true);
+      renderer.renderRedlined(diff);
+
+      const block = redlinedPane.querySelector('.block-renumbering')!;
+      expect(block.querySelector('.diff-delete')!.textContent).toBe('2');
+      expect(block.querySelector('.diff-insert')!.textContent).toBe('3');
+      expect(renderer.getChangeElements()).toHaveLength(0);
+    });
+  });
+
+  describe('Side-by-side view', () => {
+    let originalPane: HTMLElement;
+    let currentPane: HTMLElement;
+
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div class="pane"><div id="pane-redlined-content"></div></div>
+        <div class="pane"><div id="pane-original-content"></div></div>
+        <div class="pane"><div id="pane-current-content"></div></div>
+      `;
+      originalPane = document.getElementById('pane-original-content')!;
+      currentPane = document.getElementById('pane-current-content')!;
+      renderer = new DiffRenderer('pane-redlined-content', 'pane-original-content', 'pane-current-content');
+    });
+
+    const diff: DocumentDiff = {
+      blockDiffs: [
+        { type: 'unchanged', originalBlock: createParagraph('Intro'), currentBlock: createParagraph('Intro') },
+        { type: 'delete', originalBlock: createParagraph('Old clause'), changeId: 'change-0' },
+        {
+          type: 'modify',
+          originalBlock: createParagraph('Pay within 30 days'),
+          currentBlock: createParagraph('Pay within 45 days'),
+          wordDiff: [
+            { value: 'Pay within ', count: 4 },
+            { value: '30', count: 1, removed: true },
+            { value: '45', count: 1, added: true },
+            { value: ' days', count: 2 }
+          ],
+          changeId: 'change-1'
+        },
+        { type: 'insert', currentBlock: createParagraph('New clause'), changeId: 'change-2' }
+      ],
+      totalChanges: 3
+    };
+
+    it('should pair every block diff with a row on both sides', () => {
+      renderer.renderSideBySide(diff);
+
+      const rows = (pane: HTMLElement) => Array.from(pane.querySelectorAll('[data-row]'));
+      expect(rows(originalPane).map(el => el.getAttribute('data-row'))).toEqual(['0', '1', '2', '3']);
+      expect(rows(currentPane).map(el => el.getAttribute('data-row'))).toEqual(['0', '1', '2', '3']);
+      expect(rows(originalPane)[3].classList.contains('side-spacer')).toBe(true);
+      expect(rows(currentPane)[1].classList.contains('side-spacer')).toBe(true);
+      expect(rows(originalPane)[1].textContent).toBe('Old clause');
+    });
+
+    it('should keep deletions on the original side and insertions on the current side', () => {
+      renderer.renderSideBySide(diff);
+
+      const original = originalPane.querySelector('[data-row="2"]')!;
+      const current = currentPane.querySelector('[data-row="2"]')!;
+      expect(original.textContent).toBe('Pay within 30 days');
+      expect(original.querySelector('.diff-insert')).toBeNull();
+      expect(current.textContent).toBe('Pay within 45 days');
+      expect(current.querySelector('.diff-delete')).toBeNull();
+    });
+
+    it('should navigate one element per change in document order', () => {
+      renderer.renderSideBySide(diff);
+
+      const elements = renderer.getChangeElements();
+      expect(elements.map(el => el.getAttribute('data-change-id'))).toEqual(['change-0', 'change-1', 'change-2']);
+      expect(originalPane.contains(elements[0])).toBe(true);
+      expect(currentPane.contains(elements[1])).toBe(true);
+    });
+
+    it('should show only the panes of the selected view', () => {
+      const isHidden = (pane: HTMLElement) => (pane.closest('.pane') as HTMLElement).hidden;
+      const redlinedPane = document.getElementById('pane-redlined-content')!;
+
+      renderer.setViewMode('split');
+      renderer.render(diff);
+      expect([redlinedPane, originalPane, currentPane].map(isHidden)).toEqual([true, false, false]);
+
+      renderer.setViewMode('current');
+      renderer.render(diff);
+      expect([redlinedPane, originalPane, currentPane].map(isHidden)).toEqual([true, true, false]);
+      expect(currentPane.classList.contains('pane-single')).toBe(true);
+      expect(renderer.getChangeElements().every(el => currentPane.contains(el))).toBe(true);
+
+      renderer.setViewMode('redline');
+      renderer.render(diff);
+      expect([redlinedPane, originalPane, currentPane].map(isHidden)).toEqual([false, true, true]);
+    });
+
+    it('should require both side panes for side-by-side views', () => {
+      expect(() => new DiffRenderer('pane-redlined-content').setViewMode('split'))
+        .toThrow('Side-by-side panes not found');
+    });
+
+    it('should scroll both sides together', () => {
+      renderer.renderSideBySide(diff);
+
+      originalPane.scrollTop = 120;
+      originalPane.dispatchEvent(new Event('scroll'));
+
+      expect(currentPane.scrollTop).toBe(120);
+    });
+  });
+
+  describe('Prior tracked changes', () => {
+    const revisions = [
+      { type: 'delete' as const, text: 'thirty', offset: 22, author: 'Alice', date: '2024-03-01T10:00:00Z' },
+      { type: 'insert' as const, text: 'sixty', offset: 22, author: 'Alice', date: '2024-03-01T10:00:00Z' }
+    ];
+
+    it('should mark revisions already in an unchanged block', () => {
+      const block = { ...createParagraph('Payment is due within sixty days.'), revisions };
+      renderer.renderRedlined({
+        blockDiffs: [{ type: 'unchanged', originalBlock: block, currentBlock: block }],
+        totalChanges: 0
+      });
+
+      const rendered = redlinedPane.querySelector('.block')!;
+      expect(rendered.textContent).toBe('Payment is due within thirtysixty days.');
+      expect(rendered.querySelector('.prior-delete')!.textContent).toBe('thirty');
+      expect(rendered.querySelector('.prior-insert')!.textContent).toBe('sixty');
+      expect(rendered.querySelector('.prior-insert')!.getAttribute('title')).toBe('Inserted by Alice, 2024-03-01 (existing tracked change)');
+    });
+
+    it('should keep prior revisions apart from new changes', () => {
+      renderer.renderRedlined({
+        blockDiffs: [{
+          type: 'modify',
+          originalBlock: createParagraph('Payment is due within sixty days.'),
+          currentBlock: { ...createParagraph('Payment is due within sixty days net.'), revisions },
+          wordDiff: [
+            { value: 'Payment is due within sixty days', count: 11 },
+            { value: ' net', count: 2, added: true },
+            { value: '.', count: 1 }
+          ],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      });
+
+      expect(redlinedPane.querySelector('.diff-insert')!.textContent).toBe(' net');
+      expect(redlinedPane.querySelector('.prior-insert')!.textContent).toBe('sixty');
+      expect(redlinedPane.querySelector('.prior-insert .diff-insert')).toBeNull();
+    });
+  });
+
+  describe('Tables', () => {
+    it('should render consecutive rows of a table as one table', () => {
+      const header = createTableRow(['Item', 'Price'], { rowIndex: 0 });
+      const diff: DocumentDiff = {
+        blockDiffs: [
+          { type: 'unchanged', originalBlock: createParagraph('Before'), currentBlock: createParagraph('Before') },
+          { type: 'unchanged', originalBlock: header, currentBlock: header },
+          { type: 'insert', currentBlock: createTableRow(['Pears', '$4'], { rowIndex: 1 }), changeId: 'change-0' },
+          { type: 'delete', originalBlock: createTableRow(['Plums', '$5'], { rowIndex: 1 }), changeId: 'change-1' },
+          { type: 'unchanged', originalBlock: createParagraph('After'), currentBlock: createParagraph('After') }
+        ],
+        totalChanges: 2
+      };
+
+      renderer.renderRedlined(diff);
+
+      const tables = redlinedPane.querySelectorAll('table.block-table');
+      expect(tables).toHaveLength(1);
+      const rows = tables[0].querySelectorAll('tr');
+      expect(rows).toHaveLength(3);
+      expect(rows[0].querySelectorAll('td')).toHaveLength(2);
+      expect(rows[1].classList.contains('block-inserted')).toBe(true);
+      expect(rows[2].getAttribute('data-change-id')).toBe('change-1');
+      expect(renderer.getChangeElements()).toHaveLength(2);
+    });
+
+    it('should show cell changes and inserted columns inside their cells', () => {
+      const original = createTableRow(['Apples', 'Fresh from the farm'], { rowIndex: 1 });
+      const current = createTableRow(['Apples', '12', 'Fresh from the orchard'], { rowIndex: 1 });
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'modify',
+          originalBlock: original,
+          currentBlock: current,
+          cellDiffs: [
+            { type: 'unchanged', originalCell: original.cells![0], currentCell: current.cells![0], originalIndex: 0, currentIndex: 0 },
+            { type: 'insert', currentCell: current.cells![1], currentIndex: 1 },
+            {
+              type: 'modify',
+              originalCell: original.cells![1],
+              currentCell: current.cells![2],
+              originalIndex: 1,
+              currentIndex: 2,
+              wordDiff: [
+                { value: 'Fresh from the ', count: 6 },
+                { value: 'farm', removed: true, count: 1 },
+                { value: 'orchard', added: true, count: 1 }
+              ]
+            }
+          ],
+          changeId: 'change-0'
+        }],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      const cells = redlinedPane.querySelectorAll('tr[data-change-id="change-0"] td');
+      expect(cells).toHaveLength(3);
+      expect(cells[0].textContent).toBe('Apples');
+      expect(cells[1].classList.contains('cell-inserted')).toBe(true);
+      expect(cells[2].querySelector('.diff-delete')!.textContent).toBe('farm');
+      expect(cells[2].querySelector('.diff-insert')!.textContent).toBe('orchard');
+    });
+  });
+
+  describe('Stories', () => {
+    it('should render headers and notes in collapsible sections after the body', () => {
+      const diff: DocumentDiff = {
+        blockDiffs: [{
+          type: 'unchanged',
+          originalBlock: createParagraph('Body text'),
+          currentBlock: createParagraph('Body text')
+        }],
+        storyDiffs: [
+          {
+            key: 'header-first-1',
+            type: 'header',
+            variant: 'first',
+            section: 1,
+            blockDiffs: [{ type: 'insert', currentBlock: createParagraph('Confidential'), changeId: 'change-0' }],
+            changeCount: 1
+          },
+          {
+            key: 'footnotes',
+            type: 'footnotes',
+            blockDiffs: [{ type: 'unchanged', originalBlock: createParagraph('A note'), currentBlock: createParagraph('A note') }],
+            changeCount: 0
+          },
+          { key: 'footer-default-1', type: 'footer', variant: 'default', section: 1, blockDiffs: [], changeCount: 0 }
+        ],
+        totalChanges: 1
+      };
+
+      renderer.renderRedlined(diff);
+
+      const sections = redlinedPane.querySelectorAll('details.story-section');
+      expect(sections).toHaveLength(2);
+      const header = sections[0] as HTMLDetailsElement;
+      expect(header.querySelector('summary')!.textContent).toContain('Header (first page)');
+      expect(header.open).toBe(true);
+      expect(header.querySelector('[data-change-id="change-0"]')).not.toBeNull();
+      expect((sections[1] as HTMLDetailsElement).open).toBe(false);
+      expect(sections[1].querySelector('summary')!.textContent).toContain('No changes');
+    });
+  });
+
+  describe('Change review', () => {
+    const diff: DocumentDiff = {
+      blockDiffs: [
+        { type: 'insert', currentBlock: createParagraph('New clause', { id: 'b1' }), changeId: 'change-0' },
+        { type: 'delete', originalBlock: createTableRow(['Fee', '$100'], { id: 'r1' }), changeId: 'change-1' }
+      ],
+      totalChanges: 2
+    };
+
+    it('should add accept and reject buttons without changing the block text', () => {
+      renderer.renderRedlined(diff);
+
+      const block = redlinedPane.querySelector('[data-change-id="change-0"]')!;
+      expect(block.querySelectorAll('.change-action')).toHaveLength(2);
+      expect(block.textContent).toBe('New clause');
+      // Table rows carry the buttons in their last cell
+      const row = redlinedPane.querySelector('tr[data-change-id="change-1"]')!;
+      expect(row.lastElementChild!.querySelector('.change-actions')).not.toBeNull();
+    });
+
+    it('should report decisions and toggle a repeated decision back to pending', () => {
+      const onChangeAction = vi.fn();
+      renderer.onChangeAction(onChangeAction);
+      renderer.renderRedlined(diff);
+
+      const accept = redlinedPane.querySelector<HTMLButtonElement>('[data-change-id="change-0"] [data-action="accepted"]')!;
+      accept.click();
+      expect(onChangeAction).toHaveBeenLastCalledWith('change-0', 'accepted');
+
+      renderer.setChangeStates(new Map<string, ChangeState>([['change-0', 'accepted']]));
+      accept.click();
+      expect(onChangeAction).toHaveBeenLastCalledWith('change-0', 'pending');
+    });
+
+    it('should mark decided changes and keep the marks across renders', () => {
+      renderer.setChangeStates(new Map<string, ChangeState>([['change-1', 'rejected']]));
+      renderer.renderRedlined(diff);
+
+      const row = redlinedPane.querySelector('[data-change-id="change-1"]')!;
+      expect(row.classList.contains('change-rejected')).toBe(true);
+      expect(row.querySelector('[data-action="rejected"]')!.getAttribute('aria-pressed')).toBe('true');
+      expect(redlinedPane.querySelector('[data-change-id="change-0"]')!.classList.contains('change-rejected')).toBe(false);
+    });
+  });
 });
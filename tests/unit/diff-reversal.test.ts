@@ -0,0 +1,96 @@
+// Unit tests for reverseDiff
+
+import { describe, it, expect } from 'vitest';
+import { DiffEngine } from '../../src/diff/diff-engine';
+import { reverseDiff } from '../../src/diff/diff-reversal';
+import { PARAGRAPH_BOUNDARY, type FormatChange } from '../../src/types/diff.types';
+import {
+  createMultiParagraphDocument,
+  createDocument,
+  createParagraph,
+  createTextRun
+} from '../helpers/ast-factory';
+
+describe('reverseDiff', () => {
+  const diffEngine = new DiffEngine();
+
+  it('should swap insertions and deletions and keep change ids', () => {
+    const doc1 = createMultiParagraphDocument(['Intro', 'Removed clause about delivery']);
+    const doc2 = createMultiParagraphDocument(['Intro', 'Added clause on payment terms and invoices']);
+
+    const diff = diffEngine.diffDocuments(doc1, doc2);
+    const reversed = reverseDiff(diff);
+
+    expect(reversed.blockDiffs.map(d => d.type)).toEqual(diff.blockDiffs.map(d =>
+      d.type === 'insert' ? 'delete' : d.type === 'delete' ? 'insert' : d.type
+    ));
+    expect(reversed.blockDiffs.map(d => d.changeId)).toEqual(diff.blockDiffs.map(d => d.changeId));
+    const inserted = reversed.blockDiffs.find(d => d.type === 'insert')!;
+    expect(inserted.currentBlock!.text).toBe('Removed clause about delivery');
+    expect(inserted.originalBlock).toBeUndefined();
+  });
+
+  it('should swap word changes and phrase texts', () => {
+    const doc1 = createMultiParagraphDocument(['The quick brown fox jumps over the lazy dog']);
+    const doc2 = createMultiParagraphDocument(['The quick red fox jumps over the lazy dog']);
+
+    const reversed = reverseDiff(diffEngine.diffDocuments(doc1, doc2));
+
+    const wordDiff = reversed.blockDiffs[0].wordDiff!;
+    expect(wordDiff.some(c => c.added && c.value.includes('brown'))).toBe(true);
+    expect(wordDiff.some(c => c.removed && c.value.includes('red'))).toBe(true);
+    expect(reversed.blockDiffs[0].originalBlock!.text).toContain('red');
+  });
+
+  it('should move the inner word diff to the new destination of a move', () => {
+    const moved = 'Either party may terminate this agreement with thirty days notice';
+    const doc1 = createMultiParagraphDocument([moved, 'Payment terms apply', 'Governing law is California']);
+    const doc2 = createMultiParagraphDocument([
+      'Payment terms apply',
+      'Governing law is California',
+      'Either party may terminate this agreement with sixty days notice'
+    ]);
+
+    const reversed = reverseDiff(diffEngine.diffDocuments(doc1, doc2));
+
+    const [first, second] = reversed.blockDiffs.filter(d => d.type === 'move');
+    expect(first.move!.role).toBe('to');
+    expect(second.move!.role).toBe('from');
+    expect(first.move!.sourceIndex).toBe(2);
+    expect(first.move!.destinationIndex).toBe(0);
+    expect(second.wordDiff).toBeUndefined();
+    expect(first.wordDiff!.some(c => c.added && c.value.includes('thirty'))).toBe(true);
+  });
+
+  it('should turn a split into a merge', () => {
+    const doc1 = createMultiParagraphDocument([
+      'The supplier shall deliver the goods within ten days. The buyer shall pay the invoice within thirty days'
+    ]);
+    const doc2 = createMultiParagraphDocument([
+      'The supplier shall deliver the goods within ten days.',
+      'The buyer shall pay the invoice within thirty days'
+    ]);
+
+    const reversed = reverseDiff(diffEngine.diffDocuments(doc1, doc2));
+
+    expect(reversed.blockDiffs[0].type).toBe('merge');
+    expect(reversed.blockDiffs[0].originalBlocks!.length).toBe(2);
+    expect(reversed.blockDiffs[0].wordDiff!.some(c => c.removed && c.value.includes(PARAGRAPH_BOUNDARY))).toBe(true);
+  });
+
+  it('should swap the sides of formatting changes', () => {
+    const doc1 = createDocument([
+      createParagraph('Plain words', { runs: [createTextRun('Plain '), createTextRun('words')] })
+    ]);
+    const doc2 = createDocument([
+      createParagraph('Plain words', { runs: [createTextRun('Plain '), createTextRun('words', { bold: true })] })
+    ]);
+
+    const reversed = reverseDiff(diffEngine.diffDocuments(doc1, doc2));
+
+    const formatChange = reversed.blockDiffs[0].formatDiff!.find(c => c.type === 'format-change') as FormatChange;
+    expect(formatChange.changes.bold.from).toBe(true);
+    expect(formatChange.changes.bold.to).toBeFalsy();
+    expect(formatChange.from.bold).toBe(true);
+  });
+});
@@ -0,0 +1,484 @@
+// Unit tests for DocxInPlaceExporter - the revision markup written into the exported package
+
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import {
+  Bookmark, Document, ExternalHyperlink, FootnoteReferenceRun, HeadingLevel, Packer, Paragraph, Table, TableCell, TableRow, TextRun
+} from 'docx';
+import { DocxInPlaceExporter, type ExportOptions } from '../../src/ui/docx-export-inplace';
+import { DocxParser } from '../../src/parsers/docx-parser';
+import { DiffEngine } from '../../src/diff/diff-engine';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+async function toArrayBuffer(doc: Document): Promise<ArrayBuffer> {
+  const buffer = await Packer.toBuffer(doc);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Diff two documents and export the redline, returning the exported package
+ */
+async function exportRedline(
+  original: Document,
+  current: Document | ArrayBuffer,
+  options: Partial<ExportOptions> = {}
+): Promise<JSZip> {
+  const originalBuffer = await toArrayBuffer(original);
+  const currentBuffer = current instanceof ArrayBuffer ? current : await toArrayBuffer(current);
+  const parser = new DocxParser();
+  const diff = new DiffEngine().diffDocuments(
+    await parser.parseBuffer(originalBuffer),
+    await parser.parseBuffer(currentBuffer)
+  );
+
+  let exported: Blob | null = null;
+  vi.spyOn(URL, 'createObjectURL').mockImplementationOnce(blob => {
+    exported = blob as Blob;
+    return 'blob:redline';
+  });
+  const base = options.baseDocument === 'original' ? originalBuffer : currentBuffer;
+  await new DocxInPlaceExporter().export(diff, base, 'contract.docx', options);
+  return JSZip.loadAsync(await exported!.arrayBuffer());
+}
+
+async function readPart(zip: JSZip, path: string): Promise<Document> {
+  return new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+}
+
+function textOf(el: Element): string {
+  return Array.from(el.getElementsByTagName('*'))
+    .filter(node => node.nodeName === 'w:t' || node.nodeName === 'w:delText')
+    .map(node => node.textContent)
+    .join('');
+}
+
+function footnoteDocument(footnotes: Record<number, string[]>): Document {
+  return new Document({
+    footnotes: Object.fromEntries(Object.entries(footnotes).map(([id, texts]) => [
+      id, { children: texts.map(text => new Paragraph(text)) }
+    ])),
+    sections: [{
+      children: [new Paragraph({
+        children: [
+          new TextRun('Terms apply'),
+          ...Object.keys(footnotes).map(id => new FootnoteReferenceRun(Number(id)))
+        ]
+      })]
+    }]
+  });
+}
+
+function paragraphDocument(...paragraphs: (string | Paragraph)[]): Document {
+  return new Document({
+    sections: [{ children: paragraphs.map(p => typeof p === 'string' ? new Paragraph(p) : p) }]
+  });
+}
+
+/**
+ * Elements of a tag name, in document order
+ */
+function elements(root: Document | Element, tagName: string): Element[] {
+  return Array.from(root.getElementsByTagName(tagName));
+}
+
+describe('DocxInPlaceExporter', () => {
+  describe('revision author, date and comments', () => {
+    const heading = () => new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('Payment')] });
+    const original = paragraphDocument(heading(), 'Payment is due within thirty days.');
+    const current = paragraphDocument(heading(), 'Payment is due within sixty days.');
+
+    it('should write the configured author and date on revisions and comments', async () => {
+      const zip = await exportRedline(original, current, {
+        author: 'Jane Reviewer',
+        revisionDate: new Date('2024-05-01T09:30:00Z'),
+        trackInsertions: true
+      });
+
+      const body = await readPart(zip, 'word/document.xml');
+      const comments = elements(await readPart(zip, 'word/comments.xml'), 'w:comment');
+      const revisions = [...elements(body, 'w:ins'), ...elements(body, 'w:del'), ...comments];
+      expect(revisions.length).toBeGreaterThan(2);
+      revisions.forEach(revision => {
+        expect(revision.getAttribute('w:author')).toBe('Jane Reviewer');
+        expect(revision.getAttribute('w:date')).toBe('2024-05-01T09:30:00.000Z');
+      });
+    });
+
+    it('should fall back to the export time for an invalid date', async () => {
+      const before = Date.now();
+      const body = await readPart(await exportRedline(original, current, { revisionDate: new Date('not a date') }), 'word/document.xml');
+
+      const date = new Date(elements(body, 'w:del')[0].getAttribute('w:date')!).getTime();
+      expect(date).toBeGreaterThanOrEqual(before - 1000);
+      expect(date).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should expand the comment template for each change', async () => {
+      const zip = await exportRedline(original, current, {
+        commentTemplate: '{type} under "{heading}": {description} (+{wordsAdded} -{wordsRemoved}) {unknown}'
+      });
+
+      const comments = elements(await readPart(zip, 'word/comments.xml'), 'w:comment').map(textOf);
+      // Unknown placeholders are kept as written
+      expect(comments).toEqual([
+        'Modification under "Payment": Removed: "thirty" (+1 -1) {unknown}',
+        'Modification under "Payment": Added: "sixty" (+1 -1) {unknown}'
+      ]);
+    });
+  });
+
+  describe('insertions', () => {
+    const original = paragraphDocument('The term ends on 15 March 2024.');
+    const current = paragraphDocument('The term ends on 15 March 2025.');
+
+    it('should track character edits as w:ins when tracking insertions', async () => {
+      const body = await readPart(await exportRedline(original, current, { trackInsertions: true }), 'word/document.xml');
+
+      expect(elements(body, 'w:ins').map(textOf)).toEqual(['5']);
+      expect(elements(body, 'w:del').map(textOf)).toEqual(['4']);
+      expect(elements(body, 'w:highlight').length).toBe(0);
+    });
+
+    it('should highlight character edits without w:ins when not tracking insertions', async () => {
+      const body = await readPart(await exportRedline(original, current, { trackInsertions: false }), 'word/document.xml');
+
+      expect(elements(body, 'w:ins').length).toBe(0);
+      expect(elements(body, 'w:del').map(textOf)).toEqual(['4']);
+      const highlighted = elements(body, 'w:highlight').map(highlight => textOf(highlight.parentNode!.parentNode as Element));
+      expect(highlighted).toEqual(['5']);
+    });
+  });
+
+  describe('in-place edits', () => {
+    function linkedDocument(days: string): Document {
+      return new Document({
+        footnotes: { 1: { children: [new Paragraph('Business days only.')] } },
+        sections: [{
+          children: [new Paragraph({
+            children: [
+              new Bookmark({ id: 'payment', children: [new TextRun('Payment')] }),
+              new TextRun(` is due within ${days} days`),
+              new FootnoteReferenceRun(1),
+              new TextRun(' as set out in '),
+              new ExternalHyperlink({ link: 'https://example.com/terms', children: [new TextRun({ text: 'the terms', style: 'Hyperlink' })] }),
+              new TextRun('.')
+            ]
+          })]
+        }]
+      });
+    }
+
+    it('should keep hyperlinks, bookmarks and note references outside the edit as they were', async () => {
+      const current = linkedDocument('sixty');
+      const source = new DOMParser().parseFromString(
+        await (await JSZip.loadAsync(await toArrayBuffer(current))).file('word/document.xml')!.async('string'),
+        'application/xml'
+      );
+      const body = await readPart(await exportRedline(linkedDocument('thirty'), current), 'word/document.xml');
+
+      const serializer = new XMLSerializer();
+      for (const tagName of ['w:hyperlink', 'w:bookmarkStart', 'w:bookmarkEnd', 'w:footnoteReference']) {
+        const serialize = (doc: Document) => elements(doc, tagName).map(el => serializer.serializeToString(el));
+        expect(serialize(body)).toEqual(serialize(source));
+        expect(serialize(body).length).toBe(1);
+      }
+      expect(elements(body, 'w:del').map(textOf)).toEqual(['thirty']);
+      expect(textOf(body.documentElement)).toBe('Payment is due within thirtysixty days as set out in the terms.');
+    });
+  });
+
+  describe('moves', () => {
+    const moved = 'Either party may terminate this agreement with thirty days notice.';
+
+    it('should pair each move range start with its end and name both halves alike', async () => {
+      const body = await readPart(await exportRedline(
+        paragraphDocument(moved, 'Payment terms apply to every invoice.', 'Governing law is California.'),
+        paragraphDocument('Payment terms apply to every invoice.', 'Governing law is California.', moved)
+      ), 'word/document.xml');
+
+      const names: Record<string, string | null> = {};
+      for (const side of ['moveFrom', 'moveTo']) {
+        const starts = elements(body, `w:${side}RangeStart`);
+        const ends = elements(body, `w:${side}RangeEnd`);
+        expect(starts.length).toBe(1);
+        expect(ends.map(end => end.getAttribute('w:id'))).toEqual([starts[0].getAttribute('w:id')]);
+        // The range spans the moved paragraph only
+        expect(starts[0].parentNode).toBe(ends[0].parentNode);
+        names[side] = starts[0].getAttribute('w:name');
+      }
+      expect(names.moveFrom).toBe(names.moveTo);
+      expect(elements(body, 'w:moveFromRangeStart')[0].getAttribute('w:id'))
+        .not.toBe(elements(body, 'w:moveToRangeStart')[0].getAttribute('w:id'));
+
+      const text = (tagName: string) => elements(body, tagName).filter(el => el.parentNode!.nodeName === 'w:p').map(textOf);
+      expect(text('w:moveFrom')).toEqual([moved]);
+      expect(text('w:moveTo')).toEqual([moved]);
+      expect(elements(body, 'w:ins').length + elements(body, 'w:del').length).toBe(0);
+    });
+  });
+
+  describe('tables', () => {
+    function tableDocument(rows: string[][]): Document {
+      return new Document({
+        sections: [{
+          children: [new Table({
+            rows: rows.map(cells => new TableRow({
+              children: cells.map(text => new TableCell({ children: [new Paragraph(text)] }))
+            }))
+          })]
+        }]
+      });
+    }
+
+    it('should mark added and removed rows in w:trPr and track their cell content', async () => {
+      const body = await readPart(await exportRedline(
+        tableDocument([['Item', 'Price'], ['Consulting services', '1,200 EUR'], ['Widget', '10 EUR']]),
+        tableDocument([['Item', 'Price'], ['Widget', '10 EUR'], ['Annual support plan', '400 EUR']]),
+        { trackInsertions: true }
+      ), 'word/document.xml');
+
+      const rows = elements(body, 'w:tr');
+      expect(rows.map(textOf)).toEqual(['ItemPrice', 'Consulting services1,200 EUR', 'Widget10 EUR', 'Annual support plan400 EUR']);
+      const rowRevisions = rows.map(row => {
+        const trPr = elements(row, 'w:trPr')[0];
+        return trPr ? Array.from(trPr.children).map(child => child.nodeName) : [];
+      });
+      expect(rowRevisions).toEqual([[], ['w:del'], [], ['w:ins']]);
+
+      const cellRevisions = (row: Element, tagName: string) =>
+        elements(row, 'w:tc').map(tc => elements(tc, tagName).map(textOf).join(''));
+      expect(cellRevisions(rows[1], 'w:del')).toEqual(['Consulting services', '1,200 EUR']);
+      expect(cellRevisions(rows[3], 'w:ins')).toEqual(['Annual support plan', '400 EUR']);
+      // The row markers and the cell revisions carry ids of their own
+      const ids = elements(body, 'w:ins').concat(elements(body, 'w:del')).map(el => el.getAttribute('w:id'));
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  describe('split and merged paragraphs', () => {
+    const whole = 'The supplier shall deliver the goods under ¶ 4 within ten days. The buyer shall pay the invoice within thirty days.';
+    const parts = ['The supplier shall deliver the goods under ¶ 4 within ten days.', 'The buyer shall pay the invoice within thirty days.'];
+    const markRevisions = (para: Element, tagName: string) => elements(para, 'w:pPr').flatMap(pPr => elements(pPr, tagName));
+
+    it('should split only at the paragraph boundary, keeping a pilcrow of the text', async () => {
+      const body = await readPart(await exportRedline(
+        paragraphDocument('Intro', whole, 'Closing'),
+        paragraphDocument('Intro', ...parts, 'Closing')
+      ), 'word/document.xml');
+
+      const paragraphs = elements(body, 'w:p');
+      expect(paragraphs.map(textOf)).toEqual(['Intro', ...parts, 'Closing']);
+      expect(paragraphs.map(para => markRevisions(para, 'w:ins').length)).toEqual([0, 1, 0, 0]);
+      expect(elements(body, 'w:del').length).toBe(0);
+    });
+
+    it('should merge only at the paragraph boundary, keeping a pilcrow of the text', async () => {
+      const body = await readPart(await exportRedline(
+        paragraphDocument('Intro', ...parts, 'Closing'),
+        paragraphDocument('Intro', whole, 'Closing')
+      ), 'word/document.xml');
+
+      const paragraphs = elements(body, 'w:p');
+      expect(paragraphs.map(textOf)).toEqual(['Intro', ...parts, 'Closing']);
+      expect(paragraphs.map(para => markRevisions(para, 'w:del').length)).toEqual([0, 1, 0, 0]);
+    });
+
+    it('should fall back to a deletion and an insertion when a part of a split is not found', async () => {
+      const parser = new DocxParser();
+      const diff = new DiffEngine().diffDocuments(
+        await parser.parseBuffer(await toArrayBuffer(paragraphDocument('Intro', whole, 'Closing'))),
+        await parser.parseBuffer(await toArrayBuffer(paragraphDocument('Intro', ...parts, 'Closing')))
+      );
+      let exported: Blob | null = null;
+      vi.spyOn(URL, 'createObjectURL').mockImplementationOnce(blob => {
+        exported = blob as Blob;
+        return 'blob:redline';
+      });
+
+      // The package no longer holds the second part of the split
+      const base = await toArrayBuffer(paragraphDocument('Intro', parts[0], 'Governing law is English law.', 'Closing'));
+      await new DocxInPlaceExporter().export(diff, base, 'contract.docx', { trackInsertions: true });
+      const body = await readPart(await JSZip.loadAsync(await exported!.arrayBuffer()), 'word/document.xml');
+
+      const paragraphs = elements(body, 'w:p');
+      expect(paragraphs.map(textOf)).toEqual(['Intro', whole, parts[0], 'Governing law is English law.', 'Closing']);
+      expect(elements(paragraphs[1], 'w:del').map(textOf)).toEqual([whole]);
+      expect(elements(paragraphs[2], 'w:ins').map(textOf).join('')).toBe(parts[0]);
+      expect(elements(paragraphs[3], 'w:ins').length + elements(paragraphs[3], 'w:del').length).toBe(0);
+    });
+  });
+
+  describe('built on the original', () => {
+    it('should swap revisions so they still read from original to current', async () => {
+      const zip = await exportRedline(
+        paragraphDocument('Payment is due within thirty days.', 'Late payments carry interest.'),
+        paragraphDocument('Payment is due within sixty days.', 'Either party may renew this agreement.'),
+        { baseDocument: 'original' }
+      );
+      const body = await readPart(zip, 'word/document.xml');
+
+      // Text of the original is deleted, text of the current document
+      // inserted; empty revisions mark paragraph marks
+      expect(elements(body, 'w:del').map(textOf).filter(Boolean)).toEqual(['thirty', 'Late payments carry interest.']);
+      expect(elements(body, 'w:ins').map(textOf).filter(Boolean)).toEqual(['sixty', 'Either party may renew this agreement.']);
+      elements(body, 'w:del').forEach(del => expect(elements(del, 'w:t').length).toBe(0));
+      elements(body, 'w:ins').forEach(ins => expect(elements(ins, 'w:delText').length).toBe(0));
+      expect(textOf(body.documentElement)).toBe(
+        'Payment is due within thirtysixty days.Late payments carry interest.Either party may renew this agreement.'
+      );
+
+      const comments = elements(await readPart(zip, 'word/comments.xml'), 'w:comment').map(textOf);
+      expect(comments).toContain('Removed: "thirty"');
+      expect(comments).toContain('Added: "sixty"');
+    });
+
+    it('should put the move source at the original position', async () => {
+      const moved = 'Either party may terminate this agreement with thirty days notice.';
+      const body = await readPart(await exportRedline(
+        paragraphDocument(moved, 'Payment terms apply to every invoice.', 'Governing law is California.'),
+        paragraphDocument('Payment terms apply to every invoice.', 'Governing law is California.', moved),
+        { baseDocument: 'original' }
+      ), 'word/document.xml');
+
+      const paragraphs = elements(body, 'w:p');
+      expect(elements(paragraphs[0], 'w:moveFromRangeStart').length).toBe(1);
+      expect(elements(paragraphs[0], 'w:moveFrom').map(textOf).filter(Boolean)).toEqual([moved]);
+      expect(elements(paragraphs[paragraphs.length - 1], 'w:moveTo').map(textOf).filter(Boolean)).toEqual([moved]);
+      expect(elements(paragraphs[0], 'w:delText').map(t => t.textContent).join('')).toBe(moved);
+    });
+  });
+
+  describe('existing comments', () => {
+    const W15 = 'http://schemas.microsoft.com/office/word/2012/wordml';
+    const W16CID = 'http://schemas.microsoft.com/office/word/2016/wordml/cid';
+    const COMMENT_PARTS = [
+      ['comments', 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments'],
+      ['commentsExtended', 'http://schemas.microsoft.com/office/2011/relationships/commentsExtended'],
+      ['commentsIds', 'http://schemas.microsoft.com/office/2016/09/relationships/commentsIds']
+    ];
+
+    /**
+     * A document with a resolved comment and a reply to it, as Word saves them.
+     * `noteParaId` is given to the paragraph of the footnote separator.
+     */
+    async function withComments(doc: Document, noteParaId?: string): Promise<ArrayBuffer> {
+      const zip = await JSZip.loadAsync(await toArrayBuffer(doc));
+      if (noteParaId) {
+        const notes = await zip.file('word/footnotes.xml')!.async('string');
+        zip.file('word/footnotes.xml', notes.replace('<w:p>', `<w:p w14:paraId="${noteParaId}">`));
+      }
+      const comment = (id: number, paraId: string, text: string) =>
+        `<w:comment w:id="${id}" w:author="Alice" w:date="2024-03-01T10:00:00Z">` +
+        `<w:p w14:paraId="${paraId}"><w:r><w:t>${text}</w:t></w:r></w:p></w:comment>`;
+      zip.file('word/comments.xml',
+        `<w:comments xmlns:w="${W_NS}" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml">` +
+        comment(3, '1A2B3C4D', 'Check the rate') + comment(7, '00000001', 'Done, rate confirmed') + '</w:comments>');
+      zip.file('word/commentsExtended.xml',
+        `<w15:commentsEx xmlns:w15="${W15}">` +
+        '<w15:commentEx w15:paraId="1A2B3C4D" w15:done="1"/>' +
+        '<w15:commentEx w15:paraId="00000001" w15:paraIdParent="1A2B3C4D" w15:done="1"/></w15:commentsEx>');
+      zip.file('word/commentsIds.xml',
+        `<w16cid:commentsIds xmlns:w16cid="${W16CID}">` +
+        '<w16cid:commentId w16cid:paraId="1A2B3C4D" w16cid:durableId="00000002"/>' +
+        '<w16cid:commentId w16cid:paraId="00000001" w16cid:durableId="5E6F7A8B"/></w16cid:commentsIds>');
+
+      // The generated package already relates comments.xml
+      const added = COMMENT_PARTS.slice(1);
+      const rels = added.map(([name, type]) => `<Relationship Id="rId${name}" Type="${type}" Target="${name}.xml"/>`);
+      const relsPath = 'word/_rels/document.xml.rels';
+      zip.file(relsPath, (await zip.file(relsPath)!.async('string')).replace('</Relationships>', `${rels.join('')}</Relationships>`));
+      const overrides = added.map(([name]) =>
+        `<Override PartName="/word/${name}.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${name}+xml"/>`);
+      const typesPath = '[Content_Types].xml';
+      zip.file(typesPath, (await zip.file(typesPath)!.async('string')).replace('</Types>', `${overrides.join('')}</Types>`));
+
+      const buffer = await zip.generateAsync({ type: 'uint8array' });
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    }
+
+    it('should append change comments without disturbing existing threads', async () => {
+      const zip = await exportRedline(
+        paragraphDocument('Payment is due within thirty days.', 'Late payments carry interest.'),
+        await withComments(paragraphDocument('Payment is due within sixty days.', 'Late payments carry no interest.'))
+      );
+
+      const comments = elements(await readPart(zip, 'word/comments.xml'), 'w:comment');
+      expect(comments.slice(0, 2).map(c => [c.getAttribute('w:id'), elements(c, 'w:p')[0].getAttribute('w14:paraId')]))
+        .toEqual([['3', '1A2B3C4D'], ['7', '00000001']]);
+      const newIds = comments.slice(2).map(c => Number(c.getAttribute('w:id')));
+      expect(newIds.length).toBeGreaterThan(0);
+      expect(newIds[0]).toBe(8);
+      // The body references exactly the new comments
+      const referenced = elements(await readPart(zip, 'word/document.xml'), 'w:commentReference').map(ref => Number(ref.getAttribute('w:id')));
+      expect(referenced).toEqual(newIds);
+
+      const extended = elements(await readPart(zip, 'word/commentsExtended.xml'), 'w15:commentEx');
+      expect(extended.slice(0, 2).map(ex => [ex.getAttribute('w15:paraId'), ex.getAttribute('w15:paraIdParent'), ex.getAttribute('w15:done')]))
+        .toEqual([['1A2B3C4D', null, '1'], ['00000001', '1A2B3C4D', '1']]);
+      expect(extended.slice(2).map(ex => ex.getAttribute('w15:done'))).toEqual(newIds.map(() => '0'));
+      const newParaIds = comments.slice(2).map(c => elements(c, 'w:p')[0].getAttribute('w14:paraId'));
+      expect(extended.slice(2).map(ex => ex.getAttribute('w15:paraId'))).toEqual(newParaIds);
+
+      const commentIds = elements(await readPart(zip, 'word/commentsIds.xml'), 'w16cid:commentId');
+      expect(commentIds.slice(0, 2).map(id => id.getAttribute('w16cid:durableId'))).toEqual(['00000002', '5E6F7A8B']);
+      const hexIds = commentIds.flatMap(id => [id.getAttribute('w16cid:paraId'), id.getAttribute('w16cid:durableId')]);
+      expect(new Set(hexIds).size).toBe(2 + 2 * newIds.length + 2);
+
+      const rels = elements(await readPart(zip, 'word/_rels/document.xml.rels'), 'Relationship');
+      for (const [name, type] of COMMENT_PARTS) {
+        expect(rels.filter(rel => rel.getAttribute('Type') === type).length).toBe(1);
+        expect(zip.file(`word/${name}.xml`)).not.toBeNull();
+      }
+      const overrides = elements(await readPart(zip, '[Content_Types].xml'), 'Override').map(o => o.getAttribute('PartName'));
+      expect(overrides.filter(name => name!.startsWith('/word/comments'))).toEqual(COMMENT_PARTS.map(([name]) => `/word/${name}.xml`));
+    });
+
+    it('should not reuse a paragraph id from another part for a new comment', async () => {
+      const zip = await exportRedline(
+        paragraphDocument('Payment is due within thirty days.'),
+        await withComments(paragraphDocument('Payment is due within sixty days.'), '00000003')
+      );
+
+      const comments = elements(await readPart(zip, 'word/comments.xml'), 'w:comment');
+      const newParaIds = comments.slice(2).map(c => elements(c, 'w:p')[0].getAttribute('w14:paraId'));
+      expect(newParaIds.length).toBeGreaterThan(0);
+      expect(newParaIds).not.toContain('00000003');
+      expect(elements(await readPart(zip, 'word/footnotes.xml'), 'w:p')[0].getAttribute('w14:paraId')).toBe('00000003');
+    });
+  });
+
+  describe('notes', () => {
+    /**
+     * Text of each real note, deleted text included, by note id
+     */
+    async function readNotes(zip: JSZip): Promise<Record<string, string>> {
+      const notes = elements(await readPart(zip, 'word/footnotes.xml'), 'w:footnote')
+        .filter(note => !note.getAttribute('w:type'));
+      return Object.fromEntries(notes.map(note => [note.getAttribute('w:id'), textOf(note)]));
+    }
+
+    it('should keep a deleted note paragraph in the note it came from', async () => {
+      const zip = await exportRedline(
+        footnoteDocument({ 1: ['Affiliate means a controlled entity.', 'Control means majority ownership.'], 2: ['Days are calendar days.'] }),
+        footnoteDocument({ 1: ['Affiliate means a controlled entity.'], 2: ['Days are calendar days.'] })
+      );
+
+      const notes = await readNotes(zip);
+      expect(notes['1']).toBe('Affiliate means a controlled entity.Control means majority ownership.');
+      expect(notes['2']).toBe('Days are calendar days.');
+    });
+
+    it('should re-create a removed note instead of joining it to another', async () => {
+      const zip = await exportRedline(
+        footnoteDocument({ 1: ['Affiliate means a controlled entity.'], 2: ['Days are calendar days.'] }),
+        footnoteDocument({ 1: ['Affiliate means a controlled entity.'] })
+      );
+
+      const notes = await readNotes(zip);
+      expect(notes['1']).toBe('Affiliate means a controlled entity.');
+      expect(Object.values(notes)).toContain('Days are calendar days.');
+      expect(Object.keys(notes).length).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+// Unit tests for DocxParser - single-pass OOXML parsing
+
+import { describe, it, expect } from 'vitest';
+import {
+  AlignmentType, Document, HeadingLevel, Packer, Paragraph, TextRun, PageBreak,
+  Table, TableRow, TableCell, VerticalMergeType,
+  Header, Footer, FootnoteReferenceRun, InsertedTextRun, DeletedTextRun, LevelFormat
+} from 'docx';
+import JSZip from 'jszip';
+import { DocxParser, type ParseOptions } from '../../src/parsers/docx-parser';
+import { DiffEngine } from '../../src/diff/diff-engine';
+import {
+  createDocxDocument,
+  createNativeNumberedListDocument,
+  createMixedDocumentWithNumberedList,
+  createMixedDocumentWithTable
+} from '../helpers/docx-builder';
+
+async function parse(doc: Document, options: Partial<ParseOptions> = {}) {
+  const buffer = await Packer.toBuffer(doc);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  return new DocxParser().parseBuffer(arrayBuffer, options);
+}
+
+function createRevisedDocument() {
+  const revision = { author: 'Alice', date: '2024-03-01T10:00:00Z' };
+  return new Document({
+    sections: [{
+      children: [new Paragraph({
+        children: [
+          new TextRun('Payment is due within '),
+          new DeletedTextRun({ text: 'thirty', id: 1, ...revision }),
+          new InsertedTextRun({ text: 'sixty', id: 2, ...revision }),
+          new TextRun(' days.')
+        ]
+      })]
+    }]
+  });
+}
+
+describe('DocxParser', () => {
+  it('should parse paragraphs and headings in order', async () => {
+    const ast = await parse(new Document({
+      sections: [{
+        children: [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('Agreement')] }),
+          new Paragraph({ children: [new TextRun('This agreement is made today.')] }),
+          new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('Terms')] })
+        ]
+      }]
+    }));
+
+    expect(ast.blocks.map(b => [b.type, b.text])).toEqual([
+      ['heading1', 'Agreement'],
+      ['paragraph', 'This agreement is made today.'],
+      ['heading2', 'Terms']
+    ]);
+  });
+
+  it('should keep run-level formatting', async () => {
+    const ast = await parse(new Document({
+      sections: [{
+        children: [new Paragraph({
+          children: [
+            new TextRun({ text: 'Pay ' }),
+            new TextRun({ text: '$50,000', bold: true, color: 'FF0000' }),
+            new TextRun({ text: ' on signing.', size: 24 })
+          ]
+        })]
+      }]
+    }));
+
+    const block = ast.blocks[0];
+    expect(block.text).toBe('Pay $50,000 on signing.');
+    expect(block.runs.map(r => r.text)).toEqual(['Pay ', '$50,000', ' on signing.']);
+    expect(block.runs[1].formatting).toEqual({ bold: true, color: '#FF0000' });
+    expect(block.runs[2].formatting.fontSize).toBe(12);
+    expect(block.formatting).toEqual({});
+  });
+
+  it('should read paragraph style and alignment', async () => {
+    const ast = await parse(new Document({
+      sections: [{
+        children: [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('Agreement')] }),
+          new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun('Between the parties')] }),
+          new Paragraph({ children: [new TextRun('Plain text.')] })
+        ]
+      }]
+    }));
+
+    expect(ast.blocks.map(b => b.paragraphFormatting)).toEqual([
+      { style: 'Heading1' },
+      { alignment: 'center' },
+      undefined
+    ]);
+  });
+
+  it('should emit numbered list items once, in document order', async () => {
+    const ast = await parse(createMixedDocumentWithNumberedList(
+      'Introduction',
+      ['First item', 'Second item'],
+      'Conclusion'
+    ));
+
+    expect(ast.blocks.map(b => [b.type, b.text])).toEqual([
+      ['paragraph', 'Introduction'],
+      ['list-item', 'First item'],
+      ['list-item', 'Second item'],
+      ['paragraph', 'Conclusion']
+    ]);
+  });
+
+  it('should resolve list labels from numbering.xml', async () => {
+    const clause = (text: string, level: number) =>
+      new Paragraph({ numbering: { reference: 'clauses', level }, children: [new TextRun(text)] });
+    const ast = await parse(new Document({
+      numbering: {
+        config: [{
+          reference: 'clauses',
+          levels: [
+            { level: 0, format: LevelFormat.DECIMAL, text: '%1.', start: 3 },
+            { level: 1, format: LevelFormat.DECIMAL, text: '%1.%2' },
+            { level: 2, format: LevelFormat.LOWER_LETTER, text: '(%3)' },
+            { level: 3, format: LevelFormat.LOWER_ROMAN, text: '(%4)' }
+          ]
+        }]
+      },
+      sections: [{
+        children: [
+          clause('Payment', 0),
+          clause('Fees', 1),
+          clause('Invoices', 1),
+          clause('Monthly', 2),
+          clause('Net 30', 3),
+          clause('Net 45', 3),
+          clause('Quarterly', 2),
+          clause('Term', 0),
+          clause('Renewal', 1)
+        ]
+      }]
+    }));
+
+    expect(ast.blocks.map(b => [b.listLabel, b.listLevel])).toEqual([
+      ['3.', 0], ['3.1', 1], ['3.2', 1], ['(a)', 2], ['(i)', 3], ['(ii)', 3], ['(b)', 2], ['4.', 0], ['4.1', 1]
+    ]);
+  });
+
+  it('should honour the start value of a list', async () => {
+    const ast = await parse(createNativeNumberedListDocument(['First', 'Second'], { startNumber: 5 }));
+
+    expect(ast.blocks.map(b => b.listLabel)).toEqual(['5.', '6.']);
+  });
+
+  it('should emit table rows at their position in the body', async () => {
+    const ast = await parse(createMixedDocumentWithTable(
+      'Before the table',
+      [
+        { cells: [{ text: 'Name' }, { text: 'Amount' }] },
+        { cells: [{ text: 'Fee' }, { text: '$100' }] }
+      ],
+      'After the table'
+    ));
+
+    expect(ast.blocks.map(b => b.text)).toEqual([
+      'Before the table',
+      'Name | Amount',
+      'Fee | $100',
+      'After the table'
+    ]);
+    expect(ast.blocks[1].type).toBe('table-row');
+    expect(ast.blocks[1].tableId).toBe('table-0');
+    expect(ast.blocks[2].rowIndex).toBe(1);
+  });
+
+  it('should keep cells with their grid span and vertical merge', async () => {
+    const cell = (text: string, options: object = {}) =>
+      new TableCell({ children: [new Paragraph({ children: [new TextRun(text)] })], ...options });
+    const ast = await parse(new Document({
+      sections: [{
+        children: [new Table({
+          rows: [
+            new TableRow({ children: [cell('Schedule', { columnSpan: 2 }), cell('Fee')] }),
+            new TableRow({ children: [cell('Setup', { verticalMerge: VerticalMergeType.RESTART }), cell('Once'), cell('$500')] }),
+            new TableRow({ children: [cell('', { verticalMerge: VerticalMergeType.CONTINUE }), cell('Renewal'), cell('$50')] })
+          ]
+        })]
+      }]
+    }));
+
+    expect(ast.blocks[0].cells!.map(c => [c.text, c.gridSpan])).toEqual([['Schedule', 2], ['Fee', 1]]);
+    expect(ast.blocks[1].cells![0].vMerge).toBe('restart');
+    expect(ast.blocks[2].cells![0].vMerge).toBe('continue');
+    expect(ast.blocks[2].cells!.map(c => c.text)).toEqual(['', 'Renewal', '$50']);
+  });
+
+  it('should diff a removed table row between the surrounding paragraphs', async () => {
+    const rows = [
+      { cells: [{ text: 'Name' }, { text: 'Amount' }] },
+      { cells: [{ text: 'Fee' }, { text: '$100' }] },
+      { cells: [{ text: 'Tax' }, { text: '$20' }] }
+    ];
+    const original = await parse(createMixedDocumentWithTable('Before the table', rows, 'After the table'));
+    const current = await parse(createMixedDocumentWithTable('Before the table', [rows[0], rows[2]], 'After the table'));
+
+    const result = new DiffEngine().diffDocuments(original, current);
+
+    expect(result.blockDiffs.map(d => [d.type, (d.currentBlock ?? d.originalBlock)?.text])).toEqual([
+      ['unchanged', 'Before the table'],
+      ['unchanged', 'Name | Amount'],
+      ['delete', 'Fee | $100'],
+      ['unchanged', 'Tax | $20'],
+      ['unchanged', 'After the table']
+    ]);
+  });
+
+  it('should emit page breaks as separate blocks', async () => {
+    const ast = await parse(new Document({
+      sections: [{
+        children: [
+          new Paragraph({ children: [new TextRun('Page one')] }),
+          new Paragraph({ children: [new PageBreak()] }),
+          new Paragraph({ children: [new TextRun('Page two')] })
+        ]
+      }]
+    }));
+
+    expect(ast.blocks.map(b => b.type)).toEqual(['paragraph', 'page-break', 'paragraph']);
+  });
+
+  it('should parse headers, footers and footnotes into stories', async () => {
+    const ast = await parse(new Document({
+      footnotes: { 1: { children: [new Paragraph('"Affiliate" means any controlled entity.')] } },
+      sections: [{
+        headers: {
+          default: new Header({ children: [new Paragraph('Confidential')] }),
+          first: new Header({ children: [new Paragraph('Draft for discussion')] })
+        },
+        footers: { default: new Footer({ children: [new Paragraph('Page footer')] }) },
+        children: [new Paragraph({ children: [new TextRun('Body text'), new FootnoteReferenceRun(1)] })]
+      }]
+    }));
+
+    expect(ast.blocks.map(b => b.text)).toEqual(['Body text']);
+    const stories = Object.fromEntries(ast.stories!.map(story => [story.key, story]));
+    expect(stories['header-default-1'].blocks.map(b => b.text)).toEqual(['Confidential']);
+    expect(stories['header-first-1'].variant).toBe('first');
+    expect(stories['footer-default-1'].type).toBe('footer');
+    // Separator notes are skipped
+    expect(stories['footnotes'].blocks.map(b => b.text)).toEqual(['"Affiliate" means any controlled entity.']);
+    expect(stories['footnotes'].part).toBe('word/footnotes.xml');
+    expect(stories['footnotes'].blocks[0].noteId).toBe('1');
+  });
+
+  it('should read existing tracked changes as accepted by default', async () => {
+    const ast = await parse(createRevisedDocument());
+
+    expect(ast.blocks[0].text).toBe('Payment is due within sixty days.');
+    expect(ast.blocks[0].revisions).toBeUndefined();
+  });
+
+  it('should read existing tracked changes as rejected', async () => {
+    const ast = await parse(createRevisedDocument(), { revisionMode: 'reject' });
+
+    expect(ast.blocks[0].text).toBe('Payment is due within thirty days.');
+  });
+
+  it('should keep existing tracked changes as revisions in preserve mode', async () => {
+    const ast = await parse(createRevisedDocument(), { revisionMode: 'preserve' });
+    const block = ast.blocks[0];
+
+    expect(block.text).toBe('Payment is due within sixty days.');
+    expect(block.runs.map(r => r.text).join('')).toBe(block.text);
+    expect(block.revisions).toEqual([
+      { type: 'delete', text: 'thirty', offset: 22, author: 'Alice', date: '2024-03-01T10:00:00Z' },
+      { type: 'insert', text: 'sixty', offset: 22, author: 'Alice', date: '2024-03-01T10:00:00Z' }
+    ]);
+  });
+
+  it('should read metadata and assign unique block ids', async () => {
+    const ast = await parse(createDocxDocument({
+      title: 'Services Agreement',
+      author: 'Legal',
+      paragraphs: [{ text: 'Same text' }, { text: 'Same text' }]
+    }));
+
+    expect(ast.metadata.title).toBe('Services Agreement');
+    expect(ast.metadata.author).toBe('Legal');
+    expect(ast.metadata.modified).toBeInstanceOf(Date);
+    expect(new Set(ast.blocks.map(b => b.id)).size).toBe(2);
+  });
+
+  it('should leave out malformed metadata dates', async () => {
+    const buffer = await Packer.toBuffer(createDocxDocument({ paragraphs: [{ text: 'Body text' }] }));
+    const zip = await JSZip.loadAsync(buffer);
+    const core = await zip.file('docProps/core.xml')!.async('string');
+    zip.file('docProps/core.xml', core.replace(/(<dcterms:modified[^>]*>)[^<]*/, '$1not a date'));
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+
+    const ast = await new DocxParser().parseBuffer(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+
+    expect(ast.metadata.modified).toBeUndefined();
+    expect(ast.metadata.created).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,110 @@
+// Unit tests for HtmlReportExporter - standalone report markup
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HtmlReportExporter } from '../../src/ui/html-report-export';
+import { DiffRenderer } from '../../src/renderer/diff-renderer';
+import { ChangeSummary } from '../../src/renderer/change-summary';
+import { DiffEngine } from '../../src/diff/diff-engine';
+import type { DocumentAST } from '../../src/types/ast.types';
+import { createDocument, createHeading, createParagraph } from '../helpers/ast-factory';
+
+describe('HtmlReportExporter', () => {
+  let renderer: DiffRenderer;
+  let summary: ChangeSummary;
+  const exporter = new HtmlReportExporter();
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="pane-redlined-content"></div>
+      <aside id="change-sidebar"></aside>
+    `;
+    renderer = new DiffRenderer('pane-redlined-content');
+    summary = new ChangeSummary('change-sidebar');
+  });
+
+  function generate(original: DocumentAST, current: DocumentAST): Document {
+    const diff = new DiffEngine().diffDocuments(original, current);
+    summary.render(diff);
+    const html = exporter.generateReport(diff, renderer, summary.getEntries(), original, current, 'v1.docx', 'v2.docx');
+    return new DOMParser().parseFromString(html, 'text/html');
+  }
+
+  it('should list file names, metadata and change counts on the cover', () => {
+    const original = createDocument([createParagraph('Payment is due within thirty days.')]);
+    original.metadata = { author: 'Alice <Legal>', title: 'Supply Agreement' };
+    const current = createDocument([
+      createParagraph('Payment is due within sixty days.'),
+      createParagraph('Either party may renew it.')
+    ]);
+    current.metadata = { author: 'Bob' };
+
+    const report = generate(original, current);
+
+    const files = report.querySelector('.report-files')!.textContent!;
+    expect(files).toContain('v1.docx');
+    expect(files).toContain('v2.docx');
+    expect(files).toContain('Alice <Legal>');
+    expect(files).toContain('Supply Agreement');
+    expect(report.querySelector('.report-counts .change-type-modify')!.textContent).toBe('Modified1');
+    expect(report.querySelector('.report-counts .change-type-insert')!.textContent).toBe('Inserted1');
+    expect(report.querySelector('.report-counts .change-type-total')!.textContent).toBe('Total2');
+  });
+
+  it('should link every index entry to its change in the redline', () => {
+    const original = createDocument([createHeading('Term'), createParagraph('This agreement lasts one year.')]);
+    const current = createDocument([createHeading('Term'), createParagraph('This agreement lasts two years.')]);
+
+    const report = generate(original, current);
+
+    const links = report.querySelectorAll<HTMLAnchorElement>('.change-index a');
+    expect(links.length).toBe(1);
+    const target = report.getElementById(links[0].getAttribute('href')!.slice(1))!;
+    expect(target.closest('.report-redline')).not.toBeNull();
+    expect(target.textContent).toContain('two years');
+    expect(links[0].querySelector('.change-heading')!.textContent).toBe('Term');
+  });
+
+  it('should keep move ids so move markers still link their halves', () => {
+    const moved = 'Either party may terminate this agreement with thirty days notice';
+    const original = createDocument([
+      createParagraph(moved),
+      createParagraph('Payment terms apply'),
+      createParagraph('Governing law is California')
+    ]);
+    const current = createDocument([
+      createParagraph('Payment terms apply'),
+      createParagraph('Governing law is California'),
+      createParagraph(moved)
+    ]);
+
+    const report = generate(original, current);
+
+    report.querySelectorAll<HTMLAnchorElement>('.move-marker').forEach(marker => {
+      expect(report.getElementById(marker.getAttribute('href')!.slice(1))).not.toBeNull();
+    });
+    report.querySelectorAll<HTMLAnchorElement>('.change-index a').forEach(link => {
+      expect(report.getElementById(link.getAttribute('href')!.slice(1))!.dataset.moveId).toBeDefined();
+    });
+  });
+
+  it('should inline the styles and leave out review buttons', () => {
+    const original = createDocument([createParagraph('Hello world')]);
+    const current = createDocument([createParagraph('Hello there world')]);
+
+    const report = generate(original, current);
+
+    expect(report.querySelector('link[rel="stylesheet"]')).toBeNull();
+    expect(report.querySelector('style')!.textContent).toContain('.report-counts');
+    expect(report.querySelector('.change-action')).toBeNull();
+    expect(report.querySelector('.report-redline .diff-insert')).not.toBeNull();
+  });
+
+  it('should note when the documents are identical', () => {
+    const doc = createDocument([createParagraph('Nothing changes here.')]);
+
+    const report = generate(doc, createDocument([createParagraph('Nothing changes here.')]));
+
+    expect(report.querySelector('.report-index')!.textContent).toContain('The documents are identical.');
+    expect(report.querySelector('.report-counts .change-type-total')!.textContent).toBe('Total0');
+  });
+});
@@ -0,0 +1,116 @@
+// Unit tests for ParagraphCursor - applying changes to a w:p without touching other content
+
+import { describe, it, expect } from 'vitest';
+import { ParagraphCursor } from '../../src/ui/paragraph-cursor';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function paragraph(content: string): Element {
+  const xml = `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body><w:p>${content}</w:p></w:body></w:document>`;
+  return new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('w:p')[0];
+}
+
+function serialize(node: Node): string {
+  return new XMLSerializer().serializeToString(node);
+}
+
+function textOf(el: Element): string {
+  return Array.from(el.getElementsByTagName('w:t')).map(t => t.textContent).join('');
+}
+
+function marker(para: Element): Element {
+  return para.ownerDocument.createElementNS(W_NS, 'w:commentRangeStart');
+}
+
+describe('ParagraphCursor', () => {
+  it('should split a w:t in the middle and keep the run properties on each part', () => {
+    const para = paragraph('<w:r><w:rPr><w:b/></w:rPr><w:t>Payment is due</w:t></w:r>');
+    const cursor = new ParagraphCursor(para);
+
+    cursor.skip('Payment ');
+    const runs = cursor.take('is');
+
+    expect(runs.map(textOf)).toEqual(['is']);
+    const allRuns = Array.from(para.getElementsByTagName('w:r'));
+    expect(allRuns.map(textOf)).toEqual(['Payment ', 'is', ' due']);
+    allRuns.forEach(run => expect(run.getElementsByTagName('w:b').length).toBe(1));
+  });
+
+  it('should take text inside a hyperlink and leave the hyperlink in place', () => {
+    const para = paragraph(
+      '<w:r><w:t xml:space="preserve">See </w:t></w:r>' +
+      '<w:hyperlink r:id="rId5"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t>Schedule 1</w:t></w:r></w:hyperlink>' +
+      '<w:r><w:t xml:space="preserve"> for rates.</w:t></w:r>'
+    );
+    const hyperlink = para.getElementsByTagName('w:hyperlink')[0];
+    const before = serialize(hyperlink);
+    const cursor = new ParagraphCursor(para);
+
+    cursor.skip('See ');
+    const runs = cursor.take('Schedule 1');
+    cursor.insert(marker(para));
+
+    expect(runs.length).toBe(1);
+    expect(runs[0].parentNode).toBe(hyperlink);
+    expect(serialize(hyperlink)).toBe(before);
+    // The marker follows the hyperlink rather than joining it
+    expect(hyperlink.nextSibling!.nodeName).toBe('w:commentRangeStart');
+  });
+
+  it('should skip text of an existing w:del and leave the deletion as it is', () => {
+    const para = paragraph(
+      '<w:r><w:t xml:space="preserve">Pay </w:t></w:r>' +
+      '<w:del w:id="1" w:author="Alice"><w:r><w:delText xml:space="preserve">promptly </w:delText></w:r></w:del>' +
+      '<w:r><w:t>within thirty days</w:t></w:r>'
+    );
+    const del = para.getElementsByTagName('w:del')[0];
+    const before = serialize(del);
+    const cursor = new ParagraphCursor(para);
+
+    expect(cursor.getText()).toBe('Pay within thirty days');
+    cursor.skip('Pay within ');
+    const runs = cursor.take('thirty');
+
+    expect(runs.map(textOf)).toEqual(['thirty']);
+    expect(serialize(del)).toBe(before);
+    expect(Array.from(para.getElementsByTagName('w:r')).map(run => run.textContent)).toEqual([
+      'Pay ', 'promptly ', 'within ', 'thirty', ' days'
+    ]);
+  });
+
+  it('should insert at the end after a revision wrapper, keeping the order of inserts', () => {
+    const para = paragraph(
+      '<w:r><w:t xml:space="preserve">Pay </w:t></w:r>' +
+      '<w:ins w:id="1" w:author="Alice"><w:r><w:t>now</w:t></w:r></w:ins>'
+    );
+    const cursor = new ParagraphCursor(para);
+
+    cursor.skip('Pay now');
+    const first = marker(para);
+    const second = para.ownerDocument.createElementNS(W_NS, 'w:commentRangeEnd');
+    cursor.insert(first);
+    cursor.insert(second);
+
+    const ins = para.getElementsByTagName('w:ins')[0];
+    expect(ins.childNodes.length).toBe(1);
+    expect(ins.nextSibling).toBe(first);
+    expect(first.nextSibling).toBe(second);
+  });
+
+  it('should keep bookmarks and fields outside the taken text', () => {
+    const para = paragraph(
+      '<w:bookmarkStart w:id="0" w:name="term"/><w:r><w:t xml:space="preserve">The term is one year</w:t></w:r><w:bookmarkEnd w:id="0"/>' +
+      '<w:fldSimple w:instr="PAGE"><w:r><w:t>4</w:t></w:r></w:fldSimple>'
+    );
+    const field = serialize(para.getElementsByTagName('w:fldSimple')[0]);
+    const cursor = new ParagraphCursor(para);
+
+    cursor.skip('The term is ');
+    cursor.take('one');
+
+    expect(para.firstChild!.nodeName).toBe('w:bookmarkStart');
+    expect(para.getElementsByTagName('w:bookmarkEnd')[0].previousSibling!.textContent).toBe(' year');
+    expect(serialize(para.getElementsByTagName('w:fldSimple')[0])).toBe(field);
+  });
+});
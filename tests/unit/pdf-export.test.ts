@@ -0,0 +1,168 @@
+// Unit tests for PdfExporter - summary page, redline marks and review states
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PdfExporter, type PdfExportOptions } from '../../src/ui/pdf-export';
+import { ChangeSummary } from '../../src/renderer/change-summary';
+import { DiffEngine } from '../../src/diff/diff-engine';
+import type { DocumentAST } from '../../src/types/ast.types';
+import { createDocument, createHeading, createParagraph, createTableRow } from '../helpers/ast-factory';
+
+interface PdfPageContent {
+  mediaBox: string;
+  content: string;
+  texts: string[];
+}
+
+/**
+ * Pages of a generated PDF in order, with the text drawn on each
+ */
+function readPages(bytes: Uint8Array): PdfPageContent[] {
+  const pdf = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  const pages = [...pdf.matchAll(/\/Type \/Page \/Parent 2 0 R \/MediaBox \[([^\]]+)\][\s\S]*?stream\n([\s\S]*?)\nendstream/g)];
+  return pages.map(([, mediaBox, content]) => ({
+    mediaBox,
+    content,
+    texts: [...content.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map(match => match[1].replace(/\\(.)/g, '$1'))
+  }));
+}
+
+describe('PdfExporter', () => {
+  let summary: ChangeSummary;
+  const exporter = new PdfExporter();
+
+  beforeEach(() => {
+    document.body.innerHTML = `<aside id="change-sidebar"></aside>`;
+    summary = new ChangeSummary('change-sidebar');
+  });
+
+  function generate(original: DocumentAST, current: DocumentAST, options: Partial<PdfExportOptions> = {}) {
+    const diff = new DiffEngine().diffDocuments(original, current);
+    summary.render(diff);
+    return exporter.generateReport(diff, summary.getEntries(), original, current, 'v1.docx', 'v2.docx', options);
+  }
+
+  const original = createDocument([
+    createHeading('Payment'),
+    createParagraph('Payment is due within thirty days of the invoice date.'),
+    createParagraph('Late payments carry interest.')
+  ], { author: 'Alice' });
+  const current = createDocument([
+    createHeading('Payment'),
+    createParagraph('Payment is due within sixty days of the invoice date.'),
+    createParagraph('Either party may renew it.')
+  ], { author: 'Bob' });
+
+  it('should start with a summary page listing files, authors and change counts', () => {
+    const [cover] = readPages(generate(original, current));
+
+    expect(cover.texts).toContain('Document Comparison');
+    expect(cover.texts).toEqual(expect.arrayContaining(['v1.docx', 'v2.docx', 'Alice', 'Bob']));
+    const total = cover.texts.indexOf('Total');
+    expect(cover.texts[total + 1]).toBe('3');
+    expect(cover.texts).toContain('Change index');
+  });
+
+  it('should head every page with both file names and number it', () => {
+    const pages = readPages(generate(original, current));
+
+    expect(pages.length).toBe(2);
+    pages.forEach((page, i) => {
+      expect(page.texts).toContain('Original: v1.docx');
+      expect(page.texts).toContain('Current: v2.docx');
+      expect(page.texts).toContain(`Page ${i + 1} of 2`);
+    });
+  });
+
+  it('should mark deletions and insertions in their colours with strike and underline', () => {
+    const [, redline] = readPages(generate(original, current));
+
+    expect(redline.texts).toContain('thirty');
+    expect(redline.texts).toContain('sixty');
+    // Deleted text is red, inserted text green, each followed by its line
+    expect(redline.content).toMatch(/0\.81 0\.13 0\.18 rg [\d. ]+Td \(thirty\) Tj ET\nq 0\.81 0\.13 0\.18 RG/);
+    expect(redline.content).toMatch(/0\.1 0\.5 0\.22 rg [\d. ]+Td \(sixty\) Tj ET\nq 0\.1 0\.5 0\.22 RG/);
+  });
+
+  it('should draw a change bar in the margin beside changed lines only', () => {
+    const [, redline] = readPages(generate(original, current));
+
+    // Bars sit 16pt left of the 64pt margin: one per changed line
+    const bars = redline.content.match(/ 48 [\d.]+ 2\.5 [\d.]+ re f/g) || [];
+    expect(bars.length).toBe(3);
+  });
+
+  it('should link each index entry to the page of its change', () => {
+    const bytes = generate(original, current);
+    const pdf = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+    const [cover] = readPages(bytes);
+
+    // The redline page is the second page object
+    expect(pdf.match(/\/Subtype \/Link [^>]*\/Dest \[10 0 R/g)!.length).toBe(3);
+    expect(cover.texts.filter(text => text === '2').length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should show accepted and rejected changes resolved', () => {
+    const diff = new DiffEngine().diffDocuments(original, current);
+    const [modified, deleted] = diff.blockDiffs.filter(d => d.changeId && d.type !== 'insert');
+    const inserted = diff.blockDiffs.find(d => d.type === 'insert')!;
+    summary.render(diff);
+    const changeStates = new Map([
+      [modified.changeId!, 'rejected' as const],
+      [deleted.changeId!, 'accepted' as const],
+      [inserted.changeId!, 'accepted' as const]
+    ]);
+
+    const bytes = exporter.generateReport(diff, summary.getEntries(), original, current, 'v1.docx', 'v2.docx', { changeStates });
+    const [cover, redline] = readPages(bytes);
+
+    expect(redline.texts).toContain('Payment is due within thirty days of the invoice date.');
+    expect(redline.texts).toContain('Either party may renew it.');
+    expect(redline.texts).not.toContain('Late payments carry interest.');
+    expect(redline.content).not.toMatch(/ 48 [\d.]+ 2\.5 [\d.]+ re f/);
+    expect(cover.texts).toContain(' (accepted)');
+  });
+
+  it('should lay out table rows with their cell changes', () => {
+    const tableOriginal = createDocument([
+      createTableRow(['Item', 'Price'], { rowIndex: 0 }),
+      createTableRow(['Widget', '10 EUR'], { rowIndex: 1 })
+    ]);
+    const tableCurrent = createDocument([
+      createTableRow(['Item', 'Price'], { rowIndex: 0 }),
+      createTableRow(['Widget', '12 EUR'], { rowIndex: 1 }),
+      createTableRow(['Gadget', '5 EUR'], { rowIndex: 2 })
+    ]);
+
+    const [, redline] = readPages(generate(tableOriginal, tableCurrent));
+
+    expect(redline.texts).toEqual(expect.arrayContaining(['Item', 'Price', 'Widget', 'Gadget', '5 EUR']));
+    // Every cell is outlined
+    expect((redline.content.match(/ re S Q/g) || []).length).toBe(6);
+  });
+
+  it('should report characters the standard fonts cannot show', () => {
+    generate(original, current);
+    expect(exporter.getUnsupportedCharacters()).toEqual([]);
+
+    generate(original, createDocument([
+      createHeading('Payment'),
+      createParagraph('Payment is due within sixty days of the invoice date.'),
+      createParagraph('Оплата в течение 30 дней.')
+    ]));
+    expect(exporter.getUnsupportedCharacters()).toEqual(expect.arrayContaining(['О', 'п', 'д']));
+  });
+
+  it('should use the chosen paper size', () => {
+    const [page] = readPages(generate(original, current, { pageSize: 'letter' }));
+
+    expect(page.mediaBox).toBe('0 0 612 792');
+  });
+
+  it('should note when the documents are identical', () => {
+    const doc = createDocument([createParagraph('Nothing changes here.')]);
+
+    const [cover] = readPages(generate(doc, createDocument([createParagraph('Nothing changes here.')])));
+
+    expect(cover.texts).toContain('The documents are identical.');
+  });
+});
@@ -0,0 +1,87 @@
+// Unit tests for the PDF writer - text encoding, metrics and file structure
+
+import { describe, it, expect } from 'vitest';
+import { PdfPage, buildPdf, encodeText, findUnsupportedCharacters, measureText } from '../../src/ui/pdf-writer';
+
+function toLatin1(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('encodeText', () => {
+  it('should keep ASCII and Latin-1 text as is', () => {
+    expect(encodeText('Café § 12')).toBe('Café § 12');
+  });
+
+  it('should map typographic punctuation to WinAnsi codes', () => {
+    expect(encodeText('“Quote” – done…').split('').map(c => c.charCodeAt(0).toString(16)))
+      .toEqual(['93', '51', '75', '6f', '74', '65', '94', '20', '96', '20', '64', '6f', '6e', '65', '85']);
+  });
+
+  it('should spell out or simplify characters WinAnsi lacks', () => {
+    expect(encodeText('a → b')).toBe('a -> b');
+    expect(encodeText('Łódź')).toBe('?ódz');
+    expect(encodeText('tab\there')).toBe('tab here');
+  });
+
+  it('should report characters printed as ?', () => {
+    expect(findUnsupportedCharacters('Łódź → Москва, 東京 and Москва')).toEqual(['Ł', 'М', 'о', 'с', 'к', 'в', 'а', '東', '京']);
+    expect(findUnsupportedCharacters('Café “ok” – ń')).toEqual([]);
+
+    const page = new PdfPage(595, 842);
+    page.drawText('Price: 5 ₽', 72, 770, 'regular', 12);
+    expect(page.getUnsupportedCharacters()).toEqual(['₽']);
+  });
+});
+
+describe('measureText', () => {
+  it('should use the Helvetica metrics of each face', () => {
+    // 'W' is 944 and 'i' 222 (bold 278) units wide
+    expect(measureText('Wi', 'regular', 10)).toBeCloseTo(11.66);
+    expect(measureText('Wi', 'bold', 10)).toBeCloseTo(12.22);
+    expect(measureText('Wi', 'italic', 10)).toBeCloseTo(measureText('Wi', 'regular', 10));
+  });
+
+  it('should measure accented letters like their base letter', () => {
+    expect(measureText('é', 'regular', 12)).toBeCloseTo(measureText('e', 'regular', 12));
+  });
+});
+
+describe('buildPdf', () => {
+  it('should write a cross-reference table pointing at every object', () => {
+    const page = new PdfPage(595, 842);
+    page.drawText('Hello (world)', 72, 770, 'regular', 12);
+    const pdf = toLatin1(buildPdf([page, new PdfPage(595, 842)], 'Test'));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Hello \\(world\\)) Tj');
+  });
+
+  it('should give each stream its length in bytes', () => {
+    const page = new PdfPage(595, 842);
+    page.drawText('Größe', 72, 770, 'bold', 12, '#cf222e');
+    const pdf = toLatin1(buildPdf([page], 'Test'));
+
+    const [, length, content] = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(content.length).toBe(Number(length));
+    expect(content).toContain('0.81 0.13 0.18 rg');
+  });
+
+  it('should link to a height on another page', () => {
+    const first = new PdfPage(595, 842);
+    const second = new PdfPage(595, 842);
+    first.addLink(72, 700, 200, 12, second, 500);
+    const pdf = toLatin1(buildPdf([first, second], 'Test'));
+
+    // Pages are objects 8 and 10, each followed by its content stream
+    expect(pdf).toContain('/Subtype /Link /Rect [72 700 272 712] /Border [0 0 0] /Dest [10 0 R /XYZ 0 500 null]');
+  });
+});